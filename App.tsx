@@ -1,79 +1,286 @@
 import React from 'react';
-import { Tab, TabContentState, ImageAnalysisResult } from './types'; // Import ImageAnalysisResult
+import { Tab, TabContentStateUpdate, TabGroup, ImageAnalysisResult, PromptTemplate, AnalysisCategory, UiLocale } from './types'; // Import ImageAnalysisResult
 import TabbedInterface from './components/TabbedInterface';
+import SettingsModal from './components/SettingsModal';
+import BatchAnalysis from './components/BatchAnalysis';
+import WorkspaceImportModal, { WorkspaceImportMode } from './components/WorkspaceImportModal';
+import { loadWorkspace, saveWorkspace } from './services/storageService';
+import { serializeWorkspace } from './services/workspaceFileService';
+import { downloadTextFile, fileTimestamp } from './services/downloadService';
+import { loadTemplates, saveTemplates, mergeTemplates } from './services/templateService';
+import { DEFAULT_TEMPLATE_ID } from './services/promptBuilder';
+import { loadCategories, saveCategories, mergeCategories } from './services/categoryService';
+import { DEFAULT_OUTPUT_LANGUAGE } from './services/outputLanguageService';
+import { UI_LOCALES, loadLocale, saveLocale, setLocale, t } from './services/i18n';
+import { errorMessage } from './services/appError';
+import { cancelAnalysisRun } from './services/analysisRunService';
+import { analyzeTab } from './services/tabAnalysisService';
+import { copyTabGroup, createTabGroup, keepGroupsTogether, pruneTabGroups } from './services/tabGroupService';
+import { PreprocessedImage } from './services/imagePreprocessService';
 
 function App() {
   const [tabs, setTabs] = React.useState<Tab[]>([]);
   const [activeTabId, setActiveTabId] = React.useState<string>('');
+  const [tabGroups, setTabGroups] = React.useState<TabGroup[]>([]);
+  const [isRestored, setIsRestored] = React.useState(false); // Prevents saving before the stored workspace is loaded
+  const [storageError, setStorageError] = React.useState<string | null>(null);
+  const [showSettings, setShowSettings] = React.useState(false);
+  const [isBatchMode, setIsBatchMode] = React.useState(false);
+  const [showImport, setShowImport] = React.useState(false);
+  const [templates, setTemplates] = React.useState<PromptTemplate[]>(() => loadTemplates());
+  const [categories, setCategories] = React.useState<AnalysisCategory[]>(() => loadCategories());
+  // Mirrors the i18n module's locale so that switching it re-renders the whole app
+  const [locale, setLocaleState] = React.useState<UiLocale>(() => {
+    const savedLocale = loadLocale();
+    setLocale(savedLocale);
+    return savedLocale;
+  });
 
   // Helper to generate unique IDs
   const generateUniqueId = () => `tab-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
-  // Add initial tab on first render
+  // Restore saved tabs on first render, or add an initial tab if nothing was saved
   React.useEffect(() => {
-    if (tabs.length === 0) {
-      addTab();
-    }
+    let cancelled = false;
+    loadWorkspace()
+      .then((workspace) => {
+        if (cancelled) return;
+        if (workspace) {
+          setTabs(workspace.tabs);
+          setActiveTabId(workspace.activeTabId);
+          setTabGroups(workspace.groups);
+        } else {
+          addTab();
+        }
+      })
+      .catch((e: any) => {
+        if (cancelled) return;
+        console.error('Failed to restore workspace:', e);
+        setStorageError(t('app.restoreFailed', { detail: errorMessage(e, 'error.storageOpenFailed') }));
+        addTab();
+      })
+      .finally(() => {
+        if (!cancelled) setIsRestored(true);
+      });
+    return () => {
+      cancelled = true;
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Empty dependency array means this runs once on mount
 
+  // Save tabs, their order, their groups and the active tab whenever they change (debounced, since images can be large)
+  React.useEffect(() => {
+    if (!isRestored || tabs.length === 0) return;
+    const timer = window.setTimeout(() => {
+      saveWorkspace(tabs, activeTabId, tabGroups)
+        .then(() => setStorageError(null))
+        .catch((e: any) => {
+          console.error('Failed to save workspace:', e);
+          setStorageError(errorMessage(e, 'error.storageSaveGeneric'));
+        });
+    }, 500);
+    return () => window.clearTimeout(timer);
+  }, [tabs, activeTabId, tabGroups, isRestored]);
+
+  // Groups whose last tab was closed, ungrouped or moved elsewhere go away
+  React.useEffect(() => {
+    setTabGroups((prevGroups) => {
+      const groups = pruneTabGroups(prevGroups, tabs);
+      return groups.length === prevGroups.length ? prevGroups : groups;
+    });
+  }, [tabs]);
+
   const createNewTab = (name: string, id?: string): Tab => ({
     id: id || generateUniqueId(),
     name: name,
+    groupId: null,
     contentState: {
       uploadedImage: null,
+      uploadedImageInfo: null,
+      uploadedImageEdit: null,
       selectedOptions: [],
       rawAnalysisResult: null, // Initialize rawAnalysisResult with null
       isLoading: false,
       error: null,
       otherAnalysisText: '', // 初始化 otherAnalysisText
+      templateId: DEFAULT_TEMPLATE_ID,
+      outputLanguage: DEFAULT_OUTPUT_LANGUAGE,
+      bilingualLanguage: null,
+      translatedAnalysisResult: null,
+      analysisHistory: [],
+      fieldEdits: {},
+      analysisMode: 'describe',
+      referenceImage: null,
+      referenceImageInfo: null,
+      referenceImageEdit: null,
+      regions: [],
+      detectSubjects: false,
+      subjectAnalysis: null,
+      outputReport: null,
+      errorKind: null,
+      cachedAt: null,
     },
   });
 
   const addTab = React.useCallback(() => {
-    const newTab = createNewTab(`頁籤 ${tabs.length + 1}`);
+    const newTab = createNewTab(t('tabs.defaultName', { index: tabs.length + 1 }));
     setTabs((prevTabs) => [...prevTabs, newTab]);
     setActiveTabId(newTab.id);
   }, [tabs.length]);
 
+  // One new tab per image, e.g. for images dropped onto the tab bar
+  const addImageTabs = React.useCallback((images: PreprocessedImage[], activate: boolean) => {
+    const newTabs = images.map((image, index) => {
+      const newTab = createNewTab(t('tabs.defaultName', { index: tabs.length + index + 1 }));
+      return { ...newTab, contentState: { ...newTab.contentState, uploadedImage: image.dataUrl, uploadedImageInfo: image.info } };
+    });
+    setTabs((prevTabs) => [...prevTabs, ...newTabs]);
+    if (activate && newTabs.length > 0) {
+      setActiveTabId(newTabs[0].id);
+    }
+  }, [tabs.length]);
+
   const renameTab = React.useCallback((id: string, newName: string) => {
     setTabs((prevTabs) =>
       prevTabs.map((tab) => (tab.id === id ? { ...tab, name: newName } : tab))
     );
   }, []);
 
-  const deleteTab = React.useCallback((id: string) => {
+  const deleteTabs = React.useCallback((ids: string[]) => {
+    ids.forEach((id) => cancelAnalysisRun(id));
     setTabs((prevTabs) => {
-      const filteredTabs = prevTabs.filter((tab) => tab.id !== id);
-      if (id === activeTabId && filteredTabs.length > 0) {
+      const filteredTabs = prevTabs.filter((tab) => !ids.includes(tab.id));
+      if (ids.includes(activeTabId) && filteredTabs.length > 0) {
         // If active tab is deleted, switch to the first available tab
         setActiveTabId(filteredTabs[0].id);
       } else if (filteredTabs.length === 0) {
         // If no tabs left, add a new one
         addTab(); // Add a new tab when all are deleted
-      } else if (id === activeTabId && filteredTabs.length === 0) {
-        // This case handles when the last tab is deleted and addTab creates a new one,
-        // so no need to setActiveTabId again for an empty array.
       }
       return filteredTabs;
     });
   }, [activeTabId, addTab]);
 
+  // Each copy goes right after its original, in the same group, and keeps its image, options and result
+  const duplicateTabs = React.useCallback((ids: string[]) => {
+    const copies = new Map<string, Tab>();
+    tabs.forEach((tab) => {
+      if (!ids.includes(tab.id)) return;
+      copies.set(tab.id, {
+        ...tab,
+        id: generateUniqueId(),
+        name: t('tabs.copyName', { name: tab.name }),
+        // A running analysis stays with the original
+        contentState: { ...tab.contentState, isLoading: false, error: null, errorKind: null },
+      });
+    });
+    setTabs((prevTabs) => prevTabs.flatMap((tab) => (copies.has(tab.id) ? [tab, copies.get(tab.id)!] : [tab])));
+    if (ids.length === 1 && copies.has(ids[0])) {
+      setActiveTabId(copies.get(ids[0])!.id);
+    }
+  }, [tabs]);
+
   const reorderTabs = React.useCallback((startIndex: number, endIndex: number) => {
     setTabs((prevTabs) => {
-      const result = Array.from(prevTabs);
+      const result: Tab[] = Array.from(prevTabs);
+      const target = prevTabs[endIndex];
       const [removed] = result.splice(startIndex, 1);
-      result.splice(endIndex, 0, removed);
-      return result;
+      // A tab dropped onto another joins that tab's group, or leaves its own when dropped onto an ungrouped tab
+      result.splice(endIndex, 0, { ...removed, groupId: target ? target.groupId : removed.groupId });
+      return keepGroupsTogether(result);
     });
   }, []);
 
+  // A null group removes the tabs from their groups
+  const moveTabsToGroup = React.useCallback((ids: string[], groupId: string | null) => {
+    setTabs((prevTabs) => keepGroupsTogether(prevTabs.map((tab) => (ids.includes(tab.id) ? { ...tab, groupId } : tab))));
+  }, []);
+
+  const groupTabs = React.useCallback((ids: string[]) => {
+    const group = createTabGroup(t('tabGroups.defaultName', { index: tabGroups.length + 1 }), tabGroups);
+    setTabGroups((prevGroups) => [...prevGroups, group]);
+    moveTabsToGroup(ids, group.id);
+  }, [tabGroups, moveTabsToGroup]);
+
+  // Renames, recolors, collapses or expands a group
+  const updateTabGroup = React.useCallback((id: string, changes: Partial<Omit<TabGroup, 'id'>>) => {
+    setTabGroups((prevGroups) => prevGroups.map((group) => (group.id === id ? { ...group, ...changes } : group)));
+  }, []);
+
+  // Keeps the tabs; the group itself is pruned once it is empty
+  const ungroupTabs = React.useCallback((groupId: string) => {
+    setTabs((prevTabs) => prevTabs.map((tab) => (tab.groupId === groupId ? { ...tab, groupId: null } : tab)));
+  }, []);
+
+  const exportWorkspace = React.useCallback(() => {
+    downloadTextFile(`workspace-${fileTimestamp()}.json`, serializeWorkspace(tabs, templates, categories, tabGroups), 'application/json');
+  }, [tabs, templates, categories, tabGroups]);
+
+  // The selected tabs as a workspace file, with the templates and categories they may use
+  const exportTabs = React.useCallback((ids: string[]) => {
+    const selectedTabs = tabs.filter((tab) => ids.includes(tab.id));
+    downloadTextFile(`tabs-${fileTimestamp()}.json`, serializeWorkspace(selectedTabs, templates, categories, tabGroups), 'application/json');
+  }, [tabs, templates, categories, tabGroups]);
+
+  const handleTemplatesChange = React.useCallback((newTemplates: PromptTemplate[]) => {
+    setTemplates(newTemplates);
+    try {
+      saveTemplates(newTemplates);
+    } catch (e: any) {
+      console.error('Failed to save templates:', e);
+      setStorageError(t('app.saveTemplatesFailed', { detail: e.message || t('common.unknownError') }));
+    }
+  }, []);
+
+  const handleCategoriesChange = React.useCallback((newCategories: AnalysisCategory[]) => {
+    setCategories(newCategories);
+    try {
+      saveCategories(newCategories);
+    } catch (e: any) {
+      console.error('Failed to save categories:', e);
+      setStorageError(t('app.saveCategoriesFailed', { detail: e.message || t('common.unknownError') }));
+    }
+  }, []);
+
+  const importWorkspace = React.useCallback((
+    importedTabs: Tab[],
+    importedTemplates: PromptTemplate[],
+    importedCategories: AnalysisCategory[],
+    importedGroups: TabGroup[],
+    mode: WorkspaceImportMode,
+  ) => {
+    handleTemplatesChange(mergeTemplates(templates, importedTemplates));
+    handleCategoriesChange(mergeCategories(categories, importedCategories));
+    // Imported tabs and groups always get fresh IDs so merging can never collide with existing ones
+    const newGroups = importedGroups.map(copyTabGroup);
+    const groupIds = new Map<string, string>(importedGroups.map((group, index) => [group.id, newGroups[index].id]));
+    const newTabs = importedTabs.map((tab) => ({
+      ...tab,
+      id: generateUniqueId(),
+      groupId: tab.groupId === null ? null : groupIds.get(tab.groupId) ?? null,
+    }));
+    setTabs((prevTabs) => (mode === 'replace' ? newTabs : [...prevTabs, ...newTabs]));
+    setTabGroups((prevGroups) => (mode === 'replace' ? newGroups : [...prevGroups, ...newGroups]));
+    setActiveTabId(newTabs[0].id);
+    setIsBatchMode(false);
+  }, [templates, categories, handleTemplatesChange, handleCategoriesChange]);
+
+  const handleLocaleChange = (newLocale: UiLocale) => {
+    setLocale(newLocale);
+    setLocaleState(newLocale);
+    try {
+      saveLocale(newLocale);
+    } catch (e: any) {
+      console.error('Failed to save locale:', e);
+    }
+  };
+
   const onTabContentStateChange = React.useCallback(
-    (tabId: string, newState: Partial<TabContentState>) => {
+    (tabId: string, newState: TabContentStateUpdate) => {
       setTabs((prevTabs) =>
         prevTabs.map((tab) =>
           tab.id === tabId
-            ? { ...tab, contentState: { ...tab.contentState, ...newState } }
+            ? { ...tab, contentState: { ...tab.contentState, ...(typeof newState === 'function' ? newState(tab.contentState) : newState) } }
             : tab
         )
       );
@@ -81,23 +288,132 @@ function App() {
     []
   );
 
+  // Replaces a tab's image as uploading it in the tab would, dropping everything that belonged to the old image
+  const loadImageIntoTab = React.useCallback((id: string, image: PreprocessedImage) => {
+    cancelAnalysisRun(id);
+    onTabContentStateChange(id, { uploadedImage: image.dataUrl, uploadedImageInfo: image.info, uploadedImageEdit: null, rawAnalysisResult: null, translatedAnalysisResult: null, fieldEdits: {}, subjectAnalysis: null, outputReport: null, cachedAt: null, regions: [], isLoading: false, error: null, errorKind: null });
+    setActiveTabId(id);
+  }, [onTabContentStateChange]);
+
+  // Read by bulk re-analysis, which runs longer than a render and needs each tab's state when its turn comes
+  const tabsRef = React.useRef(tabs);
+  tabsRef.current = tabs;
+
+  // Analyzes the tabs one after another with their own options, skipping those already being analyzed
+  const reanalyzeTabs = React.useCallback(async (ids: string[]) => {
+    for (const id of ids) {
+      const tab = tabsRef.current.find((entry) => entry.id === id);
+      if (!tab || tab.contentState.isLoading) continue;
+      await analyzeTab(id, tab.contentState, categories, (newState) => onTabContentStateChange(id, newState), {
+        isDetailedRequest: false,
+        forceRefresh: false,
+      });
+    }
+  }, [categories, onTabContentStateChange]);
+
   return (
     <div className="flex flex-col h-screen bg-gray-900 text-gray-50">
-      <header className="p-4 bg-blue-700 text-white shadow-lg sticky top-0 z-20">
-        <h1 className="text-2xl font-bold text-center">AI 圖片分析器</h1>
+      <header className="relative p-4 bg-blue-700 text-white shadow-lg sticky top-0 z-20">
+        <button
+          onClick={() => setIsBatchMode((prev) => !prev)}
+          className="absolute left-4 top-1/2 -translate-y-1/2 px-3 py-1.5 rounded-md text-sm font-semibold bg-blue-800 hover:bg-blue-600 transition-colors duration-200"
+          aria-pressed={isBatchMode}
+        >
+          {isBatchMode ? t('app.tabMode') : t('app.batchMode')}
+        </button>
+        <h1 className="text-2xl font-bold text-center">{t('app.title')}</h1>
+        <div className="absolute right-4 top-1/2 -translate-y-1/2 flex items-center gap-1">
+          <label htmlFor="ui-locale" className="sr-only">{t('app.uiLanguage')}</label>
+          <select
+            id="ui-locale"
+            className="mr-1 p-1 rounded-md bg-blue-800 text-white text-sm focus:outline-none focus:ring-2 focus:ring-white"
+            value={locale}
+            onChange={(e) => handleLocaleChange(e.target.value as UiLocale)}
+            title={t('app.uiLanguage')}
+          >
+            {UI_LOCALES.map((entry) => (
+              <option key={entry.id} value={entry.id}>
+                {entry.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={exportWorkspace}
+            className="p-2 rounded-full hover:bg-blue-600 transition-colors duration-200"
+            title={t('app.exportWorkspace')}
+            aria-label={t('app.exportWorkspace')}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+            </svg>
+          </button>
+          <button
+            onClick={() => setShowImport(true)}
+            className="p-2 rounded-full hover:bg-blue-600 transition-colors duration-200"
+            title={t('app.importWorkspace')}
+            aria-label={t('app.importWorkspace')}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+            </svg>
+          </button>
+          <button
+            onClick={() => setShowSettings(true)}
+            className="p-2 rounded-full hover:bg-blue-600 transition-colors duration-200"
+            title={t('app.settings')}
+            aria-label={t('app.openSettings')}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+              <path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+            </svg>
+          </button>
+        </div>
       </header>
-      <main className="flex-grow overflow-hidden">
+      {storageError && (
+        <div className="bg-yellow-700 text-white text-sm px-4 py-2 flex items-center justify-between" role="alert">
+          <p>{storageError}</p>
+          <button
+            onClick={() => setStorageError(null)}
+            className="ml-4 px-2 py-0.5 rounded hover:bg-yellow-600 transition-colors duration-200"
+            aria-label={t('app.dismissStorageWarning')}
+          >
+            ✕
+          </button>
+        </div>
+      )}
+      <main className={`flex-grow overflow-hidden ${isBatchMode ? 'hidden' : ''}`}>
         <TabbedInterface
           tabs={tabs}
+          tabGroups={tabGroups}
           activeTabId={activeTabId}
           addTab={addTab}
+          addImageTabs={addImageTabs}
+          loadImageIntoTab={loadImageIntoTab}
           setActiveTab={setActiveTabId}
           renameTab={renameTab}
-          deleteTab={deleteTab}
+          deleteTabs={deleteTabs}
+          duplicateTabs={duplicateTabs}
           reorderTabs={reorderTabs}
+          groupTabs={groupTabs}
+          moveTabsToGroup={moveTabsToGroup}
+          updateTabGroup={updateTabGroup}
+          ungroupTabs={ungroupTabs}
+          reanalyzeTabs={reanalyzeTabs}
+          exportTabs={exportTabs}
           onTabContentStateChange={onTabContentStateChange}
+          templates={templates}
+          onTemplatesChange={handleTemplatesChange}
+          categories={categories}
+          onCategoriesChange={handleCategoriesChange}
         />
       </main>
+      {/* Kept mounted while hidden so a running batch keeps going when switching back to tabs */}
+      <div className={`flex-grow overflow-y-auto custom-scrollbar ${isBatchMode ? '' : 'hidden'}`}>
+        <BatchAnalysis categories={categories} onCategoriesChange={handleCategoriesChange} />
+      </div>
+      {showSettings && <SettingsModal onClose={() => setShowSettings(false)} />}
+      {showImport && <WorkspaceImportModal categories={categories} onImport={importWorkspace} onClose={() => setShowImport(false)} />}
     </div>
   );
 }
@@ -0,0 +1,150 @@
+import React from 'react';
+import { AnalysisCategory, AnalysisHistoryEntry } from '../types';
+import { MAX_HISTORY_ENTRIES } from '../services/analysisHistoryService';
+import { categoryLabel, labelForSchemaKey } from '../services/categoryService';
+import { outputLanguageLabel } from '../services/outputLanguageService';
+import { getLocale, t } from '../services/i18n';
+
+interface AnalysisHistoryPanelProps {
+  history: AnalysisHistoryEntry[];
+  categories: AnalysisCategory[];
+  isLoading: boolean;
+  canCompare: boolean; // At least two results exist across all tabs
+  onRestore: (entry: AnalysisHistoryEntry) => void;
+  onTogglePin: (entryId: string) => void;
+  onDelete: (entryId: string) => void;
+  onCompare: (entryIds: string[]) => void; // Opens the comparison view with the given entries, oldest on the left
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString(getLocale());
+
+const AnalysisHistoryPanel: React.FC<AnalysisHistoryPanelProps> = ({
+  history,
+  categories,
+  isLoading,
+  canCompare,
+  onRestore,
+  onTogglePin,
+  onDelete,
+  onCompare,
+}) => {
+  const [compareIds, setCompareIds] = React.useState<string[]>([]);
+
+  // Forget selections whose entries were deleted or trimmed away
+  const compared = compareIds
+    .map((id) => history.find((entry) => entry.id === id))
+    .filter((entry): entry is AnalysisHistoryEntry => !!entry);
+
+  const toggleCompare = (entryId: string) => {
+    setCompareIds((prev) =>
+      prev.includes(entryId) ? prev.filter((id) => id !== entryId) : [...prev.filter((id) => id !== entryId), entryId].slice(-2),
+    );
+  };
+
+  const optionSummary = (entry: AnalysisHistoryEntry) =>
+    entry.selectedOptions.length === 0
+      ? t('history.allOptions')
+      : entry.selectedOptions
+          .map((id) => {
+            const category = categories.find((item) => item.id === id);
+            return category ? categoryLabel(category) : id;
+          })
+          .join(', ');
+
+  const handleCompare = () => {
+    onCompare([...compared].sort((a, b) => a.timestamp - b.timestamp).map((entry) => entry.id));
+  };
+
+  return (
+    <div className="p-4 bg-gray-800 rounded-lg shadow-md">
+      <div className="flex justify-between items-center mb-1">
+        <h3 className="text-sm font-medium text-gray-100">{t('history.title')}</h3>
+        <div className="flex gap-2">
+          {compared.length === 2 && (
+            <button onClick={handleCompare} className="text-xs text-blue-400 hover:text-blue-300 underline">
+              {t('history.compareSelected')}
+            </button>
+          )}
+          <button
+            onClick={() => onCompare([])}
+            disabled={!canCompare}
+            className="text-xs text-blue-400 hover:text-blue-300 underline disabled:text-gray-500 disabled:no-underline disabled:cursor-not-allowed"
+          >
+            {t('history.compare')}
+          </button>
+        </div>
+      </div>
+      {history.length === 0 ? (
+        <p className="text-xs text-gray-400">{t('history.empty')}</p>
+      ) : (
+        <>
+          <p className="text-xs text-gray-400 mb-2">
+            {t('history.compareHint')} {t('history.limit', { count: MAX_HISTORY_ENTRIES })}
+          </p>
+          <ul className="space-y-2 max-h-64 overflow-y-auto custom-scrollbar text-sm">
+            {history.map((entry) => {
+              const time = formatTime(entry.timestamp);
+              return (
+                <li key={entry.id} className="flex items-start gap-2 p-2 bg-gray-700 rounded-md">
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={compareIds.includes(entry.id)}
+                    onChange={() => toggleCompare(entry.id)}
+                    aria-label={t('history.compareAria', { time })}
+                  />
+                  <div className="flex-grow min-w-0">
+                    <div className="flex flex-wrap items-center gap-2 text-gray-100">
+                      {entry.pinned && (
+                        <span className="px-1.5 py-0.5 text-xs rounded bg-yellow-600 text-white">{t('history.pinned')}</span>
+                      )}
+                      <span>{time}</span>
+                      {entry.isDetailed && (
+                        <span className="px-1.5 py-0.5 text-xs rounded bg-blue-700 text-white">{t('history.detailed')}</span>
+                      )}
+                      {entry.refinedField && (
+                        <span className="px-1.5 py-0.5 text-xs rounded bg-indigo-700 text-white">
+                          {t('history.refined', { field: labelForSchemaKey(categories, entry.refinedField) })}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-400 truncate">
+                      {entry.model} · {outputLanguageLabel(entry.outputLanguage)} · {optionSummary(entry)}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <button
+                      onClick={() => onRestore(entry)}
+                      disabled={isLoading}
+                      className="px-2 py-1 text-xs bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-md transition-colors duration-200"
+                      aria-label={t('history.restoreAria', { time })}
+                    >
+                      {t('history.restore')}
+                    </button>
+                    <button
+                      onClick={() => onTogglePin(entry.id)}
+                      disabled={isLoading}
+                      className="px-2 py-1 text-xs bg-gray-600 hover:bg-gray-500 disabled:cursor-not-allowed text-gray-100 rounded-md transition-colors duration-200"
+                    >
+                      {entry.pinned ? t('history.unpin') : t('history.pin')}
+                    </button>
+                    <button
+                      onClick={() => onDelete(entry.id)}
+                      disabled={isLoading}
+                      className="px-2 py-1 text-xs bg-red-600 hover:bg-red-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-md transition-colors duration-200"
+                      aria-label={t('history.deleteAria', { time })}
+                    >
+                      {t('common.delete')}
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisHistoryPanel;
@@ -1,32 +1,32 @@
 import React from 'react';
-import { AnalysisOption } from '../types';
+import { AnalysisCategory, AnalysisCategoryId } from '../types';
+import CategoryManagerModal from './CategoryManagerModal';
+import { categoryLabel } from '../services/categoryService';
+import { t } from '../services/i18n';
 
 interface AnalysisOptionsProps {
-  selectedOptions: AnalysisOption[];
-  onOptionChange: (options: AnalysisOption[]) => void;
+  selectedOptions: AnalysisCategoryId[];
+  onOptionChange: (options: AnalysisCategoryId[]) => void;
   onAnalyze: () => void;
   isLoading: boolean;
   imageUploaded: boolean;
+  categories: AnalysisCategory[]; // The category registry the options are listed from
+  onCategoriesChange: (categories: AnalysisCategory[]) => void;
 }
 
-const allOptions: AnalysisOption[] = [
-  AnalysisOption.CHARACTER_ATTIRE,
-  AnalysisOption.CHARACTER_POSE,
-  AnalysisOption.CHARACTER_EXPRESSION,
-  AnalysisOption.PHOTO_BACKGROUND,
-  AnalysisOption.CAMERA_ANGLE, // 新增 '鏡頭角度' 選項
-  AnalysisOption.OTHER, // 新增 '其他' 選項
-];
-
 const AnalysisOptions: React.FC<AnalysisOptionsProps> = ({
   selectedOptions,
   onOptionChange,
   onAnalyze,
   isLoading,
   imageUploaded,
+  categories,
+  onCategoriesChange,
 }) => {
+  const [showCategoryManager, setShowCategoryManager] = React.useState(false);
+
   const handleSelectChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
-    const value = Array.from(event.target.selectedOptions, (option: HTMLOptionElement) => option.value) as AnalysisOption[];
+    const value = Array.from(event.target.selectedOptions, (option: HTMLOptionElement) => option.value);
     onOptionChange(value);
   };
 
@@ -36,7 +36,7 @@ const AnalysisOptions: React.FC<AnalysisOptionsProps> = ({
     <div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-between p-4 bg-gray-800 rounded-lg shadow-md space-y-4 sm:space-y-0 sm:space-x-4">
       <div className="flex-grow">
         <label htmlFor="analysis-options" className="sr-only">
-          選擇分析選項
+          {t('analysisOptions.label')}
         </label>
         <select
           id="analysis-options"
@@ -45,16 +45,23 @@ const AnalysisOptions: React.FC<AnalysisOptionsProps> = ({
           value={selectedOptions}
           onChange={handleSelectChange}
           disabled={isLoading}
-          aria-label="圖片內容分析選項"
+          aria-label={t('analysisOptions.aria')}
         >
-          {allOptions.map((option) => (
-            <option key={option} value={option}>
-              {option}
+          {categories.map((category) => (
+            <option key={category.id} value={category.id}>
+              {categoryLabel(category)}
             </option>
           ))}
         </select>
         <p className="mt-2 text-xs text-gray-400">
-          按住 Ctrl/Cmd 鍵可選擇多個選項。若不選擇，則分析所有選項。
+          {t('analysisOptions.hint')}
+          <button
+            onClick={() => setShowCategoryManager(true)}
+            className="ml-2 text-blue-400 hover:text-blue-300 underline"
+            aria-label={t('analysisOptions.manageCategoriesAria')}
+          >
+            {t('analysisOptions.manageCategories')}
+          </button>
         </p>
       </div>
 
@@ -66,7 +73,7 @@ const AnalysisOptions: React.FC<AnalysisOptionsProps> = ({
                        ? 'bg-gray-600 cursor-not-allowed'
                        : 'bg-blue-600 hover:bg-blue-700'
                    }`}
-        aria-label="分析圖片"
+        aria-label={t('analysisOptions.analyze')}
       >
         {isLoading ? (
           <span className="flex items-center justify-center">
@@ -74,12 +81,19 @@ const AnalysisOptions: React.FC<AnalysisOptionsProps> = ({
               <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
               <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
             </svg>
-            分析中...
+            {t('analysisOptions.analyzing')}
           </span>
         ) : (
-          '分析圖片'
+          t('analysisOptions.analyze')
         )}
       </button>
+      {showCategoryManager && (
+        <CategoryManagerModal
+          categories={categories}
+          onCategoriesChange={onCategoriesChange}
+          onClose={() => setShowCategoryManager(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,313 @@
+import React from 'react';
+import { AnalysisCategory, AnalysisCategoryId, AnalysisOption, BatchItem, BatchItemStatus, ImageAnalysisResult } from '../types';
+import ImageUploader from './ImageUploader';
+import AnalysisOptions from './AnalysisOptions';
+import { analyzeImage } from '../services/analysisService';
+import { runQueue, batchToCsv, batchToJson } from '../services/batchService';
+import { generateFullRefinePrompt } from '../services/promptBuilder';
+import { downloadTextFile, fileTimestamp } from '../services/downloadService';
+import { ImageFileData } from '../services/imageFileService';
+import { MessageKey, t } from '../services/i18n';
+import { errorMessage } from '../services/appError';
+
+const statusLabelKeys: Record<BatchItemStatus, MessageKey> = {
+  pending: 'batch.status.pending',
+  running: 'batch.status.running',
+  done: 'batch.status.done',
+  error: 'batch.status.error',
+};
+
+const statusClassNames: Record<BatchItemStatus, string> = {
+  pending: 'bg-gray-600 text-gray-100',
+  running: 'bg-blue-600 text-white',
+  done: 'bg-green-600 text-white',
+  error: 'bg-red-600 text-white',
+};
+
+const numberInputClassName = 'w-20 p-1.5 border border-gray-600 rounded-md bg-gray-700 text-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm';
+
+interface BatchAnalysisProps {
+  categories: AnalysisCategory[];
+  onCategoriesChange: (categories: AnalysisCategory[]) => void;
+}
+
+const BatchAnalysis: React.FC<BatchAnalysisProps> = ({ categories, onCategoriesChange }) => {
+  const [items, setItems] = React.useState<BatchItem[]>([]);
+  const [selectedOptions, setSelectedOptions] = React.useState<AnalysisCategoryId[]>([]);
+  const [otherAnalysisText, setOtherAnalysisText] = React.useState('');
+  const [concurrency, setConcurrency] = React.useState(2);
+  const [maxRetries, setMaxRetries] = React.useState(2);
+  const [isRunning, setIsRunning] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const cancelRequestedRef = React.useRef(false);
+
+  // Helper to generate unique IDs
+  const generateUniqueId = () => `batch-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+  const updateItem = (id: string, changes: Partial<BatchItem>) => {
+    setItems((prevItems) => prevItems.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const handleImagesUpload = (images: ImageFileData[]) => {
+    const newItems: BatchItem[] = images.map((image) => ({
+      id: generateUniqueId(),
+      fileName: image.name,
+      image: image.dataUrl,
+      status: 'pending',
+      attempts: 0,
+      result: null,
+      prompt: '',
+      error: null,
+    }));
+    setItems((prevItems) => [...prevItems, ...newItems]);
+  };
+
+  const handleStart = async () => {
+    // Only queue items that have not succeeded yet, so a finished batch can retry just its failures
+    const queue = items.filter((item) => item.status === 'pending' || item.status === 'error');
+    if (queue.length === 0) {
+      setError(t('error.batchEmpty'));
+      return;
+    }
+    if (selectedOptions.includes(AnalysisOption.OTHER) && !otherAnalysisText.trim()) {
+      setError(t('error.otherTextRequired'));
+      return;
+    }
+
+    // Snapshot the options so changes made while the batch runs do not mix into it
+    const options = [...selectedOptions];
+    const otherText = otherAnalysisText;
+    const batchCategories = categories;
+
+    setError(null);
+    setIsRunning(true);
+    cancelRequestedRef.current = false;
+    queue.forEach((item) => updateItem(item.id, { status: 'pending', attempts: 0, error: null }));
+
+    try {
+      await runQueue<BatchItem, ImageAnalysisResult>(
+        queue,
+        (item) => analyzeImage(item.image, options, otherText, false, batchCategories),
+        {
+          concurrency,
+          maxRetries,
+          retryDelayMs: 1000,
+          isCancelled: () => cancelRequestedRef.current,
+        },
+        {
+          onStart: (item, attempt) => updateItem(item.id, { status: 'running', attempts: attempt, error: null }),
+          onSuccess: (item, result) =>
+            updateItem(item.id, { status: 'done', result, prompt: generateFullRefinePrompt(result, options, undefined, batchCategories), error: null }),
+          onFailure: (item, e, attempts) =>
+            updateItem(item.id, { status: 'error', attempts, error: errorMessage(e, 'error.analysisGeneric') }),
+          // Back in the queue, so the next start retries it
+          onCancel: (item) => updateItem(item.id, { status: 'pending', error: null }),
+        },
+      );
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleStop = () => {
+    cancelRequestedRef.current = true;
+  };
+
+  const handleRemoveItem = (id: string) => {
+    setItems((prevItems) => prevItems.filter((item) => item.id !== id));
+  };
+
+  const handleClear = () => {
+    setItems([]);
+    setError(null);
+  };
+
+  const handleExport = (format: 'csv' | 'json') => {
+    const baseName = `batch-${fileTimestamp()}`;
+    if (format === 'csv') {
+      downloadTextFile(`${baseName}.csv`, batchToCsv(items), 'text/csv');
+    } else {
+      downloadTextFile(`${baseName}.json`, batchToJson(items), 'application/json');
+    }
+  };
+
+  const counts = items.reduce(
+    (acc, item) => ({ ...acc, [item.status]: acc[item.status] + 1 }),
+    { pending: 0, running: 0, done: 0, error: 0 } as Record<BatchItemStatus, number>,
+  );
+  const hasQueuedItems = counts.pending + counts.error > 0;
+
+  return (
+    <div className="p-6 flex flex-col space-y-4">
+      {error && (
+        <div className="bg-red-800 text-white p-3 rounded-md" role="alert">
+          <p>{error}</p>
+        </div>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <ImageUploader
+          onImageUpload={(image) => handleImagesUpload([{ name: 'image', dataUrl: image }])}
+          onImagesUpload={handleImagesUpload}
+          imagePreview={null}
+          isLoading={isRunning}
+          onSetError={setError}
+          onDeleteImage={() => undefined}
+        />
+        <div className="flex flex-col space-y-4">
+          <AnalysisOptions
+            selectedOptions={selectedOptions}
+            onOptionChange={setSelectedOptions}
+            onAnalyze={handleStart}
+            isLoading={isRunning}
+            imageUploaded={hasQueuedItems}
+            categories={categories}
+            onCategoriesChange={onCategoriesChange}
+          />
+          {selectedOptions.includes(AnalysisOption.OTHER) && (
+            <div className="p-4 bg-gray-800 rounded-lg shadow-md">
+              <label htmlFor="batch-other-analysis-text" className="block text-sm font-medium text-gray-100 mb-2">
+                {t('tabContent.otherText')}
+              </label>
+              <textarea
+                id="batch-other-analysis-text"
+                className="w-full p-2 border border-gray-600 rounded-md bg-gray-700 text-gray-50 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm resize-y custom-scrollbar"
+                rows={3}
+                placeholder={t('tabContent.otherTextPlaceholder')}
+                value={otherAnalysisText}
+                onChange={(e) => setOtherAnalysisText(e.target.value)}
+                disabled={isRunning}
+              ></textarea>
+            </div>
+          )}
+          <div className="flex flex-wrap items-center gap-4 p-4 bg-gray-800 rounded-lg shadow-md text-sm text-gray-300">
+            <label className="flex items-center gap-2">
+              {t('batch.concurrency')}
+              <input
+                type="number"
+                min={1}
+                max={8}
+                value={concurrency}
+                onChange={(e) => setConcurrency(Math.min(8, Math.max(1, Number(e.target.value) || 1)))}
+                disabled={isRunning}
+                className={numberInputClassName}
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              {t('batch.maxRetries')}
+              <input
+                type="number"
+                min={0}
+                max={5}
+                value={maxRetries}
+                onChange={(e) => setMaxRetries(Math.min(5, Math.max(0, Number(e.target.value) || 0)))}
+                disabled={isRunning}
+                className={numberInputClassName}
+              />
+            </label>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-4 bg-gray-800 rounded-lg shadow-md">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+          <h3 className="text-xl font-semibold text-gray-100">
+            {t('batch.queue')}
+            <span className="ml-3 text-sm font-normal text-gray-400">
+              {t('batch.summary', { total: items.length, done: counts.done, failed: counts.error, pending: counts.pending })}
+            </span>
+          </h3>
+          <div className="flex gap-2">
+            {isRunning && (
+              <button
+                onClick={handleStop}
+                className="px-4 py-2 bg-yellow-600 hover:bg-yellow-700 text-white rounded-md font-semibold text-sm transition-colors duration-200"
+              >
+                {t('batch.stop')}
+              </button>
+            )}
+            <button
+              onClick={() => handleExport('csv')}
+              disabled={counts.done === 0}
+              className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-md font-semibold text-sm transition-colors duration-200"
+            >
+              {t('batch.exportCsv')}
+            </button>
+            <button
+              onClick={() => handleExport('json')}
+              disabled={counts.done === 0}
+              className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-md font-semibold text-sm transition-colors duration-200"
+            >
+              {t('batch.exportJson')}
+            </button>
+            <button
+              onClick={handleClear}
+              disabled={isRunning || items.length === 0}
+              className="px-4 py-2 bg-red-600 hover:bg-red-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-md font-semibold text-sm transition-colors duration-200"
+            >
+              {t('batch.clear')}
+            </button>
+          </div>
+        </div>
+
+        {items.length === 0 ? (
+          <p className="text-sm text-gray-400">{t('batch.empty')}</p>
+        ) : (
+          <div className="overflow-x-auto custom-scrollbar">
+            <table className="w-full text-sm text-left text-gray-300">
+              <thead className="text-xs uppercase text-gray-400 border-b border-gray-700">
+                <tr>
+                  <th className="p-2">{t('batch.columnImage')}</th>
+                  <th className="p-2">{t('batch.columnFileName')}</th>
+                  <th className="p-2">{t('batch.columnStatus')}</th>
+                  <th className="p-2">{t('batch.columnPrompt')}</th>
+                  <th className="p-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item) => (
+                  <tr key={item.id} className="border-b border-gray-700 align-top">
+                    <td className="p-2">
+                      <img src={item.image} alt={item.fileName} className="h-12 w-12 object-cover rounded" />
+                    </td>
+                    <td className="p-2 max-w-[160px] break-all">{item.fileName}</td>
+                    <td className="p-2 whitespace-nowrap">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${statusClassNames[item.status]}`}>
+                        {t(statusLabelKeys[item.status])}
+                      </span>
+                      {item.attempts > 1 && <span className="ml-1 text-xs text-gray-400">{t('batch.attempt', { count: item.attempts })}</span>}
+                    </td>
+                    <td className="p-2">
+                      {item.status === 'done' && <p className="whitespace-pre-wrap">{item.prompt}</p>}
+                      {item.status === 'error' && <p className="text-red-400">{item.error}</p>}
+                    </td>
+                    <td className="p-2 whitespace-nowrap text-right">
+                      {item.status === 'done' && (
+                        <button
+                          onClick={() => navigator.clipboard.writeText(item.prompt)}
+                          className="px-2 py-1 bg-green-600 hover:bg-green-700 text-white rounded-md text-xs mr-1 transition-colors duration-200"
+                          aria-label={t('batch.copyAria', { name: item.fileName })}
+                        >
+                          {t('batch.copy')}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleRemoveItem(item.id)}
+                        disabled={isRunning}
+                        className="px-2 py-1 bg-gray-700 hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-md text-xs transition-colors duration-200"
+                        aria-label={t('batch.removeAria', { name: item.fileName })}
+                      >
+                        {t('batch.remove')}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchAnalysis;
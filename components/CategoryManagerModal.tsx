@@ -0,0 +1,230 @@
+import React from 'react';
+import { AnalysisCategory } from '../types';
+import { SCHEMA_KEY_PATTERN, categoryLabel, isReservedSchemaKey } from '../services/categoryService';
+import { t } from '../services/i18n';
+
+interface CategoryManagerModalProps {
+  categories: AnalysisCategory[];
+  onCategoriesChange: (categories: AnalysisCategory[]) => void;
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full p-2 border border-gray-600 rounded-md bg-gray-700 text-gray-50 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm disabled:opacity-60';
+
+const CategoryManagerModal: React.FC<CategoryManagerModalProps> = ({ categories, onCategoriesChange, onClose }) => {
+  const [selectedId, setSelectedId] = React.useState(categories[0].id);
+  const selectedCategory = categories.find((category) => category.id === selectedId) || categories[0];
+  const [draft, setDraft] = React.useState<AnalysisCategory>(selectedCategory);
+  const [formError, setFormError] = React.useState<string | null>(null);
+
+  // Load the selected category into the editor whenever the selection changes
+  React.useEffect(() => {
+    setDraft(selectedCategory);
+    setFormError(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedId]);
+
+  // Helper to generate unique IDs
+  const generateUniqueId = () => `category-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+  const isDirty = (Object.keys(draft) as (keyof AnalysisCategory)[]).some((key) => draft[key] !== selectedCategory[key]);
+
+  const handleCreate = () => {
+    // Pick a schema key that is not taken yet, e.g. custom1, custom2...
+    const usedKeys = new Set(categories.map((category) => category.schemaKey));
+    let index = 1;
+    while (usedKeys.has(`custom${index}`)) index++;
+
+    const newCategory: AnalysisCategory = {
+      id: generateUniqueId(),
+      label: t('categoryManager.newLabel'),
+      prompt: '',
+      description: '',
+      refinePrefix: '將圖中內容修改為以下描述：',
+      schemaKey: `custom${index}`,
+      isBuiltIn: false,
+    };
+    onCategoriesChange([...categories, newCategory]);
+    setSelectedId(newCategory.id);
+  };
+
+  const handleSave = () => {
+    if (selectedCategory.isBuiltIn) return;
+    if (!draft.label.trim() || !draft.prompt.trim()) {
+      setFormError(t('categoryManager.labelAndPromptRequired'));
+      return;
+    }
+    if (!SCHEMA_KEY_PATTERN.test(draft.schemaKey)) {
+      setFormError(t('categoryManager.schemaKeyInvalid'));
+      return;
+    }
+    if (isReservedSchemaKey(draft.schemaKey)) {
+      setFormError(t('categoryManager.schemaKeyReserved'));
+      return;
+    }
+    if (categories.some((category) => category.id !== draft.id && category.schemaKey === draft.schemaKey)) {
+      setFormError(t('categoryManager.schemaKeyTaken'));
+      return;
+    }
+    setFormError(null);
+    onCategoriesChange(
+      categories.map((category) =>
+        category.id === selectedCategory.id
+          ? { ...draft, label: draft.label.trim(), description: draft.description.trim() || draft.prompt.trim() }
+          : category,
+      ),
+    );
+  };
+
+  const handleDelete = () => {
+    if (selectedCategory.isBuiltIn) return;
+    onCategoriesChange(categories.filter((category) => category.id !== selectedCategory.id));
+    setSelectedId(categories[0].id);
+  };
+
+  const updateDraft = (changes: Partial<AnalysisCategory>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+  };
+
+  const isReadOnly = !!selectedCategory.isBuiltIn;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-75 p-4">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden" role="dialog" aria-modal="true" aria-labelledby="category-manager-title">
+        <div className="flex justify-between items-center p-4 border-b border-gray-700">
+          <h2 id="category-manager-title" className="text-xl font-semibold text-gray-100">{t('categoryManager.title')}</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-100 transition-colors duration-200"
+            aria-label={t('categoryManager.close')}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row flex-grow min-h-0 text-sm">
+          <div className="md:w-1/3 border-b md:border-b-0 md:border-r border-gray-700 p-3 flex flex-col gap-2 overflow-y-auto custom-scrollbar">
+            {categories.map((category) => (
+              <button
+                key={category.id}
+                onClick={() => setSelectedId(category.id)}
+                className={`text-left px-3 py-2 rounded-md transition-colors duration-200
+                           ${category.id === selectedCategory.id ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+              >
+                {categoryLabel(category)}
+                {category.isBuiltIn && <span className="ml-2 text-xs opacity-75">{t('common.builtIn')}</span>}
+              </button>
+            ))}
+            <button
+              onClick={handleCreate}
+              className="px-3 py-2 rounded-md border border-dashed border-gray-600 text-gray-300 hover:border-blue-500 hover:text-white transition-colors duration-200"
+            >
+              {t('categoryManager.new')}
+            </button>
+          </div>
+
+          <div className="md:w-2/3 p-4 space-y-3 overflow-y-auto custom-scrollbar">
+            {isReadOnly && <p className="text-yellow-400">{t('categoryManager.builtInReadOnly')}</p>}
+            {formError && (
+              <div className="bg-red-800 text-white p-2 rounded-md" role="alert">
+                {formError}
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="category-label" className="block font-medium text-gray-100 mb-1">{t('categoryManager.label')}</label>
+                <input
+                  id="category-label"
+                  type="text"
+                  className={inputClassName}
+                  value={isReadOnly ? categoryLabel(draft) : draft.label}
+                  onChange={(e) => updateDraft({ label: e.target.value })}
+                  placeholder={t('categoryManager.labelPlaceholder')}
+                  disabled={isReadOnly}
+                />
+              </div>
+              <div>
+                <label htmlFor="category-schema-key" className="block font-medium text-gray-100 mb-1">{t('categoryManager.schemaKey')}</label>
+                <input
+                  id="category-schema-key"
+                  type="text"
+                  className={`${inputClassName} font-mono`}
+                  value={draft.schemaKey}
+                  onChange={(e) => updateDraft({ schemaKey: e.target.value })}
+                  placeholder="hairstyle"
+                  disabled={isReadOnly}
+                />
+              </div>
+            </div>
+            <div>
+              <label htmlFor="category-prompt" className="block font-medium text-gray-100 mb-1">{t('categoryManager.prompt')}</label>
+              <input
+                id="category-prompt"
+                type="text"
+                className={inputClassName}
+                value={draft.usesOtherText ? t('categoryManager.promptUsesOtherText') : draft.prompt}
+                onChange={(e) => updateDraft({ prompt: e.target.value })}
+                placeholder={t('categoryManager.promptPlaceholder')}
+                disabled={isReadOnly}
+              />
+            </div>
+            <div>
+              <label htmlFor="category-description" className="block font-medium text-gray-100 mb-1">{t('categoryManager.description')}</label>
+              <textarea
+                id="category-description"
+                rows={3}
+                className={`${inputClassName} resize-y custom-scrollbar`}
+                value={draft.description}
+                onChange={(e) => updateDraft({ description: e.target.value })}
+                placeholder={t('categoryManager.descriptionPlaceholder')}
+                disabled={isReadOnly}
+              ></textarea>
+            </div>
+            <div>
+              <label htmlFor="category-refine-prefix" className="block font-medium text-gray-100 mb-1">{t('categoryManager.refinePrefix')}</label>
+              <input
+                id="category-refine-prefix"
+                type="text"
+                className={inputClassName}
+                value={draft.refinePrefix}
+                onChange={(e) => updateDraft({ refinePrefix: e.target.value })}
+                placeholder={t('categoryManager.refinePrefixPlaceholder')}
+                disabled={isReadOnly}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-700">
+          {!isReadOnly && (
+            <>
+              <button
+                onClick={handleDelete}
+                className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md font-semibold transition-colors duration-200"
+              >
+                {t('common.delete')}
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!isDirty}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-md font-semibold transition-colors duration-200"
+              >
+                {t('common.save')}
+              </button>
+            </>
+          )}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded-md font-semibold transition-colors duration-200"
+          >
+            {t('common.close')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CategoryManagerModal;
@@ -0,0 +1,81 @@
+import React from 'react';
+
+interface ContextMenuProps {
+  x: number; // Where the menu was opened, in viewport pixels
+  y: number;
+  label: string;
+  onClose: () => void;
+  children: React.ReactNode;
+}
+
+interface ContextMenuItemProps {
+  onClick: () => void;
+  isDanger?: boolean;
+  children: React.ReactNode;
+}
+
+// Gap kept between the menu and the window edges
+const EDGE_MARGIN = 8;
+
+/**
+ * A menu at the pointer, closed by clicking elsewhere, pressing Escape or resizing the window.
+ */
+const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, label, onClose, children }) => {
+  const menuRef = React.useRef<HTMLDivElement>(null);
+  const [position, setPosition] = React.useState({ left: x, top: y });
+
+  React.useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) onClose();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    document.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('resize', onClose);
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown);
+      document.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('resize', onClose);
+    };
+  }, [onClose]);
+
+  // Opens towards the inside of the window near its right and bottom edges
+  React.useLayoutEffect(() => {
+    const rect = menuRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setPosition({
+      left: Math.max(EDGE_MARGIN, Math.min(x, window.innerWidth - rect.width - EDGE_MARGIN)),
+      top: Math.max(EDGE_MARGIN, Math.min(y, window.innerHeight - rect.height - EDGE_MARGIN)),
+    });
+  }, [x, y]);
+
+  return (
+    <div
+      ref={menuRef}
+      role="menu"
+      aria-label={label}
+      className="fixed z-50 min-w-[12rem] py-1 bg-gray-800 border border-gray-600 rounded-md shadow-lg text-sm text-gray-200"
+      style={position}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      {children}
+    </div>
+  );
+};
+
+export const ContextMenuItem: React.FC<ContextMenuItemProps> = ({ onClick, isDanger = false, children }) => (
+  <button
+    role="menuitem"
+    onClick={onClick}
+    className={`block w-full text-left px-3 py-1.5 transition-colors duration-150
+                ${isDanger ? 'text-red-400 hover:bg-red-600 hover:text-white' : 'hover:bg-gray-700'}`}
+  >
+    {children}
+  </button>
+);
+
+export const ContextMenuSeparator: React.FC = () => <div role="separator" className="my-1 border-t border-gray-700" />;
+
+export default ContextMenu;
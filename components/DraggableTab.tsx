@@ -1,29 +1,42 @@
 import React from 'react';
+import { t } from '../services/i18n';
 
 interface DraggableTabProps {
   tabId: string;
   tabName: string;
   isActive: boolean;
-  onClick: () => void;
+  isSelected: boolean; // Part of a multi-selection for bulk actions
+  groupColorClass: string | null; // Background class of the tab's group color, if it is grouped
+  isRenameRequested: boolean; // E.g. from the context menu; starts editing the name
+  onRenameRequestHandled: () => void;
+  onClick: (e: React.MouseEvent<HTMLButtonElement>) => void;
+  onContextMenu: (e: React.MouseEvent<HTMLButtonElement>, id: string) => void;
   onRename: (id: string, newName: string) => void; // Modified to pass newName
   onDelete: (id: string) => void;
   onDragStart: (e: React.DragEvent<HTMLButtonElement>, id: string) => void;
-  onDragOver: (e: React.DragEvent<HTMLButtonElement>) => void;
+  onDragOver: (e: React.DragEvent<HTMLButtonElement>, id: string) => void;
   onDrop: (e: React.DragEvent<HTMLButtonElement>, id: string) => void;
   isDragging: boolean;
+  isFileDropTarget: boolean; // Image files are dragged over this tab
 }
 
 const DraggableTab: React.FC<DraggableTabProps> = ({
   tabId,
   tabName,
   isActive,
+  isSelected,
+  groupColorClass,
+  isRenameRequested,
+  onRenameRequestHandled,
   onClick,
+  onContextMenu,
   onRename,
   onDelete,
   onDragStart,
   onDragOver,
   onDrop,
   isDragging,
+  isFileDropTarget,
 }) => {
   const [isEditing, setIsEditing] = React.useState(false);
   const [newTabName, setNewTabName] = React.useState(tabName);
@@ -35,6 +48,13 @@ const DraggableTab: React.FC<DraggableTabProps> = ({
     }
   }, [isEditing]);
 
+  React.useEffect(() => {
+    if (isRenameRequested) {
+      setIsEditing(true);
+      onRenameRequestHandled();
+    }
+  }, [isRenameRequested, onRenameRequestHandled]);
+
   // Sync newTabName with tabName prop if it changes externally
   React.useEffect(() => {
     setNewTabName(tabName);
@@ -68,16 +88,19 @@ const DraggableTab: React.FC<DraggableTabProps> = ({
     <button
       draggable="true"
       onDragStart={(e) => onDragStart(e, tabId)}
-      onDragOver={onDragOver}
+      onDragOver={(e) => onDragOver(e, tabId)}
       onDrop={(e) => onDrop(e, tabId)}
       onClick={onClick}
+      onContextMenu={(e) => onContextMenu(e, tabId)}
       onDoubleClick={handleDoubleClick}
       className={`relative px-4 py-2 text-sm font-medium rounded-t-lg flex items-center group
                   ${isActive
                       ? 'bg-blue-600 text-white'
                       : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
                   }
+                  ${isSelected ? 'ring-2 ring-inset ring-blue-400' : ''}
                   ${isDragging ? 'opacity-50' : ''}
+                  ${isFileDropTarget ? 'ring-2 ring-inset ring-blue-300' : ''}
                   transition-colors duration-200 ease-in-out whitespace-nowrap overflow-hidden
       `}
       aria-selected={isActive}
@@ -86,6 +109,7 @@ const DraggableTab: React.FC<DraggableTabProps> = ({
       aria-controls={`panel-${tabId}`}
       tabIndex={isActive ? 0 : -1}
     >
+      {groupColorClass && <span className={`absolute inset-x-0 top-0 h-1 ${groupColorClass}`} aria-hidden="true" />}
       {isEditing ? (
         <input
           ref={inputRef}
@@ -95,7 +119,7 @@ const DraggableTab: React.FC<DraggableTabProps> = ({
           onBlur={handleRenameSubmit}
           onKeyDown={handleKeyDown}
           className="bg-transparent border-b border-white text-white w-full focus:outline-none"
-          aria-label={`編輯頁籤名稱 ${tabName}`}
+          aria-label={t('tabs.renameAria', { name: tabName })}
         />
       ) : (
         <span className="max-w-[120px] overflow-hidden text-ellipsis mr-2">{tabName}</span>
@@ -107,7 +131,7 @@ const DraggableTab: React.FC<DraggableTabProps> = ({
         }}
         className={`ml-1 p-0.5 rounded-full text-white hover:bg-red-500 opacity-0 group-hover:opacity-100 transition-opacity duration-200
                     ${isActive ? 'opacity-100' : ''}`}
-        aria-label={`刪除頁籤 ${tabName}`}
+        aria-label={t('tabs.deleteAria', { name: tabName })}
       >
         <svg
           xmlns="http://www.w3.org/2000/svg"
@@ -1,107 +1,76 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
 import Cropper from 'react-easy-crop';
-
-// Utility function to get a cropped image from a canvas
-const createImage = (url: string): Promise<HTMLImageElement> =>
-  new Promise((resolve, reject) => {
-    const image = new Image();
-    image.addEventListener('load', () => resolve(image));
-    image.addEventListener('error', (error) => reject(error));
-    image.setAttribute('crossOrigin', 'anonymous'); // Needed for cross-origin images
-    image.src = url;
-  });
-
-async function getCroppedImg(
-  imageSrc: string,
-  pixelCrop: { x: number; y: number; width: number; height: number },
-  rotation = 0, // Keep rotation parameter, default to 0
-): Promise<string> {
-  const image = await createImage(imageSrc);
-  const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d');
-
-  if (!ctx) {
-    throw new Error('No 2d context for canvas');
-  }
-
-  const rotRad = rotation * (Math.PI / 180);
-
-  // calculate bounding box for the rotated image
-  const { width: bBoxWidth, height: bBoxHeight } = rotateSize(image.width, image.height, rotation);
-
-  // set canvas size to match the bounding box
-  canvas.width = bBoxWidth;
-  canvas.height = bBoxHeight;
-
-  // translate canvas origin to the center of the image
-  ctx.translate(bBoxWidth / 2, bBoxHeight / 2);
-  ctx.rotate(rotRad);
-  ctx.scale(1, 1); // Maintain original scale
-  ctx.translate(-image.width / 2, -image.height / 2);
-
-  // draw rotated image on canvas
-  ctx.drawImage(image, 0, 0);
-
-  // extract cropped area
-  const data = ctx.getImageData(pixelCrop.x, pixelCrop.y, pixelCrop.width, pixelCrop.height);
-
-  // set canvas size to the cropped dimensions
-  canvas.width = pixelCrop.width;
-  canvas.height = pixelCrop.height;
-
-  // put the cropped data into the new canvas
-  ctx.putImageData(data, 0, 0);
-
-  // return the cropped image as a base64 string
-  return new Promise((resolve) => {
-    // `toDataURL` returns the data URL directly and does not accept a callback.
-    resolve(canvas.toDataURL('image/jpeg', 0.95));
-  });
-}
-
-// Rotates a size around its center
-const rotateSize = (width: number, height: number, rotation: number) => {
-  const rotRad = rotation * (Math.PI / 180);
-
-  return {
-    width:
-      Math.abs(width * Math.cos(rotRad)) + Math.abs(height * Math.sin(rotRad)),
-    height:
-      Math.abs(width * Math.sin(rotRad)) + Math.abs(height * Math.cos(rotRad)),
-  };
-};
-
+import { CropPreset, ImageEdits } from '../types';
+import { t } from '../services/i18n';
+import { flipImage, renderImageEdits } from '../services/imageEditService';
+import {
+  MAX_CROP_PRESET_SIDE,
+  MODEL_TARGET_SIZES,
+  closestTargetSize,
+  isValidPresetSide,
+  loadCropPresets,
+  saveCropPresets,
+} from '../services/cropPresetService';
 
 interface ImageCropperModalProps {
-  imageSrc: string;
+  imageSrc: string; // The original image; edits are always applied to it, never to an earlier result
+  initialEdits?: ImageEdits | null; // Edits to start from when adjusting an earlier crop
   onClose: () => void;
-  onCropComplete: (croppedImageBase64: string) => void;
+  onCropComplete: (croppedImageBase64: string, edits: ImageEdits) => void;
   onSetError: (error: string | null) => void;
 }
 
-const ImageCropperModal: React.FC<ImageCropperModalProps> = ({ imageSrc, onClose, onCropComplete, onSetError }) => {
+const ImageCropperModal: React.FC<ImageCropperModalProps> = ({ imageSrc, initialEdits = null, onClose, onCropComplete, onSetError }) => {
   const [crop, setCrop] = useState({ x: 0, y: 0 });
   const [zoom, setZoom] = useState(1);
-  // Removed rotation state and related functionality as requested
+  const [rotation, setRotation] = useState(0);
+  const [flipHorizontal, setFlipHorizontal] = useState(false);
+  const [flipVertical, setFlipVertical] = useState(false);
+  // The cropper cannot mirror its image itself, so it is shown a flipped copy
+  const [previewSrc, setPreviewSrc] = useState<string | null>(null);
+  // The earlier crop to restore once the image has loaded; cleared afterwards so reloading a flipped copy keeps the current crop
+  const [pendingInitialCrop, setPendingInitialCrop] = useState<ImageEdits['crop'] | null>(null);
   const [croppedAreaPixels, setCroppedAreaPixels] = useState<{ x: number; y: number; width: number; height: number } | null>(null);
   const [isCropping, setIsCropping] = useState(false);
   const [cropAspect, setCropAspect] = useState<number | undefined>(undefined); // New state for aspect ratio control
-
-  // Removed states to display current crop dimensions as requested
-  // const [displayCropWidth, setDisplayCropWidth] = useState<number | null>(null);
-  // const [displayCropHeight, setDisplayCropHeight] = useState<number | null>(null);
-
-  // Reset crop/zoom/rotation when imageSrc changes
+  const [outputSize, setOutputSize] = useState<ImageEdits['outputSize']>(null); // Exact pixel size the crop is scaled to
+  const [presets, setPresets] = useState<CropPreset[]>(() => loadCropPresets());
+  const [customWidth, setCustomWidth] = useState('');
+  const [customHeight, setCustomHeight] = useState('');
+  const [customExact, setCustomExact] = useState(false);
+  const [presetName, setPresetName] = useState('');
+  const [targetModelId, setTargetModelId] = useState('');
+  const targetModel = MODEL_TARGET_SIZES.find((model) => model.id === targetModelId);
+
+  // Start from the earlier edits, or from scratch, when imageSrc changes
   useEffect(() => {
     setCrop({ x: 0, y: 0 });
     setZoom(1);
+    setRotation(initialEdits?.rotation ?? 0);
+    setFlipHorizontal(initialEdits?.flipHorizontal ?? false);
+    setFlipVertical(initialEdits?.flipVertical ?? false);
+    setPendingInitialCrop(initialEdits?.crop ?? null);
     setCroppedAreaPixels(null);
-    setCropAspect(undefined); // Reset aspect ratio as well
-    // Removed display crop dimensions reset
-    // setDisplayCropWidth(null);
-    // setDisplayCropHeight(null);
+    setCropAspect(initialEdits?.aspect ?? undefined); // Reset aspect ratio as well
+    setOutputSize(initialEdits?.outputSize ?? null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [imageSrc]);
 
+  useEffect(() => {
+    let cancelled = false;
+    flipImage(imageSrc, flipHorizontal, flipVertical)
+      .then((flipped) => {
+        if (!cancelled) setPreviewSrc(flipped);
+      })
+      .catch((e: any) => {
+        if (!cancelled) onSetError(t('error.cropFailed', { detail: e.message || t('common.unknownError') }));
+      });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [imageSrc, flipHorizontal, flipVertical]);
+
   const onCropChange = useCallback((crop: { x: number; y: number }) => {
     setCrop(crop);
   }, []);
@@ -110,58 +79,116 @@ const ImageCropperModal: React.FC<ImageCropperModalProps> = ({ imageSrc, onClose
     setZoom(zoom);
   }, []);
 
-  // Removed onRotationChange as requested
-  // const onRotationChange = useCallback((rotation: number) => {
-  //   setRotation(rotation);
-  // }, []);
+  const onRotationChange = useCallback((rotation: number) => {
+    setRotation(((rotation % 360) + 360) % 360);
+  }, []);
 
   const onCropAreaChange = useCallback((_croppedArea: any, newCroppedAreaPixels: any) => {
     setCroppedAreaPixels(newCroppedAreaPixels);
-    // Removed display logic as requested
-    // if (newCroppedAreaPixels) {
-    //   setDisplayCropWidth(Math.round(newCroppedAreaPixels.width));
-    //   setDisplayCropHeight(Math.round(newCroppedAreaPixels.height));
-    // }
   }, []);
 
   const handleCropClick = async () => {
     if (!croppedAreaPixels || !imageSrc || croppedAreaPixels.width === 0 || croppedAreaPixels.height === 0) {
-      onSetError('請選擇裁剪區域。');
+      onSetError(t('error.cropAreaRequired'));
       return;
     }
     setIsCropping(true);
     onSetError(null);
     try {
-      const croppedImage = await getCroppedImg(imageSrc, croppedAreaPixels, 0); // Pass 0 for rotation since control is removed
-      onCropComplete(croppedImage);
+      const edits: ImageEdits = {
+        crop: croppedAreaPixels,
+        rotation,
+        flipHorizontal,
+        flipVertical,
+        aspect: cropAspect ?? null,
+        outputSize,
+      };
+      const croppedImage = await renderImageEdits(imageSrc, edits);
+      onCropComplete(croppedImage, edits);
       onClose();
     } catch (e: any) {
-      console.error('裁剪圖片失敗:', e);
-      onSetError(`裁剪圖片失敗: ${e.message || '未知錯誤'}`);
+      console.error('Failed to crop image:', e);
+      onSetError(t('error.cropFailed', { detail: e.message || t('common.unknownError') }));
     } finally {
       setIsCropping(false);
     }
   };
 
-  const handleAspectChange = useCallback((aspect: number | undefined) => {
+  // Locks the crop to an aspect ratio; with a size, the crop is also scaled to exactly that many pixels
+  const handleAspectChange = useCallback((aspect: number | undefined, size: ImageEdits['outputSize']) => {
     setCropAspect(aspect);
+    setOutputSize(size);
   }, []);
 
-  // Removed currentAspectRatio calculation as requested
-  // const currentAspectRatio =
-  //   displayCropWidth && displayCropHeight
-  //     ? (displayCropWidth / displayCropHeight).toFixed(2)
-  //     : 'N/A';
+  const applyPreset = (preset: CropPreset) => {
+    handleAspectChange(preset.width / preset.height, preset.exactSize ? { width: preset.width, height: preset.height } : null);
+  };
+
+  const isOutputSize = (size: { width: number; height: number }) =>
+    !!outputSize && outputSize.width === size.width && outputSize.height === size.height;
+
+  const isPresetActive = (preset: CropPreset) =>
+    cropAspect === preset.width / preset.height && (preset.exactSize ? isOutputSize(preset) : outputSize === null);
+
+  // The custom fields as a preset, or null after reporting what is wrong with them
+  const readCustomPreset = (name: string): CropPreset | null => {
+    const width = Number(customWidth);
+    const height = Number(customHeight);
+    if (!isValidPresetSide(width) || !isValidPresetSide(height)) {
+      onSetError(t('error.cropPresetInvalid', { max: MAX_CROP_PRESET_SIDE }));
+      return null;
+    }
+    onSetError(null);
+    return { id: `crop-preset-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, name, width, height, exactSize: customExact };
+  };
+
+  const handleApplyCustom = () => {
+    const preset = readCustomPreset('');
+    if (preset) applyPreset(preset);
+  };
+
+  const updatePresets = (newPresets: CropPreset[]) => {
+    setPresets(newPresets);
+    try {
+      saveCropPresets(newPresets);
+    } catch (e: any) {
+      console.error('Failed to save crop presets:', e);
+      onSetError(t('error.saveCropPresetsFailed', { detail: e.message || t('common.unknownError') }));
+    }
+  };
+
+  const handleSavePreset = () => {
+    const defaultName = customExact ? `${customWidth}×${customHeight}` : `${customWidth}:${customHeight}`;
+    const preset = readCustomPreset(presetName.trim() || defaultName);
+    if (!preset) return;
+    updatePresets([...presets, preset]);
+    applyPreset(preset);
+    setPresetName('');
+  };
+
+  const handleDeletePreset = (id: string) => {
+    updatePresets(presets.filter((preset) => preset.id !== id));
+  };
+
+  // Picking a model selects its size closest in shape to the current crop
+  const handleTargetModelChange = (id: string) => {
+    setTargetModelId(id);
+    const model = MODEL_TARGET_SIZES.find((entry) => entry.id === id);
+    if (model && croppedAreaPixels) {
+      const size = closestTargetSize(model, croppedAreaPixels.width, croppedAreaPixels.height);
+      handleAspectChange(size.width / size.height, size);
+    }
+  };
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-75 p-4">
       <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl h-[90vh] flex flex-col overflow-hidden">
         <div className="flex justify-between items-center p-4 border-b border-gray-700">
-          <h2 className="text-xl font-semibold text-gray-100">裁剪圖片</h2>
+          <h2 className="text-xl font-semibold text-gray-100">{t('cropper.title')}</h2>
           <button
             onClick={onClose}
             className="text-gray-400 hover:text-gray-100 transition-colors duration-200"
-            aria-label="關閉裁剪"
+            aria-label={t('cropper.close')}
           >
             <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
               <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
@@ -171,17 +198,17 @@ const ImageCropperModal: React.FC<ImageCropperModalProps> = ({ imageSrc, onClose
 
         <div className="relative flex-grow bg-gray-900 min-h-[300px]">
           <Cropper
-            image={imageSrc}
+            image={previewSrc ?? undefined}
             crop={crop}
             zoom={zoom}
-            // Removed rotation prop as requested
-            // rotation={rotation}
+            rotation={rotation}
             aspect={cropAspect} // Use the new cropAspect state
             onCropChange={onCropChange}
             onZoomChange={onZoomChange}
-            // Removed onRotationChange as requested
-            // onRotationChange={onRotationChange}
+            onRotationChange={onRotationChange}
             onCropComplete={onCropAreaChange}
+            initialCroppedAreaPixels={pendingInitialCrop ?? undefined}
+            onMediaLoaded={() => setPendingInitialCrop(null)}
             restrictPosition={false} // Explicitly set to false to allow cropping outside image boundaries
             showGrid={true}
             cropShape="rect" // 'rect' or 'round'
@@ -196,101 +223,221 @@ const ImageCropperModal: React.FC<ImageCropperModalProps> = ({ imageSrc, onClose
         <div className="flex flex-col p-4 border-t border-gray-700 space-y-3">
           {/* Display Zoom Ratio */}
           <div className="flex items-center space-x-4">
-            <span className="text-gray-300 w-20 shrink-0 text-right">縮放:</span>
+            <span className="text-gray-300 w-20 shrink-0 text-right">{t('cropper.zoom')}</span>
             <span className="text-gray-100 font-medium">{Math.round(zoom * 100)}%</span>
             {/* Zoom slider removed as requested */}
           </div>
 
-          {/* Removed Display Crop Dimensions and Aspect Ratio as requested */}
-          {/* <div className="flex items-center space-x-4">
-            <span className="text-gray-300 w-20 shrink-0 text-right">裁剪區域:</span>
+          {/* Display Crop Dimensions and Aspect Ratio */}
+          <div className="flex items-center space-x-4">
+            <span className="text-gray-300 w-20 shrink-0 text-right">{t('cropper.cropArea')}</span>
             <span className="text-gray-100 font-medium">
-              {displayCropWidth !== null && displayCropHeight !== null
-                ? `${displayCropWidth}x${displayCropHeight} (寬高比: ${currentAspectRatio})`
-                : '請選擇區域'}
+              {croppedAreaPixels
+                ? t('cropper.cropSize', {
+                    width: Math.round(croppedAreaPixels.width),
+                    height: Math.round(croppedAreaPixels.height),
+                    ratio: (croppedAreaPixels.width / croppedAreaPixels.height).toFixed(2),
+                  })
+                : t('cropper.noCropArea')}
+              {outputSize && ` ${t('cropper.scaledTo', { width: outputSize.width, height: outputSize.height })}`}
             </span>
-          </div> */}
+          </div>
 
-          {/* Removed Rotation Slider as requested */}
-          {/* <div className="flex items-center space-x-4">
-            <label htmlFor="rotation-slider" className="text-gray-300 w-20 shrink-0 text-right">旋轉:</label>
+          <div className="flex items-center space-x-4">
+            <label htmlFor="rotation-slider" className="text-gray-300 w-20 shrink-0 text-right">{t('cropper.rotation')}</label>
             <input
               id="rotation-slider"
               type="range"
               value={rotation}
               min={0}
-              max={360}
+              max={359}
               step={1}
               onChange={(e) => onRotationChange(parseFloat(e.target.value))}
               className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer range-sm"
-              aria-label="旋轉圖片"
+              aria-label={t('cropper.rotationAria')}
             />
             <span className="text-gray-100 font-medium w-10 text-right">{Math.round(rotation)}°</span>
-          </div> */}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => onRotationChange(rotation - 90)}
+              className="px-3 py-1.5 rounded-md text-sm font-semibold bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors duration-200"
+            >
+              {t('cropper.rotateLeft')}
+            </button>
+            <button
+              onClick={() => onRotationChange(rotation + 90)}
+              className="px-3 py-1.5 rounded-md text-sm font-semibold bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors duration-200"
+            >
+              {t('cropper.rotateRight')}
+            </button>
+            <button
+              onClick={() => setFlipHorizontal((prev) => !prev)}
+              className={`px-3 py-1.5 rounded-md text-sm font-semibold transition-colors duration-200
+                        ${flipHorizontal ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+              aria-pressed={flipHorizontal}
+            >
+              {t('cropper.flipHorizontal')}
+            </button>
+            <button
+              onClick={() => setFlipVertical((prev) => !prev)}
+              className={`px-3 py-1.5 rounded-md text-sm font-semibold transition-colors duration-200
+                        ${flipVertical ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+              aria-pressed={flipVertical}
+            >
+              {t('cropper.flipVertical')}
+            </button>
+            <button
+              onClick={() => {
+                setRotation(0);
+                setFlipHorizontal(false);
+                setFlipVertical(false);
+                setCrop({ x: 0, y: 0 });
+                setZoom(1);
+              }}
+              className="px-3 py-1.5 rounded-md text-sm font-semibold bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors duration-200"
+            >
+              {t('cropper.resetEdits')}
+            </button>
+          </div>
 
           {/* Aspect Ratio Buttons (Chop Feature) */}
           <div className="flex flex-col space-y-2">
-            <span className="text-gray-300 font-medium text-sm">選擇比例:</span>
+            <span className="text-gray-300 font-medium text-sm">{t('cropper.aspect')}</span>
             <div className="flex flex-wrap gap-2">
               <button
-                onClick={() => handleAspectChange(undefined)}
+                onClick={() => handleAspectChange(undefined, null)}
                 className={`px-4 py-2 rounded-md text-sm font-semibold transition-colors duration-200
                           ${cropAspect === undefined ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
-                aria-label="自由比例"
-              >
-                自由比例
-              </button>
-              <button
-                onClick={() => handleAspectChange(1 / 1)}
-                className={`px-4 py-2 rounded-md text-sm font-semibold transition-colors duration-200
-                          ${cropAspect === 1 / 1 ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
-                aria-label="1比1比例"
+                aria-label={t('cropper.freeAspect')}
               >
-                1:1
-              </button>
-              <button
-                onClick={() => handleAspectChange(16 / 9)}
-                className={`px-4 py-2 rounded-md text-sm font-semibold transition-colors duration-200
-                          ${cropAspect === 16 / 9 ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
-                aria-label="16比9比例"
-              >
-                16:9
-              </button>
-              <button
-                onClick={() => handleAspectChange(9 / 16)}
-                className={`px-4 py-2 rounded-md text-sm font-semibold transition-colors duration-200
-                          ${cropAspect === 9 / 16 ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
-                aria-label="9比16比例"
-              >
-                9:16
+                {t('cropper.freeAspect')}
               </button>
+              {presets.map((preset) => (
+                <span key={preset.id} className="flex">
+                  <button
+                    onClick={() => applyPreset(preset)}
+                    className={`px-4 py-2 text-sm font-semibold transition-colors duration-200
+                              ${preset.isBuiltIn ? 'rounded-md' : 'rounded-l-md'}
+                              ${isPresetActive(preset) ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                    aria-label={
+                      preset.exactSize
+                        ? t('cropper.sizeAria', { name: preset.name, width: preset.width, height: preset.height })
+                        : t('cropper.aspectAria', { width: preset.width, height: preset.height })
+                    }
+                  >
+                    {preset.name}
+                  </button>
+                  {!preset.isBuiltIn && (
+                    <button
+                      onClick={() => handleDeletePreset(preset.id)}
+                      className="px-2 rounded-r-md text-sm bg-gray-700 text-gray-400 hover:bg-red-600 hover:text-white transition-colors duration-200"
+                      aria-label={t('cropper.deletePresetAria', { name: preset.name })}
+                      title={t('cropper.deletePresetAria', { name: preset.name })}
+                    >
+                      ✕
+                    </button>
+                  )}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {/* Custom ratio or pixel size, which can be saved as a named preset */}
+          <div className="flex flex-col space-y-2">
+            <span className="text-gray-300 font-medium text-sm">{t('cropper.custom')}</span>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <input
+                type="number"
+                min={1}
+                max={MAX_CROP_PRESET_SIDE}
+                value={customWidth}
+                onChange={(e) => setCustomWidth(e.target.value)}
+                className="w-24 p-1.5 border border-gray-600 rounded-md bg-gray-900 text-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label={t('cropper.customWidth')}
+                placeholder={t('cropper.customWidth')}
+              />
+              <span className="text-gray-400">{customExact ? '×' : ':'}</span>
+              <input
+                type="number"
+                min={1}
+                max={MAX_CROP_PRESET_SIDE}
+                value={customHeight}
+                onChange={(e) => setCustomHeight(e.target.value)}
+                className="w-24 p-1.5 border border-gray-600 rounded-md bg-gray-900 text-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label={t('cropper.customHeight')}
+                placeholder={t('cropper.customHeight')}
+              />
+              <label className="flex items-center gap-2 text-gray-300 cursor-pointer">
+                <input type="checkbox" checked={customExact} onChange={(e) => setCustomExact(e.target.checked)} />
+                {t('cropper.exactSize')}
+              </label>
               <button
-                onClick={() => handleAspectChange(4 / 3)}
-                className={`px-4 py-2 rounded-md text-sm font-semibold transition-colors duration-200
-                          ${cropAspect === 4 / 3 ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
-                aria-label="4比3比例"
+                onClick={handleApplyCustom}
+                className="px-3 py-1.5 rounded-md font-semibold bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors duration-200"
               >
-                4:3
+                {t('cropper.applyCustom')}
               </button>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <input
+                type="text"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                className="flex-grow p-1.5 border border-gray-600 rounded-md bg-gray-900 text-gray-50 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label={t('cropper.presetName')}
+                placeholder={t('cropper.presetName')}
+              />
               <button
-                onClick={() => handleAspectChange(3 / 4)}
-                className={`px-4 py-2 rounded-md text-sm font-semibold transition-colors duration-200
-                          ${cropAspect === 3 / 4 ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
-                aria-label="3比4比例"
+                onClick={handleSavePreset}
+                className="px-3 py-1.5 rounded-md font-semibold bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors duration-200"
               >
-                3:4
+                {t('cropper.savePreset')}
               </button>
             </div>
           </div>
 
+          {/* Target resolutions of image-generation models */}
+          <div className="flex flex-col space-y-2">
+            <label htmlFor="cropper-target-model" className="text-gray-300 font-medium text-sm">{t('cropper.targetModel')}</label>
+            <select
+              id="cropper-target-model"
+              value={targetModelId}
+              onChange={(e) => handleTargetModelChange(e.target.value)}
+              className="p-1.5 border border-gray-600 rounded-md bg-gray-900 text-gray-50 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">{t('cropper.noTargetModel')}</option>
+              {MODEL_TARGET_SIZES.map((model) => (
+                <option key={model.id} value={model.id}>
+                  {model.label}
+                </option>
+              ))}
+            </select>
+            {targetModel && (
+              <div className="flex flex-wrap gap-2">
+                {targetModel.sizes.map((size) => (
+                  <button
+                    key={`${size.width}x${size.height}`}
+                    onClick={() => handleAspectChange(size.width / size.height, size)}
+                    className={`px-3 py-1.5 rounded-md text-sm font-semibold transition-colors duration-200
+                              ${isOutputSize(size) ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                  >
+                    {size.width}×{size.height}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
           <button
             onClick={handleCropClick}
             disabled={isCropping}
             className={`w-full px-5 py-2 rounded-md font-semibold text-white transition-colors duration-200
                         ${isCropping ? 'bg-blue-700 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'}`}
-            aria-label="確認裁剪"
+            aria-label={t('cropper.confirmAria')}
           >
-            {isCropping ? '裁剪中...' : '裁剪'}
+            {isCropping ? t('cropper.cropping') : t('cropper.crop')}
           </button>
         </div>
       </div>
@@ -1,19 +1,69 @@
 import React from 'react';
+import { ImageEditState, ImageEdits, ImageFacts, ImageProcessingInfo } from '../types';
 import ImageCropperModal from './ImageCropperModal'; // Import the new Cropper Modal
+import { ImageFileData, collectImageFilesFromDataTransfer, readImageFiles } from '../services/imageFileService';
+import { PreprocessedImageFile, formatBytes, formatLabel, preprocessImage, preprocessImageFiles } from '../services/imagePreprocessService';
+import { loadSettings } from '../services/settingsService';
+import { t } from '../services/i18n';
+import { AppError, errorMessage } from '../services/appError';
 
 interface ImageUploaderProps {
-  onImageUpload: (base64Image: string) => void;
+  onImageUpload: (base64Image: string, info: ImageProcessingInfo | null) => void;
   imagePreview: string | null;
+  imageInfo?: ImageProcessingInfo | null; // Sizes before and after preprocessing, shown under the preview
+  imageEdit?: ImageEditState | null; // The original and edits behind imagePreview, if it was cropped
+  onImageEdit?: (editedImage: string, edit: ImageEditState | null) => void; // edit is null when the original is restored
   isLoading: boolean;
   onSetError: (error: string | null) => void; // Added for error reporting
   onDeleteImage: () => void; // New prop for deleting the image
+  onImagesUpload?: (images: ImageFileData[]) => void; // Batch mode: accepts many files or whole folders at once
+  onExtraImages?: (images: PreprocessedImageFile[]) => void; // Single mode: the images after the first of a multi-image paste or drop
+  idPrefix?: string; // Keeps input IDs unique when several uploaders are on screen
+  title?: string; // Heading shown above the uploader, e.g. to tell the reference and target images apart
+  previewOverlay?: React.ReactNode; // Drawn over the preview image, sized exactly like it
 }
 
-const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, imagePreview, isLoading, onSetError, onDeleteImage }) => {
+const describeFacts = (facts: ImageFacts) => ({
+  width: facts.width,
+  height: facts.height,
+  format: formatLabel(facts.mimeType),
+  size: formatBytes(facts.bytes),
+});
+
+// Preprocessing was off, so the model gets the file as it was read
+const isSameImage = (original: ImageFacts, processed: ImageFacts) =>
+  original.mimeType === processed.mimeType &&
+  original.bytes === processed.bytes &&
+  original.width === processed.width &&
+  original.height === processed.height;
+
+const ImageUploader: React.FC<ImageUploaderProps> = ({
+  onImageUpload,
+  imagePreview,
+  imageInfo = null,
+  imageEdit = null,
+  onImageEdit,
+  isLoading,
+  onSetError,
+  onDeleteImage,
+  onImagesUpload,
+  onExtraImages,
+  idPrefix = 'image',
+  title,
+  previewOverlay,
+}) => {
   const [isProcessingPaste, setIsProcessingPaste] = React.useState(false); // New state for paste operations
   const [urlInput, setUrlInput] = React.useState(''); // New state for URL input box
   const [isUrlLoading, setIsUrlLoading] = React.useState(false); // New state for URL loading
   const [fileInputKey, setFileInputKey] = React.useState(Date.now()); // State to force re-render/reset file input
+  const [isDragOver, setIsDragOver] = React.useState(false);
+  const folderInputRef = React.useRef<HTMLInputElement>(null);
+  const isBatchMode = !!onImagesUpload;
+
+  // `webkitdirectory` is not part of React's input attribute types, so set it directly
+  React.useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, [isBatchMode]);
 
   // States for image cropping
   const [showCropper, setShowCropper] = React.useState(false);
@@ -22,34 +72,65 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, imagePrevi
   // currentLoading now only reflects actual processing, not if cropper is open
   const currentLoading = isLoading || isProcessingPaste || isUrlLoading;
 
-  const processFile = (file: File): Promise<void> => {
+  const processFile = async (file: File): Promise<void> => {
     onSetError(null); // Clear previous errors
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        if (typeof reader.result === 'string') {
-          // Immediately call onImageUpload with the full image
-          onImageUpload(reader.result);
-          resolve();
-        } else {
-          reject(new Error('檔案讀取失敗，無法轉換為 Base64。'));
-        }
-      };
-      reader.onerror = () => {
-        reject(new Error('檔案讀取失敗。'));
-      };
-      reader.readAsDataURL(file);
-    });
+    // Upright, downscaled and without metadata, as set in the preprocessing settings
+    const { dataUrl, info } = await preprocessImage(file, loadSettings().imageProcessing);
+    if (onImagesUpload) {
+      onImagesUpload([{ name: file.name, dataUrl }]);
+    } else {
+      // Immediately call onImageUpload with the full image
+      onImageUpload(dataUrl, info);
+    }
+  };
+
+  // Reads every image among the given files. Batch mode takes them all in one call;
+  // single mode loads the first one here and hands the rest to onExtraImages, if set
+  const processFiles = async (files: File[]): Promise<void> => {
+    onSetError(null);
+    const settings = loadSettings().imageProcessing;
+    if (!onImagesUpload) {
+      const [first, ...rest] = files.filter((file) => file.type.startsWith('image/'));
+      if (!first) {
+        throw new AppError('error.noImageFiles');
+      }
+      await processFile(first);
+      if (rest.length > 0 && onExtraImages) {
+        onExtraImages(await preprocessImageFiles(rest, settings));
+      }
+      return;
+    }
+    const images = await readImageFiles(files, async (file) => (await preprocessImage(file, settings)).dataUrl);
+    if (images.length === 0) {
+      throw new AppError('error.noImageFiles');
+    }
+    onImagesUpload(images);
   };
 
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    if (isBatchMode) {
+      const files: File[] = event.target.files ? Array.from(event.target.files) : [];
+      if (files.length > 0) {
+        setIsProcessingPaste(true);
+        try {
+          await processFiles(files);
+        } catch (e: any) {
+          onSetError(errorMessage(e, 'error.uploadFailed'));
+        } finally {
+          setIsProcessingPaste(false);
+        }
+      }
+      event.target.value = '';
+      return;
+    }
+
     const file = event.target.files?.[0];
     if (file) {
       setIsProcessingPaste(true); // Treat file input as a paste operation visually for consistency
       try {
         await processFile(file);
       } catch (e: any) {
-        onSetError(e.message || '上傳檔案時發生錯誤。');
+        onSetError(errorMessage(e, 'error.uploadFailed'));
       } finally {
         setIsProcessingPaste(false);
       }
@@ -77,11 +158,11 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, imagePrevi
       setIsUrlLoading(true); // Start URL specific loading
       const response = await fetch(url, { mode: 'cors' }); // Attempt CORS mode for cross-origin requests
       if (!response.ok) {
-        throw new Error(`無法從 URL 載入圖片：${response.status} ${response.statusText || '網路錯誤'}`);
+        throw new AppError('error.urlFetchStatus', { status: response.status, statusText: response.statusText || t('common.networkError') });
       }
       const contentType = response.headers.get('Content-Type');
       if (!contentType || !contentType.startsWith('image/')) {
-        throw new Error('URL 指向的不是一個有效的圖片檔案。');
+        throw new AppError('error.urlNotImage');
       }
       const blob = await response.blob();
       // Reuse processFile by creating a File object from the Blob
@@ -89,7 +170,7 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, imagePrevi
       setUrlInput(''); // Clear URL input on success
     } catch (error: any) {
       console.error('Error fetching image from URL:', error);
-      throw new Error(`載入圖片失敗: ${error.message}.`);
+      throw new AppError('error.urlLoadFailed', { detail: errorMessage(error, 'error.urlGenericFailed') });
     } finally {
       setIsUrlLoading(false); // End URL specific loading
     }
@@ -102,7 +183,7 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, imagePrevi
     // Prevent pasting if an image is already uploaded or loading
     if (currentLoading || imagePreview) {
       if (imagePreview) {
-        onSetError('已有圖片上傳，請先刪除現有圖片再貼上新圖片。');
+        onSetError(t('error.imageAlreadyUploaded'));
       }
       return;
     }
@@ -111,6 +192,12 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, imagePrevi
 
     try {
       const clipboardText = event.clipboardData.getData('text/plain');
+      // Several copied images arrive as several files
+      const files: File[] = Array.from<File>(event.clipboardData.files).filter((file) => file.type.startsWith('image/'));
+      if (files.length > 0) {
+        await processFiles(files);
+        return;
+      }
       const imageFileItem = Array.from(event.clipboardData.items).find(
         (item: DataTransferItem) => item.kind === 'file' && item.type.startsWith('image/')
       );
@@ -120,29 +207,56 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, imagePrevi
         if (file) {
           await processFile(file); // This calls onImageUpload
         } else {
-          throw new Error('無法從剪貼簿獲取圖片檔案。');
+          throw new AppError('error.clipboardFileUnavailable');
         }
       } else if (clipboardText && isValidImageUrl(clipboardText)) {
         // Case 2: Pasting an image URL onto the main label area
         await fetchImageFromUrl(clipboardText); // This calls onImageUpload
       } else {
         // Case 3: Neither image file nor image URL
-        onSetError('剪貼簿中沒有偵測到圖片檔案或有效圖片URL。');
+        onSetError(t('error.clipboardNoImage'));
       }
     } catch (e: any) {
-      onSetError(e.message || '貼上時發生未知錯誤。');
+      onSetError(errorMessage(e, 'error.pasteFailed'));
     } finally {
       setIsProcessingPaste(false); // End loading
     }
   };
 
+  const handleDragOver = (event: React.DragEvent<HTMLLabelElement>) => {
+    event.preventDefault();
+    // Like pasting, dropping never replaces an image the tab already has
+    const isRefused = currentLoading || (!isBatchMode && !!imagePreview);
+    event.dataTransfer.dropEffect = isRefused ? 'none' : 'copy';
+    setIsDragOver(!isRefused);
+  };
+
+  const handleDrop = async (event: React.DragEvent<HTMLLabelElement>) => {
+    event.preventDefault();
+    setIsDragOver(false);
+    if (currentLoading) return;
+    if (!isBatchMode && imagePreview) {
+      onSetError(t('error.imageAlreadyUploaded'));
+      return;
+    }
+    setIsProcessingPaste(true);
+    try {
+      const files = await collectImageFilesFromDataTransfer(event.dataTransfer);
+      await processFiles(files);
+    } catch (e: any) {
+      onSetError(errorMessage(e, 'error.dropFailed'));
+    } finally {
+      setIsProcessingPaste(false);
+    }
+  };
+
   const handleUrlLoadClick = async () => {
     if (!urlInput.trim()) {
-      onSetError('請輸入圖片 URL。');
+      onSetError(t('error.urlRequired'));
       return;
     }
     if (!isValidImageUrl(urlInput.trim())) {
-      onSetError('無效的圖片 URL 格式。請確保它指向一個圖片檔案。');
+      onSetError(t('error.urlInvalid'));
       return;
     }
     if (currentLoading) {
@@ -152,7 +266,7 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, imagePrevi
     try {
       await fetchImageFromUrl(urlInput.trim());
     } catch (e: any) {
-      onSetError(e.message || '載入 URL 圖片時發生錯誤。');
+      onSetError(errorMessage(e, 'error.urlGenericFailed'));
     }
   };
 
@@ -168,18 +282,30 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, imagePrevi
   const handleOpenCropper = (e: React.MouseEvent<HTMLButtonElement>) => {
     e.stopPropagation(); // Prevent triggering other handlers
     if (imagePreview) {
-      setImageToCropUrl(imagePreview);
+      // Edits are always redone from the original, so cropping twice never loses more than the last crop shows
+      setImageToCropUrl(imageEdit?.original ?? imagePreview);
       setShowCropper(true);
       onSetError(null); // Clear any existing errors before cropping
     }
   };
 
-  const handleCropComplete = (croppedImageBase64: string) => {
-    onImageUpload(croppedImageBase64); // Pass the cropped image to the parent
+  const handleCropComplete = (croppedImageBase64: string, edits: ImageEdits) => {
+    if (onImageEdit && imageToCropUrl) {
+      onImageEdit(croppedImageBase64, { original: imageToCropUrl, edits });
+    } else {
+      onImageUpload(croppedImageBase64, null); // Pass the cropped image to the parent
+    }
     setShowCropper(false);
     setImageToCropUrl(null);
   };
 
+  const handleRestoreOriginal = (e: React.MouseEvent<HTMLButtonElement>) => {
+    e.stopPropagation();
+    if (imageEdit) {
+      onImageEdit?.(imageEdit.original, null);
+    }
+  };
+
   const handleCropperClose = () => {
     setShowCropper(false);
     setImageToCropUrl(null);
@@ -192,55 +318,96 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, imagePrevi
         className="flex flex-col items-center p-4 bg-gray-800 rounded-lg shadow-md"
         onPaste={handlePaste} // Move paste handler to the main container
       >
+        {title && <h3 className="w-full text-sm font-semibold text-gray-300 mb-2">{title}</h3>}
         {/* Conditional rendering based on imagePreview */}
         {imagePreview ? (
           // Display area when image is uploaded
           <div className="w-full flex flex-col items-center">
-            <img src={imagePreview} alt="Uploaded preview" className="max-w-full h-auto max-h-64 object-contain rounded-md mb-4 relative" />
+            <div className="relative mb-4 max-w-full">
+              <img src={imagePreview} alt={t('uploader.previewAlt')} className="block max-w-full h-auto max-h-64 object-contain rounded-md" />
+              {previewOverlay}
+            </div>
             <div className="flex space-x-2 justify-center mb-4"> {/* Buttons below the image */}
               <button
                 onClick={handleOpenCropper}
                 disabled={isLoading}
                 className="bg-blue-600 hover:bg-blue-700 text-white rounded-full p-1.5 shadow-md transition-colors duration-200"
-                aria-label="裁剪圖片"
-                title="裁剪圖片"
+                aria-label={t('uploader.crop')}
+                title={t('uploader.crop')}
               >
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
                   <path strokeLinecap="round" strokeLinejoin="round" d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.135a4 4 0 000-5.656l-4-4a4 4 0 00-5.656 0l-1.102 1.101zm-.757 4.135l4-4M10 13l4-4" />
                 </svg>
               </button>
+              {imageEdit && (
+                <button
+                  onClick={handleRestoreOriginal}
+                  disabled={isLoading}
+                  className="bg-gray-600 hover:bg-gray-500 text-white rounded-full p-1.5 shadow-md transition-colors duration-200"
+                  aria-label={t('uploader.restoreOriginal')}
+                  title={t('uploader.restoreOriginal')}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+                  </svg>
+                </button>
+              )}
               <button
                 onClick={handleDeleteImageAndResetInput}
                 disabled={isLoading}
                 className="bg-red-600 hover:bg-red-700 text-white rounded-full p-1.5 shadow-md transition-colors duration-200"
-                aria-label="刪除已上傳圖片"
-                title="刪除圖片"
+                aria-label={t('uploader.deleteAria')}
+                title={t('uploader.delete')}
               >
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
                   <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
                 </svg>
               </button>
             </div>
-            <p className="mt-2 text-sm text-gray-400">圖片已上傳</p>
+            <p className="mt-2 text-sm text-gray-400">{t('uploader.uploaded')}</p>
+            {imageInfo && (
+              <div className="mt-1 text-xs text-gray-500 text-center">
+                <p>{t('uploader.originalImage', describeFacts(imageInfo.original))}</p>
+                {isSameImage(imageInfo.original, imageInfo.processed) ? (
+                  <p>{t('uploader.unprocessed')}</p>
+                ) : (
+                  <p>{t('uploader.processedImage', describeFacts(imageInfo.processed))}</p>
+                )}
+                {imageInfo.orientation > 1 && <p>{t('uploader.orientationApplied')}</p>}
+              </div>
+            )}
+            {imageEdit && (
+              <p className="mt-1 text-xs text-gray-500 text-center">
+                {t('uploader.edited', {
+                  width: Math.round((imageEdit.edits.outputSize ?? imageEdit.edits.crop).width),
+                  height: Math.round((imageEdit.edits.outputSize ?? imageEdit.edits.crop).height),
+                })}
+              </p>
+            )}
           </div>
         ) : (
           // Upload prompt area when no image is uploaded (wrapped by label)
           <>
             <label
-              htmlFor="image-upload"
+              htmlFor={`${idPrefix}-upload`}
               className={`w-full cursor-pointer flex flex-col items-center justify-center p-6 border-2 border-dashed rounded-lg transition-colors duration-200
-                       ${currentLoading ? 'bg-gray-700 cursor-not-allowed' : 'hover:border-blue-500 hover:bg-gray-700 border-gray-600'}`}
+                       ${currentLoading ? 'bg-gray-700 cursor-not-allowed' : 'hover:border-blue-500 hover:bg-gray-700 border-gray-600'}
+                       ${isDragOver ? 'border-blue-500 bg-gray-700' : ''}`}
               aria-disabled={currentLoading}
+              onDragOver={handleDragOver}
+              onDragLeave={() => setIsDragOver(false)}
+              onDrop={handleDrop}
             >
               <input
                 key={fileInputKey}
-                id="image-upload"
+                id={`${idPrefix}-upload`}
                 type="file"
                 accept="image/*"
+                multiple={isBatchMode}
                 onChange={handleFileChange}
                 className="hidden"
                 disabled={currentLoading}
-                aria-label="上傳圖片文件"
+                aria-label={t('uploader.fileInputAria')}
               />
               <div className="text-center">
                 {currentLoading ? (
@@ -249,7 +416,7 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, imagePrevi
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                       <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                     </svg>
-                    處理中...
+                    {t('common.processing')}
                   </span>
                 ) : (
                   <svg
@@ -268,25 +435,50 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, imagePrevi
                   </svg>
                 )}
                 <p className="mt-2 text-sm text-gray-400">
-                  <span className="font-semibold text-blue-400">點擊上傳圖片</span>, 拖放, 或貼上圖片 (Ctrl+V)
+                  {isBatchMode ? (
+                    <><span className="font-semibold text-blue-400">{t('uploader.clickToUploadMany')}</span>{t('uploader.dropOrPasteMany')}</>
+                  ) : (
+                    <><span className="font-semibold text-blue-400">{t('uploader.clickToUpload')}</span>{t('uploader.dropOrPaste')}</>
+                  )}
                 </p>
-                <p className="text-xs text-gray-500">支援 JPG, PNG, GIF, WebP, BMP, SVG 檔案格式，最大 10MB</p>
+                <p className="text-xs text-gray-500">{t('uploader.supportedFormats')}</p>
               </div>
             </label>
 
+            {isBatchMode && (
+              <div className="w-full mt-2 flex justify-center">
+                <input
+                  ref={folderInputRef}
+                  id={`${idPrefix}-folder-upload`}
+                  type="file"
+                  onChange={handleFileChange}
+                  className="hidden"
+                  disabled={currentLoading}
+                  aria-label={t('uploader.folderInputAria')}
+                />
+                <label
+                  htmlFor={`${idPrefix}-folder-upload`}
+                  className={`px-4 py-2 rounded-md text-sm font-semibold transition-colors duration-200
+                             ${currentLoading ? 'bg-gray-600 text-gray-300 cursor-not-allowed' : 'bg-gray-700 hover:bg-gray-600 text-gray-100 cursor-pointer'}`}
+                >
+                  {t('uploader.chooseFolder')}
+                </label>
+              </div>
+            )}
+
             {/* URL Input Box, always outside the label (when no image is present) */}
             <div className="w-full mt-4 p-2 bg-gray-700 rounded-md">
-              <label htmlFor="image-url-input" className="sr-only">圖片 URL</label>
+              <label htmlFor={`${idPrefix}-url-input`} className="sr-only">{t('uploader.urlLabel')}</label>
               <div className="flex flex-col sm:flex-row gap-2">
                 <input
-                  id="image-url-input"
+                  id={`${idPrefix}-url-input`}
                   type="text"
                   value={urlInput}
                   onChange={(e) => setUrlInput(e.target.value)}
-                  placeholder="或輸入圖片 URL 並載入"
+                  placeholder={t('uploader.urlPlaceholder')}
                   className="flex-grow p-2 border border-gray-600 rounded-md bg-gray-800 text-gray-50 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
                   disabled={currentLoading}
-                  aria-label="圖片 URL 輸入框"
+                  aria-label={t('uploader.urlInputAria')}
                   onKeyDown={(e) => {
                     if (e.key === 'Enter' && urlInput.trim() && !currentLoading) {
                       e.preventDefault();
@@ -302,7 +494,7 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, imagePrevi
                                  ? 'bg-gray-600 cursor-not-allowed'
                                  : 'bg-blue-600 hover:bg-blue-700'
                              }`}
-                  aria-label="載入 URL 圖片"
+                  aria-label={t('uploader.loadUrl')}
                 >
                   {isUrlLoading ? (
                     <span className="flex items-center justify-center">
@@ -310,10 +502,10 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, imagePrevi
                         <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                         <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                       </svg>
-                      載入中...
+                      {t('common.loading')}
                     </span>
                   ) : (
-                    '載入 URL 圖片'
+                    t('uploader.loadUrl')
                   )}
                 </button>
               </div>
@@ -325,6 +517,7 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, imagePrevi
       {showCropper && imageToCropUrl && (
         <ImageCropperModal
           imageSrc={imageToCropUrl}
+          initialEdits={imageEdit?.edits}
           onClose={handleCropperClose}
           onCropComplete={handleCropComplete}
           onSetError={onSetError}
@@ -1,108 +1,330 @@
 import React from 'react';
-import { AnalysisOption, ImageAnalysisResult } from '../types';
+import { AnalysisCategory, AnalysisCategoryId, AnalysisMode, AnalysisOutputReport, AnalysisRegion, ImageAnalysisResult, OutputLanguage, PromptTemplate, SubjectAnalysis } from '../types';
+import { defaultTemplateFor, generateFullRefinePrompt, generateRegionPrompts } from '../services/promptBuilder';
+import { findTemplate, templateName } from '../services/templateService';
+import { outputLanguageLabel } from '../services/outputLanguageService';
+import { applyFieldEdits, editableCategories } from '../services/fieldEditService';
+import { categoryLabel } from '../services/categoryService';
+import { FieldRefineMode } from '../services/visionProvider';
+import { errorMessage } from '../services/appError';
+import { outputKeyLabel } from '../services/outputValidationService';
+import TemplateManagerModal from './TemplateManagerModal';
+import { getLocale, t } from '../services/i18n';
 
 interface PromptOutputProps {
   rawAnalysisResult: ImageAnalysisResult | null; // Changed prop name and type to ImageAnalysisResult
+  fieldEdits: Record<string, string>; // User edits laid over rawAnalysisResult
+  onFieldEdit: (schemaKey: string, value: string) => void;
+  onFieldReset: (schemaKey: string) => void;
+  onFieldRefine: (schemaKey: string, mode: FieldRefineMode, instruction: string) => Promise<void>; // Redoes one field with the model
   isLoading: boolean;
   error: string | null;
-  selectedOptions: AnalysisOption[]; // Added to determine prefix
+  selectedOptions: AnalysisCategoryId[]; // Added to determine prefix
   otherAnalysisText: string; // Added for context if 'OTHER' is used, though primarily using rawAnalysisResult now
   onRefineDetailRequest: () => void; // New prop for detailed request button
+  onCancelAnalysis: () => void; // Aborts the running analysis
+  templates: PromptTemplate[];
+  templateId: string; // Template selected for this tab
+  onTemplateChange: (templateId: string) => void;
+  onTemplatesChange: (templates: PromptTemplate[]) => void;
+  categories: AnalysisCategory[];
+  outputLanguage: OutputLanguage;
+  bilingualLanguage: OutputLanguage | null; // Second language shown side by side, if any
+  translatedAnalysisResult: ImageAnalysisResult | null;
+  analysisMode: AnalysisMode; // Picks the built-in template for the translated prompt
+  regions: AnalysisRegion[]; // Analyzed regions add a labeled section each after the whole-image prompt
+  subjectAnalysis: SubjectAnalysis | null; // People found by a multi-person analysis; the prompt targets the selected one
+  onSubjectChange: (index: number) => void;
+  outputReport: AnalysisOutputReport | null; // Fields a repair recovered or could not recover
+  cachedAt: number | null; // When the shown result was stored, if it came from the response cache
+  onForceRefresh: () => void; // Repeats the analysis without the response cache
 }
 
-const PromptOutput: React.FC<PromptOutputProps> = ({ rawAnalysisResult, isLoading, error, selectedOptions, onRefineDetailRequest }) => {
-  const generateFullRefinePrompt = (analysisData: ImageAnalysisResult | null, options: AnalysisOption[]): string => {
-    if (!analysisData) return ''; // Return empty if no analysis result yet
+const PromptOutput: React.FC<PromptOutputProps> = ({
+  rawAnalysisResult,
+  fieldEdits,
+  onFieldEdit,
+  onFieldReset,
+  onFieldRefine,
+  isLoading,
+  error,
+  selectedOptions,
+  onRefineDetailRequest,
+  onCancelAnalysis,
+  templates,
+  templateId,
+  onTemplateChange,
+  onTemplatesChange,
+  categories,
+  outputLanguage,
+  bilingualLanguage,
+  translatedAnalysisResult,
+  analysisMode,
+  regions,
+  subjectAnalysis,
+  onSubjectChange,
+  outputReport,
+  cachedAt,
+  onForceRefresh,
+}) => {
+  const [showTemplateManager, setShowTemplateManager] = React.useState(false);
+  const [refiningField, setRefiningField] = React.useState<string | null>(null); // One field is redone at a time
+  const [fieldErrors, setFieldErrors] = React.useState<Record<string, string>>({});
+  const [instructions, setInstructions] = React.useState<Record<string, string>>({});
+  const template = findTemplate(templates, templateId);
+  const editedResult = React.useMemo(() => applyFieldEdits(rawAnalysisResult, fieldEdits), [rawAnalysisResult, fieldEdits]);
 
-    let prefix = '';
-    const descriptionParts: string[] = [];
+  const subject = subjectAnalysis?.subjects[subjectAnalysis.selectedIndex];
+  const subjectLabel = subject?.label || '';
 
-    const isSingleOptionSelected = options.length === 1 && options[0] !== AnalysisOption.OTHER;
-    const isOtherSelectedAlone = options.length === 1 && options[0] === AnalysisOption.OTHER;
-    const isMultipleOptionsSelected = options.length > 1;
-    const isNoOptionSelected = options.length === 0;
-
-    if (isSingleOptionSelected) {
-      const singleOption = options[0];
-      switch (singleOption) {
-        case AnalysisOption.CHARACTER_ATTIRE:
-          prefix = "把圖中人物的裝束換成";
-          if (analysisData.characterAttire) descriptionParts.push(analysisData.characterAttire);
-          break;
-        case AnalysisOption.CHARACTER_POSE:
-          prefix = "把圖中人物的姿勢/動態換成";
-          if (analysisData.characterPose) descriptionParts.push(analysisData.characterPose);
-          break;
-        case AnalysisOption.CHARACTER_EXPRESSION:
-          prefix = "把圖中人物的表情換成";
-          if (analysisData.characterExpression) descriptionParts.push(analysisData.characterExpression);
-          break;
-        case AnalysisOption.PHOTO_BACKGROUND:
-          prefix = "把照片背景換成";
-          if (analysisData.photoBackground) descriptionParts.push(analysisData.photoBackground);
-          break;
-        case AnalysisOption.CAMERA_ANGLE: // New case for CAMERA_ANGLE
-          prefix = "把圖中鏡頭角度換成";
-          if (analysisData.cameraAngle) descriptionParts.push(analysisData.cameraAngle);
-          break;
-        default:
-          prefix = "將圖中內容修改為以下描述："; // Fallback for unexpected single options
-          break;
-      }
-    } else if (isOtherSelectedAlone) {
-      // If 'OTHER' is the only option, use a general prefix and its specific analysis
-      prefix = "將圖中內容修改為以下描述：";
-      if (analysisData.otherAnalysis) descriptionParts.push(analysisData.otherAnalysis);
-    } else {
-      // Multiple options selected or no options selected (analyze all standard items by default)
-      prefix = "將圖中內容修改為以下描述：";
-
-      // Determine which options to display based on user selection or default (all standard)
-      const optionsToConsider = isNoOptionSelected
-        ? [AnalysisOption.CHARACTER_ATTIRE, AnalysisOption.CHARACTER_POSE, AnalysisOption.CHARACTER_EXPRESSION, AnalysisOption.PHOTO_BACKGROUND, AnalysisOption.CAMERA_ANGLE] // Added CAMERA_ANGLE
-        : options;
-
-      if (optionsToConsider.includes(AnalysisOption.CHARACTER_ATTIRE) && analysisData.characterAttire) descriptionParts.push(analysisData.characterAttire);
-      if (optionsToConsider.includes(AnalysisOption.CHARACTER_POSE) && analysisData.characterPose) descriptionParts.push(analysisData.characterPose);
-      if (optionsToConsider.includes(AnalysisOption.CHARACTER_EXPRESSION) && analysisData.characterExpression) descriptionParts.push(analysisData.characterExpression);
-      if (optionsToConsider.includes(AnalysisOption.PHOTO_BACKGROUND) && analysisData.photoBackground) descriptionParts.push(analysisData.photoBackground);
-      if (optionsToConsider.includes(AnalysisOption.CAMERA_ANGLE) && analysisData.cameraAngle) descriptionParts.push(analysisData.cameraAngle); // Added CAMERA_ANGLE
-
-      // Always include 'OTHER' if it was selected and an analysis was returned
-      if (optionsToConsider.includes(AnalysisOption.OTHER) && analysisData.otherAnalysis) descriptionParts.push(analysisData.otherAnalysis);
-    }
-
-    // Filter out any empty strings and join the descriptions
-    const combinedDescription = descriptionParts.filter(Boolean).join('。');
-    return `${prefix} ${combinedDescription.trim()}`;
-  };
+  const regionPrompt = React.useMemo(
+    () => generateRegionPrompts(regions, selectedOptions, template, categories, outputLanguage),
+    [regions, selectedOptions, template, categories, outputLanguage],
+  );
 
   const displayPromptContent = React.useMemo(() => {
     if (isLoading) {
-      return '分析中，請稍候...';
+      // Fields stream in while the analysis runs
+      const partialPrompt = editedResult ? generateFullRefinePrompt(editedResult, selectedOptions, template, categories, outputLanguage, subjectLabel) : '';
+      return partialPrompt || t('promptOutput.loading');
     }
     if (error) {
-      return `錯誤: ${error}`;
+      return t('promptOutput.error', { message: error });
     }
-    if (rawAnalysisResult) { // Check for rawAnalysisResult existence
-      return generateFullRefinePrompt(rawAnalysisResult, selectedOptions);
+    // Assembled from the edited fields, so edits show up immediately
+    const wholeImagePrompt = editedResult ? generateFullRefinePrompt(editedResult, selectedOptions, template, categories, outputLanguage, subjectLabel) : '';
+    return [wholeImagePrompt, regionPrompt].filter(Boolean).join('\n') || t('promptOutput.placeholder');
+  }, [isLoading, error, editedResult, selectedOptions, template, categories, outputLanguage, subjectLabel, regionPrompt]); // Update dependencies
+
+  const showActionButtons = (rawAnalysisResult || regionPrompt) && !isLoading && !error;
+  const showBilingual = !!bilingualLanguage && !!rawAnalysisResult && !isLoading && !error;
+
+  // The translation uses the built-in template of its own language, since the tab's template is written for the output language
+  const translatedPromptContent = React.useMemo(() => {
+    if (!bilingualLanguage || !translatedAnalysisResult) return '';
+    return generateFullRefinePrompt(
+      translatedAnalysisResult,
+      selectedOptions,
+      defaultTemplateFor(bilingualLanguage, analysisMode),
+      categories,
+      bilingualLanguage,
+      subject ? subject.translatedLabel || subject.label : '',
+    );
+  }, [bilingualLanguage, translatedAnalysisResult, selectedOptions, categories, analysisMode, subject]);
+
+  const fieldCategories = showActionButtons ? editableCategories(rawAnalysisResult, selectedOptions, categories) : [];
+
+  const handleFieldRefine = async (schemaKey: string, mode: FieldRefineMode) => {
+    setRefiningField(schemaKey);
+    setFieldErrors((prev) => ({ ...prev, [schemaKey]: '' }));
+    try {
+      await onFieldRefine(schemaKey, mode, instructions[schemaKey] || '');
+      if (mode === 'instruction') setInstructions((prev) => ({ ...prev, [schemaKey]: '' }));
+    } catch (e: any) {
+      setFieldErrors((prev) => ({ ...prev, [schemaKey]: errorMessage(e, 'error.analysisGeneric') }));
+    } finally {
+      setRefiningField(null);
     }
-    return '分析結果將在此處顯示...';
-  }, [isLoading, error, rawAnalysisResult, selectedOptions]); // Update dependencies
+  };
+
+  const reportFields = (keys: string[]) => keys.map((key) => outputKeyLabel(categories, key)).join(t('common.listSeparator'));
+
+  const fieldActionClassName = 'px-2 py-0.5 text-xs bg-gray-600 hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed text-gray-100 rounded transition-colors duration-200';
 
-  const showActionButtons = rawAnalysisResult && !isLoading && !error;
+  const promptTextareaClassName = 'w-full flex-grow p-3 border border-gray-600 rounded-md bg-gray-700 text-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm resize-none custom-scrollbar';
 
   return (
     <div className="p-4 bg-gray-800 rounded-lg shadow-md mt-6 flex-grow flex flex-col">
-      <h3 className="text-xl font-semibold mb-3 text-gray-100">AI 改圖指令 (Refine Prompt)</h3>
-      <textarea
-        className="w-full flex-grow p-3 border border-gray-600 rounded-md bg-gray-700 text-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm resize-none custom-scrollbar"
-        value={displayPromptContent}
-        readOnly
-        placeholder="分析結果將在此處顯示..."
-        // Removed rows={6} to allow flex-grow to work properly for scrolling content
-        aria-label="AI 改圖指令輸出"
-      ></textarea>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="text-xl font-semibold text-gray-100">{t('promptOutput.title')}</h3>
+        <div className="flex items-center gap-2">
+          <label htmlFor="prompt-template" className="sr-only">{t('promptOutput.template')}</label>
+          <select
+            id="prompt-template"
+            className="p-1.5 border border-gray-600 rounded-md bg-gray-700 text-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            value={template.id}
+            onChange={(e) => onTemplateChange(e.target.value)}
+            aria-label={t('promptOutput.templateAria')}
+          >
+            {templates.map((option) => (
+              <option key={option.id} value={option.id}>
+                {templateName(option)}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => setShowTemplateManager(true)}
+            className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded-md text-sm transition-colors duration-200"
+            aria-label={t('promptOutput.manageTemplatesAria')}
+          >
+            {t('promptOutput.manageTemplates')}
+          </button>
+        </div>
+      </div>
+      {cachedAt !== null && !isLoading && (
+        <div className="mb-3 p-2 rounded-md text-xs bg-gray-700 text-gray-300 flex items-center justify-between gap-2" role="status">
+          <span>{t('promptOutput.fromCache', { time: new Date(cachedAt).toLocaleString(getLocale()) })}</span>
+          <button onClick={onForceRefresh} className="shrink-0 text-blue-400 hover:text-blue-300 underline">
+            {t('promptOutput.forceRefresh')}
+          </button>
+        </div>
+      )}
+      {outputReport && !isLoading && (
+        <div
+          className={`mb-3 p-2 rounded-md text-xs ${outputReport.missing.length > 0 ? 'bg-yellow-900 text-yellow-100' : 'bg-gray-700 text-gray-300'}`}
+          role="status"
+        >
+          {outputReport.attempts > 0 && <p>{t('validation.repaired', { count: outputReport.attempts })}</p>}
+          {outputReport.recovered.length > 0 && <p>{t('validation.recovered', { fields: reportFields(outputReport.recovered) })}</p>}
+          {outputReport.missing.length > 0 && <p>{t('validation.missing', { fields: reportFields(outputReport.missing) })}</p>}
+        </div>
+      )}
+      {subjectAnalysis && !isLoading && (
+        <div className="mb-3 flex items-center gap-2">
+          <label htmlFor="prompt-subject" className="text-sm text-gray-300 shrink-0">
+            {t('promptOutput.subject', { count: subjectAnalysis.subjects.length })}
+          </label>
+          <select
+            id="prompt-subject"
+            className="flex-grow p-1.5 border border-gray-600 rounded-md bg-gray-700 text-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            value={subjectAnalysis.selectedIndex}
+            onChange={(e) => onSubjectChange(Number(e.target.value))}
+            disabled={!!refiningField}
+          >
+            {subjectAnalysis.subjects.map((option, index) => (
+              <option key={index} value={index}>
+                {index + 1}. {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      {fieldCategories.length > 0 && (
+        <div className="mb-3 space-y-2 max-h-72 overflow-y-auto custom-scrollbar pr-1">
+          <span className="block text-xs text-gray-400">{t('promptOutput.fields')}</span>
+          {fieldCategories.map((category) => {
+            const label = categoryLabel(category);
+            const isEdited = category.schemaKey in fieldEdits;
+            const isRefining = refiningField === category.schemaKey;
+            const fieldError = fieldErrors[category.schemaKey];
+            const instruction = instructions[category.schemaKey] || '';
+            const fieldActions: { mode: FieldRefineMode; label: string }[] = [
+              { mode: 'regenerate', label: t('promptOutput.regenerate') },
+              { mode: 'shorter', label: t('promptOutput.shorter') },
+              { mode: 'detailed', label: t('promptOutput.moreDetail') },
+            ];
+            return (
+              <div key={category.schemaKey} className={`p-2 rounded-md border ${isEdited ? 'border-yellow-600' : 'border-gray-600'} bg-gray-700`}>
+                <div className="flex items-center justify-between mb-1">
+                  <label htmlFor={`field-${category.schemaKey}`} className="text-sm font-medium text-gray-100">
+                    {label}
+                    {isEdited && <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-yellow-600 text-white">{t('promptOutput.edited')}</span>}
+                  </label>
+                  <div className="flex items-center gap-1">
+                    {isEdited && (
+                      <button
+                        onClick={() => onFieldReset(category.schemaKey)}
+                        disabled={!!refiningField}
+                        className="mr-1 text-xs text-blue-400 hover:text-blue-300 underline disabled:opacity-50"
+                        aria-label={t('promptOutput.resetFieldAria', { field: label })}
+                      >
+                        {t('promptOutput.resetField')}
+                      </button>
+                    )}
+                    {isRefining ? (
+                      <span className="text-xs text-gray-400">{t('promptOutput.refiningField')}</span>
+                    ) : (
+                      fieldActions.map((action) => (
+                        <button
+                          key={action.mode}
+                          onClick={() => handleFieldRefine(category.schemaKey, action.mode)}
+                          disabled={!!refiningField}
+                          className={fieldActionClassName}
+                          aria-label={t('promptOutput.fieldActionAria', { field: label, action: action.label })}
+                        >
+                          {action.label}
+                        </button>
+                      ))
+                    )}
+                  </div>
+                </div>
+                <textarea
+                  id={`field-${category.schemaKey}`}
+                  rows={2}
+                  className="w-full p-2 border border-gray-600 rounded-md bg-gray-800 text-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm resize-y custom-scrollbar"
+                  value={editedResult?.[category.schemaKey] || ''}
+                  onChange={(e) => onFieldEdit(category.schemaKey, e.target.value)}
+                  disabled={!!refiningField} // The refined text would overwrite edits made meanwhile
+                ></textarea>
+                <div className="flex gap-1 mt-1">
+                  <input
+                    type="text"
+                    className="flex-grow p-1 border border-gray-600 rounded bg-gray-800 text-gray-50 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 text-xs"
+                    placeholder={t('promptOutput.instructionPlaceholder')}
+                    value={instruction}
+                    onChange={(e) => setInstructions((prev) => ({ ...prev, [category.schemaKey]: e.target.value }))}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && instruction.trim() && !refiningField) handleFieldRefine(category.schemaKey, 'instruction');
+                    }}
+                    disabled={!!refiningField}
+                    aria-label={t('promptOutput.fieldActionAria', { field: label, action: t('promptOutput.instructionPlaceholder') })}
+                  />
+                  <button
+                    onClick={() => handleFieldRefine(category.schemaKey, 'instruction')}
+                    disabled={!!refiningField || !instruction.trim()}
+                    className={fieldActionClassName}
+                  >
+                    {t('promptOutput.applyInstruction')}
+                  </button>
+                </div>
+                {fieldError && <p className="mt-1 text-xs text-red-400" role="alert">{fieldError}</p>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {showBilingual ? (
+        <div className="grid grid-cols-2 gap-3 flex-grow min-h-0">
+          <div className="flex flex-col min-h-0">
+            <span className="text-xs text-gray-400 mb-1">{outputLanguageLabel(outputLanguage)}</span>
+            <textarea
+              className={promptTextareaClassName}
+              value={displayPromptContent}
+              readOnly
+              aria-label={t('promptOutput.outputAria')}
+            ></textarea>
+          </div>
+          <div className="flex flex-col min-h-0">
+            <span className="text-xs text-gray-400 mb-1">{outputLanguageLabel(bilingualLanguage!)}</span>
+            <textarea
+              className={promptTextareaClassName}
+              value={translatedPromptContent}
+              readOnly
+              placeholder={t('promptOutput.translationPlaceholder')}
+              aria-label={t('promptOutput.translationAria')}
+            ></textarea>
+          </div>
+        </div>
+      ) : (
+        <textarea
+          className={promptTextareaClassName}
+          value={displayPromptContent}
+          readOnly
+          placeholder={t('promptOutput.placeholder')}
+          // Removed rows={6} to allow flex-grow to work properly for scrolling content
+          aria-label={t('promptOutput.outputAria')}
+        ></textarea>
+      )}
+      {isLoading && (
+        <div className="flex justify-end gap-2 mt-3">
+          <button
+            onClick={onCancelAnalysis}
+            className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md font-semibold transition-colors duration-200"
+          >
+            {t('promptOutput.cancelAnalysis')}
+          </button>
+        </div>
+      )}
       {showActionButtons && (
         <div className="flex justify-end gap-2 mt-3">
           <button
@@ -110,19 +332,40 @@ const PromptOutput: React.FC<PromptOutputProps> = ({ rawAnalysisResult, isLoadin
             disabled={isLoading}
             className={`px-4 py-2 rounded-md font-semibold transition-colors duration-200
                         ${isLoading ? 'bg-indigo-700 cursor-not-allowed text-gray-300' : 'bg-indigo-600 hover:bg-indigo-700 text-white'}`}
-            aria-label="要求更細緻的描述"
+            aria-label={t('promptOutput.refineDetail')}
           >
-            要求更細緻的描述
+            {t('promptOutput.refineDetail')}
           </button>
           <button
             onClick={() => navigator.clipboard.writeText(displayPromptContent)}
             className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-md font-semibold transition-colors duration-200"
-            aria-label="複製指令"
+            aria-label={t('promptOutput.copy')}
           >
-            複製指令
+            {t('promptOutput.copy')}
           </button>
+          {showBilingual && translatedPromptContent && (
+            <button
+              onClick={() => navigator.clipboard.writeText(translatedPromptContent)}
+              className="px-4 py-2 bg-green-700 hover:bg-green-800 text-white rounded-md font-semibold transition-colors duration-200"
+              aria-label={t('promptOutput.copyTranslation')}
+            >
+              {t('promptOutput.copyTranslation')}
+            </button>
+          )}
         </div>
       )}
+      {showTemplateManager && (
+        <TemplateManagerModal
+          templates={templates}
+          initialTemplateId={template.id}
+          previewResult={editedResult}
+          previewOptions={selectedOptions}
+          categories={categories}
+          previewLanguage={outputLanguage}
+          onTemplatesChange={onTemplatesChange}
+          onClose={() => setShowTemplateManager(false)}
+        />
+      )}
     </div>
   );
 };
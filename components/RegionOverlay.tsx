@@ -0,0 +1,86 @@
+import React from 'react';
+import { AnalysisRegion } from '../types';
+import { rectFromCorners, regionColor } from '../services/regionService';
+import { t } from '../services/i18n';
+
+interface RegionOverlayProps {
+  regions: AnalysisRegion[];
+  isDrawing: boolean; // While true, dragging on the image draws a new box
+  onRegionDrawn: (rect: Pick<AnalysisRegion, 'x' | 'y' | 'width' | 'height'>) => void;
+}
+
+type Point = { x: number; y: number };
+
+/**
+ * Shows the labeled region boxes on top of the image preview, and lets the user drag out new ones.
+ * Must be placed in a container that has exactly the size of the displayed image.
+ */
+const RegionOverlay: React.FC<RegionOverlayProps> = ({ regions, isDrawing, onRegionDrawn }) => {
+  const [dragStart, setDragStart] = React.useState<Point | null>(null);
+  const [dragEnd, setDragEnd] = React.useState<Point | null>(null);
+
+  // Pointer position as fractions of the overlay, which covers the image exactly
+  const toFraction = (event: React.PointerEvent<HTMLDivElement>): Point => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    return { x: (event.clientX - bounds.left) / bounds.width, y: (event.clientY - bounds.top) / bounds.height };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!isDrawing) return;
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toFraction(event);
+    setDragStart(point);
+    setDragEnd(point);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (dragStart) setDragEnd(toFraction(event));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    const rect = rectFromCorners(dragStart, toFraction(event));
+    setDragStart(null);
+    setDragEnd(null);
+    if (rect) onRegionDrawn(rect);
+  };
+
+  const draft = dragStart && dragEnd ? rectFromCorners(dragStart, dragEnd) : null;
+  const boxStyle = (rect: Pick<AnalysisRegion, 'x' | 'y' | 'width' | 'height'>, color: string): React.CSSProperties => ({
+    left: `${rect.x * 100}%`,
+    top: `${rect.y * 100}%`,
+    width: `${rect.width * 100}%`,
+    height: `${rect.height * 100}%`,
+    borderColor: color,
+  });
+
+  return (
+    <div
+      className={`absolute inset-0 ${isDrawing ? 'cursor-crosshair' : 'pointer-events-none'}`}
+      style={{ touchAction: isDrawing ? 'none' : undefined }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => {
+        setDragStart(null);
+        setDragEnd(null);
+      }}
+      aria-label={isDrawing ? t('regions.drawAria') : undefined}
+    >
+      {regions.map((region, index) => (
+        <div key={region.id} className="absolute border-2 rounded-sm" style={boxStyle(region, regionColor(index))}>
+          <span
+            className="absolute left-0 top-0 -translate-y-full px-1 text-xs text-white rounded-t whitespace-nowrap"
+            style={{ backgroundColor: regionColor(index) }}
+          >
+            {region.label || t('regions.unnamed')}
+          </span>
+        </div>
+      ))}
+      {draft && <div className="absolute border-2 border-dashed border-white bg-white/10" style={boxStyle(draft, '#ffffff')} />}
+    </div>
+  );
+};
+
+export default RegionOverlay;
@@ -0,0 +1,104 @@
+import React from 'react';
+import { AnalysisRegion } from '../types';
+import { regionColor } from '../services/regionService';
+import { t } from '../services/i18n';
+
+interface RegionPanelProps {
+  regions: AnalysisRegion[];
+  isDrawing: boolean;
+  isLoading: boolean; // The whole image is being analyzed
+  analyzingRegionIds: string[];
+  onToggleDrawing: () => void;
+  onLabelChange: (regionId: string, label: string) => void;
+  onAnalyze: (regionId: string) => void;
+  onAnalyzeAll: () => void;
+  onDelete: (regionId: string) => void;
+}
+
+const RegionPanel: React.FC<RegionPanelProps> = ({
+  regions,
+  isDrawing,
+  isLoading,
+  analyzingRegionIds,
+  onToggleDrawing,
+  onLabelChange,
+  onAnalyze,
+  onAnalyzeAll,
+  onDelete,
+}) => {
+  const isBusy = isLoading || analyzingRegionIds.length > 0;
+
+  return (
+    <div className="p-4 bg-gray-800 rounded-lg shadow-md">
+      <div className="flex justify-between items-center mb-1">
+        <h3 className="text-sm font-medium text-gray-100">{t('regions.title')}</h3>
+        <div className="flex gap-2">
+          {regions.length > 1 && (
+            <button
+              onClick={onAnalyzeAll}
+              disabled={isBusy}
+              className="text-xs text-blue-400 hover:text-blue-300 underline disabled:text-gray-500 disabled:no-underline disabled:cursor-not-allowed"
+            >
+              {t('regions.analyzeAll')}
+            </button>
+          )}
+          <button
+            onClick={onToggleDrawing}
+            disabled={isLoading}
+            className={`px-2 py-1 text-xs rounded-md transition-colors duration-200 disabled:cursor-not-allowed
+                       ${isDrawing ? 'bg-blue-600 hover:bg-blue-700 text-white' : 'bg-gray-600 hover:bg-gray-500 text-gray-100'}`}
+            aria-pressed={isDrawing}
+          >
+            {isDrawing ? t('regions.stopDrawing') : t('regions.add')}
+          </button>
+        </div>
+      </div>
+      {regions.length === 0 ? (
+        <p className="text-xs text-gray-400">{isDrawing ? t('regions.drawHint') : t('regions.empty')}</p>
+      ) : (
+        <>
+          {isDrawing && <p className="text-xs text-gray-400 mb-2">{t('regions.drawHint')}</p>}
+          <ul className="space-y-2 text-sm">
+            {regions.map((region, index) => {
+              const isAnalyzing = analyzingRegionIds.includes(region.id);
+              return (
+                <li key={region.id} className="flex items-center gap-2 p-2 bg-gray-700 rounded-md">
+                  <span className="w-3 h-3 shrink-0 rounded-sm" style={{ backgroundColor: regionColor(index) }} aria-hidden="true" />
+                  <input
+                    type="text"
+                    className="flex-grow min-w-0 p-1 border border-gray-600 rounded bg-gray-800 text-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 text-xs"
+                    value={region.label}
+                    onChange={(e) => onLabelChange(region.id, e.target.value)}
+                    placeholder={t('regions.unnamed')}
+                    aria-label={t('regions.labelAria')}
+                  />
+                  <span className="shrink-0 text-xs text-gray-400">
+                    {isAnalyzing ? t('regions.analyzing') : region.result ? t('regions.analyzed') : t('regions.notAnalyzed')}
+                  </span>
+                  <button
+                    onClick={() => onAnalyze(region.id)}
+                    disabled={isBusy}
+                    className="px-2 py-1 text-xs bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-md transition-colors duration-200"
+                    aria-label={t('regions.analyzeAria', { label: region.label || t('regions.unnamed') })}
+                  >
+                    {t('regions.analyze')}
+                  </button>
+                  <button
+                    onClick={() => onDelete(region.id)}
+                    disabled={isAnalyzing}
+                    className="px-2 py-1 text-xs bg-red-600 hover:bg-red-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-md transition-colors duration-200"
+                    aria-label={t('regions.deleteAria', { label: region.label || t('regions.unnamed') })}
+                  >
+                    {t('common.delete')}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RegionPanel;
@@ -0,0 +1,173 @@
+import React from 'react';
+import { AnalysisCategory, ImageAnalysisResult } from '../types';
+import {
+  ComparisonSide,
+  ComparisonSource,
+  comparedFieldKeys,
+  defaultFieldPicks,
+  mergeResults,
+} from '../services/resultComparisonService';
+import { DiffSegment, diffWords } from '../services/textDiff';
+import { labelForSchemaKey } from '../services/categoryService';
+import { getLocale, t } from '../services/i18n';
+
+interface ResultComparisonModalProps {
+  sources: ComparisonSource[]; // Results of every tab, current ones and history
+  initialLeftId: string;
+  initialRightId: string;
+  categories: AnalysisCategory[];
+  onApply: (merged: ImageAnalysisResult) => void; // Replaces the active tab's result with the merged one
+  onClose: () => void;
+}
+
+const selectClassName = 'w-full p-2 border border-gray-600 rounded-md bg-gray-700 text-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+const sourceLabel = (source: ComparisonSource) => {
+  if (!source.entry) return t('comparison.current', { tab: source.tabName });
+  const time = new Date(source.entry.timestamp).toLocaleString(getLocale());
+  return source.entry.isDetailed
+    ? t('comparison.entryDetailed', { tab: source.tabName, time })
+    : t('comparison.entry', { tab: source.tabName, time });
+};
+
+// Renders one side of a diff: the left side shows what was removed, the right side what was added
+const renderSegments = (segments: DiffSegment[], side: ComparisonSide) =>
+  segments
+    .filter((segment) => segment.type === 'same' || segment.type === (side === 'left' ? 'removed' : 'added'))
+    .map((segment, index) =>
+      segment.type === 'same' ? (
+        <span key={index}>{segment.text}</span>
+      ) : segment.type === 'removed' ? (
+        <del key={index} className="bg-red-900 text-red-200">{segment.text}</del>
+      ) : (
+        <ins key={index} className="bg-green-900 text-green-200 no-underline">{segment.text}</ins>
+      ),
+    );
+
+const ResultComparisonModal: React.FC<ResultComparisonModalProps> = ({
+  sources,
+  initialLeftId,
+  initialRightId,
+  categories,
+  onApply,
+  onClose,
+}) => {
+  const [leftId, setLeftId] = React.useState(initialLeftId);
+  const [rightId, setRightId] = React.useState(initialRightId);
+  const left = sources.find((source) => source.id === leftId);
+  const right = sources.find((source) => source.id === rightId);
+  const [picks, setPicks] = React.useState<Record<string, ComparisonSide>>({});
+
+  // Start over with the default picks whenever either side changes
+  React.useEffect(() => {
+    setPicks(left && right ? defaultFieldPicks(left.result, right.result) : {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [leftId, rightId]);
+
+  const fieldKeys = left && right ? comparedFieldKeys(left.result, right.result) : [];
+
+  const handleApply = () => {
+    if (!left || !right) return;
+    onApply(mergeResults(left.result, right.result, picks));
+  };
+
+  const renderSourceSelect = (id: string, value: string, label: string, onChange: (value: string) => void) => (
+    <div>
+      <label htmlFor={id} className="block font-medium text-gray-100 mb-1">{label}</label>
+      <select id={id} className={selectClassName} value={value} onChange={(e) => onChange(e.target.value)}>
+        {sources.map((source) => (
+          <option key={source.id} value={source.id}>
+            {sourceLabel(source)}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-75 p-4">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden" role="dialog" aria-modal="true" aria-labelledby="comparison-title">
+        <div className="flex justify-between items-center p-4 border-b border-gray-700">
+          <h2 id="comparison-title" className="text-xl font-semibold text-gray-100">{t('comparison.title')}</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-100 transition-colors duration-200"
+            aria-label={t('comparison.close')}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto custom-scrollbar text-sm">
+          <div className="grid grid-cols-2 gap-4">
+            {renderSourceSelect('comparison-left', leftId, t('comparison.left'), setLeftId)}
+            {renderSourceSelect('comparison-right', rightId, t('comparison.right'), setRightId)}
+          </div>
+          {leftId === rightId && <p className="text-yellow-400">{t('comparison.sameSource')}</p>}
+          <p className="text-xs text-gray-400">{t('comparison.legend')}</p>
+
+          <table className="w-full text-left text-gray-200 border-collapse">
+            <thead>
+              <tr className="text-gray-400">
+                <th className="p-2 border-b border-gray-700 w-32">{t('comparison.field')}</th>
+                <th className="p-2 border-b border-gray-700">{t('comparison.left')}</th>
+                <th className="p-2 border-b border-gray-700">{t('comparison.right')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {left && right && fieldKeys.map((key) => {
+                const label = labelForSchemaKey(categories, key);
+                const segments = diffWords(left.result[key] || '', right.result[key] || '');
+                return (
+                  <tr key={key} className="align-top">
+                    <td className="p-2 border-b border-gray-700 text-gray-400">{label}</td>
+                    {(['left', 'right'] as ComparisonSide[]).map((side) => {
+                      const value = (side === 'left' ? left : right).result[key];
+                      return (
+                        <td key={side} className={`p-2 border-b border-gray-700 ${picks[key] === side ? 'bg-gray-700' : ''}`}>
+                          <label className="flex items-start gap-2 cursor-pointer">
+                            <input
+                              type="radio"
+                              className="mt-1"
+                              name={`comparison-pick-${key}`}
+                              checked={picks[key] === side}
+                              onChange={() => setPicks((prev) => ({ ...prev, [key]: side }))}
+                              aria-label={side === 'left' ? t('comparison.useLeftAria', { field: label }) : t('comparison.useRightAria', { field: label })}
+                            />
+                            <span className="whitespace-pre-wrap">
+                              {value?.trim() ? renderSegments(segments, side) : <span className="text-gray-500">{t('comparison.noValue')}</span>}
+                            </span>
+                          </label>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded-md font-semibold transition-colors duration-200"
+          >
+            {t('common.close')}
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!left || !right || fieldKeys.length === 0}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-md font-semibold transition-colors duration-200"
+          >
+            {t('comparison.apply')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResultComparisonModal;
@@ -0,0 +1,431 @@
+import React from 'react';
+import { AppSettings, GenerationSettings, ImageOutputFormat, VisionProviderType } from '../types';
+import { GEMINI_MODEL_SUGGESTIONS, IMAGE_OUTPUT_FORMATS, loadSettings, saveSettings } from '../services/settingsService';
+import { formatLabel } from '../services/imagePreprocessService';
+import { cacheUsage, clearAnalysisCache } from '../services/responseCacheService';
+import { t } from '../services/i18n';
+
+interface SettingsModalProps {
+  onClose: () => void;
+}
+
+// Form values for the generation parameters are kept as strings so fields can be left empty
+interface GenerationFormValues {
+  temperature: string;
+  topP: string;
+  maxOutputTokens: string;
+}
+
+const toFormValues = (generation: GenerationSettings): GenerationFormValues => ({
+  temperature: generation.temperature?.toString() ?? '',
+  topP: generation.topP?.toString() ?? '',
+  maxOutputTokens: generation.maxOutputTokens?.toString() ?? '',
+});
+
+const formatMegabytes = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+
+const inputClassName = 'w-full p-2 border border-gray-600 rounded-md bg-gray-700 text-gray-50 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+const SettingsModal: React.FC<SettingsModalProps> = ({ onClose }) => {
+  const [settings, setSettings] = React.useState<AppSettings>(() => loadSettings());
+  const [generationValues, setGenerationValues] = React.useState<GenerationFormValues>(() => toFormValues(settings.generation));
+  const [showApiKey, setShowApiKey] = React.useState(false);
+  const [formError, setFormError] = React.useState<string | null>(null);
+  const [cacheValues, setCacheValues] = React.useState(() => ({
+    maxSizeMb: settings.cache.maxSizeMb.toString(),
+    maxAgeDays: settings.cache.maxAgeDays.toString(),
+  }));
+  const [processingValues, setProcessingValues] = React.useState(() => ({
+    maxDimension: settings.imageProcessing.maxDimension.toString(),
+    quality: settings.imageProcessing.quality.toString(),
+  }));
+  const [usage, setUsage] = React.useState<{ entries: number; bytes: number } | null>(null);
+
+  const refreshUsage = React.useCallback(() => {
+    cacheUsage()
+      .then(setUsage)
+      .catch((e) => console.warn('Failed to read the response cache:', e));
+  }, []);
+
+  React.useEffect(refreshUsage, [refreshUsage]);
+
+  const handleClearCache = async () => {
+    try {
+      await clearAnalysisCache();
+      refreshUsage();
+    } catch (e: any) {
+      console.error('Failed to clear the response cache:', e);
+      setFormError(t('settings.cacheClearFailed', { detail: e.message || t('common.unknownError') }));
+    }
+  };
+
+  const updateGemini = (changes: Partial<AppSettings['gemini']>) => {
+    setSettings((prev) => ({ ...prev, gemini: { ...prev.gemini, ...changes } }));
+  };
+
+  const updateOpenAiCompatible = (changes: Partial<AppSettings['openAiCompatible']>) => {
+    setSettings((prev) => ({ ...prev, openAiCompatible: { ...prev.openAiCompatible, ...changes } }));
+  };
+
+  // Parses one numeric field; returns null when the value is out of range
+  const parseNumberField = (value: string, min: number, max: number): number | undefined | null => {
+    if (!value.trim()) return undefined;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < min || parsed > max) return null;
+    return parsed;
+  };
+
+  const handleSave = () => {
+    const temperature = parseNumberField(generationValues.temperature, 0, 2);
+    const topP = parseNumberField(generationValues.topP, 0, 1);
+    const maxOutputTokens = parseNumberField(generationValues.maxOutputTokens, 1, 1_000_000);
+
+    if (temperature === null) {
+      setFormError(t('settings.temperatureRange'));
+      return;
+    }
+    if (topP === null) {
+      setFormError(t('settings.topPRange'));
+      return;
+    }
+    if (maxOutputTokens === null || (maxOutputTokens !== undefined && !Number.isInteger(maxOutputTokens))) {
+      setFormError(t('settings.maxOutputTokensInteger'));
+      return;
+    }
+    const maxSizeMb = parseNumberField(cacheValues.maxSizeMb, 1, 10_000);
+    const maxAgeDays = parseNumberField(cacheValues.maxAgeDays, 1, 3650);
+    if (!maxSizeMb) {
+      setFormError(t('settings.cacheSizeRange'));
+      return;
+    }
+    if (!maxAgeDays) {
+      setFormError(t('settings.cacheAgeRange'));
+      return;
+    }
+    const maxDimension = parseNumberField(processingValues.maxDimension, 64, 16_384);
+    const quality = parseNumberField(processingValues.quality, 0.1, 1);
+    if (!maxDimension || !Number.isInteger(maxDimension)) {
+      setFormError(t('settings.maxDimensionRange'));
+      return;
+    }
+    if (!quality) {
+      setFormError(t('settings.qualityRange'));
+      return;
+    }
+    const activeModel = settings.provider === 'gemini' ? settings.gemini.model : settings.openAiCompatible.model;
+    if (!activeModel.trim()) {
+      setFormError(t('settings.modelRequired'));
+      return;
+    }
+
+    try {
+      saveSettings({
+        ...settings,
+        generation: { temperature, topP, maxOutputTokens },
+        cache: { ...settings.cache, maxSizeMb, maxAgeDays },
+        imageProcessing: { ...settings.imageProcessing, maxDimension, quality },
+      });
+      onClose();
+    } catch (e: any) {
+      console.error('Failed to save settings:', e);
+      setFormError(t('settings.saveFailed', { detail: e.message || t('common.unknownError') }));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-75 p-4">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col overflow-hidden" role="dialog" aria-modal="true" aria-labelledby="settings-title">
+        <div className="flex justify-between items-center p-4 border-b border-gray-700">
+          <h2 id="settings-title" className="text-xl font-semibold text-gray-100">{t('settings.title')}</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-100 transition-colors duration-200"
+            aria-label={t('settings.close')}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto custom-scrollbar p-4 space-y-4 text-sm">
+          {formError && (
+            <div className="bg-red-800 text-white p-2 rounded-md" role="alert">
+              {formError}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="settings-provider" className="block font-medium text-gray-100 mb-1">{t('settings.provider')}</label>
+            <select
+              id="settings-provider"
+              className={inputClassName}
+              value={settings.provider}
+              onChange={(e) => setSettings((prev) => ({ ...prev, provider: e.target.value as VisionProviderType }))}
+            >
+              <option value="gemini">Google Gemini</option>
+              <option value="openai-compatible">{t('settings.providerOpenAiCompatible')}</option>
+            </select>
+          </div>
+
+          {settings.provider === 'gemini' ? (
+            <>
+              <div>
+                <label htmlFor="settings-gemini-key" className="block font-medium text-gray-100 mb-1">{t('settings.geminiApiKey')}</label>
+                <div className="flex gap-2">
+                  <input
+                    id="settings-gemini-key"
+                    type={showApiKey ? 'text' : 'password'}
+                    className={inputClassName}
+                    value={settings.gemini.apiKey}
+                    onChange={(e) => updateGemini({ apiKey: e.target.value })}
+                    placeholder={t('settings.apiKeyPlaceholder')}
+                    autoComplete="off"
+                  />
+                  <button
+                    onClick={() => setShowApiKey((prev) => !prev)}
+                    className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded-md shrink-0 transition-colors duration-200"
+                    aria-label={showApiKey ? t('settings.hideApiKeyAria') : t('settings.showApiKeyAria')}
+                  >
+                    {showApiKey ? t('settings.hide') : t('settings.show')}
+                  </button>
+                </div>
+                <p className="mt-1 text-xs text-gray-400">{t('settings.apiKeyStoredLocally')}</p>
+              </div>
+              <div>
+                <label htmlFor="settings-gemini-model" className="block font-medium text-gray-100 mb-1">{t('settings.model')}</label>
+                <input
+                  id="settings-gemini-model"
+                  type="text"
+                  list="settings-gemini-model-suggestions"
+                  className={inputClassName}
+                  value={settings.gemini.model}
+                  onChange={(e) => updateGemini({ model: e.target.value })}
+                />
+                <datalist id="settings-gemini-model-suggestions">
+                  {GEMINI_MODEL_SUGGESTIONS.map((model) => (
+                    <option key={model} value={model} />
+                  ))}
+                </datalist>
+              </div>
+            </>
+          ) : (
+            <>
+              <div>
+                <label htmlFor="settings-openai-url" className="block font-medium text-gray-100 mb-1">{t('settings.endpointUrl')}</label>
+                <input
+                  id="settings-openai-url"
+                  type="text"
+                  className={inputClassName}
+                  value={settings.openAiCompatible.baseUrl}
+                  onChange={(e) => updateOpenAiCompatible({ baseUrl: e.target.value })}
+                  placeholder="http://localhost:11434/v1"
+                />
+              </div>
+              <div>
+                <label htmlFor="settings-openai-key" className="block font-medium text-gray-100 mb-1">{t('settings.optionalApiKey')}</label>
+                <input
+                  id="settings-openai-key"
+                  type="password"
+                  className={inputClassName}
+                  value={settings.openAiCompatible.apiKey}
+                  onChange={(e) => updateOpenAiCompatible({ apiKey: e.target.value })}
+                  autoComplete="off"
+                />
+              </div>
+              <div>
+                <label htmlFor="settings-openai-model" className="block font-medium text-gray-100 mb-1">{t('settings.model')}</label>
+                <input
+                  id="settings-openai-model"
+                  type="text"
+                  className={inputClassName}
+                  value={settings.openAiCompatible.model}
+                  onChange={(e) => updateOpenAiCompatible({ model: e.target.value })}
+                  placeholder="llava"
+                />
+              </div>
+            </>
+          )}
+
+          <fieldset className="border border-gray-700 rounded-md p-3 space-y-3">
+            <legend className="px-1 font-medium text-gray-100">{t('settings.generation')}</legend>
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label htmlFor="settings-temperature" className="block text-gray-300 mb-1">Temperature</label>
+                <input
+                  id="settings-temperature"
+                  type="number"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  className={inputClassName}
+                  value={generationValues.temperature}
+                  onChange={(e) => setGenerationValues((prev) => ({ ...prev, temperature: e.target.value }))}
+                />
+              </div>
+              <div>
+                <label htmlFor="settings-top-p" className="block text-gray-300 mb-1">Top P</label>
+                <input
+                  id="settings-top-p"
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  className={inputClassName}
+                  value={generationValues.topP}
+                  onChange={(e) => setGenerationValues((prev) => ({ ...prev, topP: e.target.value }))}
+                />
+              </div>
+              <div>
+                <label htmlFor="settings-max-tokens" className="block text-gray-300 mb-1">{t('settings.maxOutputTokens')}</label>
+                <input
+                  id="settings-max-tokens"
+                  type="number"
+                  min={1}
+                  step={1}
+                  className={inputClassName}
+                  value={generationValues.maxOutputTokens}
+                  onChange={(e) => setGenerationValues((prev) => ({ ...prev, maxOutputTokens: e.target.value }))}
+                />
+              </div>
+            </div>
+          </fieldset>
+
+          <fieldset className="border border-gray-700 rounded-md p-3 space-y-3">
+            <legend className="px-1 font-medium text-gray-100">{t('settings.imageProcessing')}</legend>
+            <label className="flex items-center gap-2 text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.imageProcessing.enabled}
+                onChange={(e) =>
+                  setSettings((prev) => ({ ...prev, imageProcessing: { ...prev.imageProcessing, enabled: e.target.checked } }))
+                }
+              />
+              {t('settings.imageProcessingEnabled')}
+            </label>
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label htmlFor="settings-max-dimension" className="block text-gray-300 mb-1">{t('settings.maxDimension')}</label>
+                <input
+                  id="settings-max-dimension"
+                  type="number"
+                  min={64}
+                  step={1}
+                  className={inputClassName}
+                  value={processingValues.maxDimension}
+                  onChange={(e) => setProcessingValues((prev) => ({ ...prev, maxDimension: e.target.value }))}
+                  disabled={!settings.imageProcessing.enabled}
+                />
+              </div>
+              <div>
+                <label htmlFor="settings-image-format" className="block text-gray-300 mb-1">{t('settings.imageFormat')}</label>
+                <select
+                  id="settings-image-format"
+                  className={inputClassName}
+                  value={settings.imageProcessing.format}
+                  onChange={(e) =>
+                    setSettings((prev) => ({
+                      ...prev,
+                      imageProcessing: { ...prev.imageProcessing, format: e.target.value as ImageOutputFormat },
+                    }))
+                  }
+                  disabled={!settings.imageProcessing.enabled}
+                >
+                  {IMAGE_OUTPUT_FORMATS.map((format) => (
+                    <option key={format} value={format}>
+                      {format === 'original' ? t('settings.imageFormatOriginal') : formatLabel(format)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="settings-image-quality" className="block text-gray-300 mb-1">{t('settings.imageQuality')}</label>
+                <input
+                  id="settings-image-quality"
+                  type="number"
+                  min={0.1}
+                  max={1}
+                  step={0.05}
+                  className={inputClassName}
+                  value={processingValues.quality}
+                  onChange={(e) => setProcessingValues((prev) => ({ ...prev, quality: e.target.value }))}
+                  disabled={!settings.imageProcessing.enabled}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-400">{t('settings.imageProcessingHint')}</p>
+          </fieldset>
+
+          <fieldset className="border border-gray-700 rounded-md p-3 space-y-3">
+            <legend className="px-1 font-medium text-gray-100">{t('settings.cache')}</legend>
+            <label className="flex items-center gap-2 text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.cache.enabled}
+                onChange={(e) => setSettings((prev) => ({ ...prev, cache: { ...prev.cache, enabled: e.target.checked } }))}
+              />
+              {t('settings.cacheEnabled')}
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="settings-cache-size" className="block text-gray-300 mb-1">{t('settings.cacheMaxSize')}</label>
+                <input
+                  id="settings-cache-size"
+                  type="number"
+                  min={1}
+                  step={1}
+                  className={inputClassName}
+                  value={cacheValues.maxSizeMb}
+                  onChange={(e) => setCacheValues((prev) => ({ ...prev, maxSizeMb: e.target.value }))}
+                />
+              </div>
+              <div>
+                <label htmlFor="settings-cache-age" className="block text-gray-300 mb-1">{t('settings.cacheMaxAge')}</label>
+                <input
+                  id="settings-cache-age"
+                  type="number"
+                  min={1}
+                  step={1}
+                  className={inputClassName}
+                  value={cacheValues.maxAgeDays}
+                  onChange={(e) => setCacheValues((prev) => ({ ...prev, maxAgeDays: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-2 text-xs text-gray-400">
+              <span>
+                {usage
+                  ? t('settings.cacheUsage', { count: usage.entries, size: formatMegabytes(usage.bytes) })
+                  : t('settings.cacheUnavailable')}
+              </span>
+              <button
+                onClick={handleClearCache}
+                disabled={!usage || usage.entries === 0}
+                className="px-3 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-gray-300 rounded-md transition-colors duration-200"
+              >
+                {t('settings.cacheClear')}
+              </button>
+            </div>
+          </fieldset>
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded-md font-semibold transition-colors duration-200"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md font-semibold transition-colors duration-200"
+          >
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
@@ -1,26 +1,141 @@
 import React from 'react';
-import { AnalysisOption, TabContentState, ImageAnalysisResult } from '../types';
+import { AnalysisCategory, AnalysisCategoryId, AnalysisHistoryEntry, AnalysisMode, AnalysisOption, AnalysisRegion, ErrorKind, Tab, TabContentState, TabContentStateUpdate, ImageAnalysisResult, ImageEditState, ImageProcessingInfo, OutputLanguage, PromptTemplate } from '../types';
 import ImageUploader from './ImageUploader';
 import AnalysisOptions from './AnalysisOptions';
 import PromptOutput from './PromptOutput';
-import { analyzeImage } from '../services/geminiService';
+import AnalysisHistoryPanel from './AnalysisHistoryPanel';
+import ResultComparisonModal from './ResultComparisonModal';
+import RegionOverlay from './RegionOverlay';
+import RegionPanel from './RegionPanel';
+import { analyzeImage, refineAnalysisField } from '../services/analysisService';
+import { FieldRefineMode, splitTranslatedResult } from '../services/visionProvider';
+import { OUTPUT_LANGUAGES, isOutputLanguage } from '../services/outputLanguageService';
+import { defaultTemplateFor, isDefaultTemplateId } from '../services/promptBuilder';
+import { MessageKey, t } from '../services/i18n';
+import { errorMessage } from '../services/appError';
+import { DEFAULT_RETRY_POLICY } from '../services/retryService';
+import { activeModelName, loadSettings } from '../services/settingsService';
+import { addHistoryEntry, createHistoryEntry, removeHistoryEntry, toggleHistoryPin } from '../services/analysisHistoryService';
+import { listComparisonSources } from '../services/resultComparisonService';
+import { applyFieldEdits, setFieldEdit } from '../services/fieldEditService';
+import { analysisRunToken, cancelAnalysisRun } from '../services/analysisRunService';
+import { createRegion, cropRegion, removeRegion, updateRegion } from '../services/regionService';
+import { selectSubject, selectedSubjectResult } from '../services/subjectService';
+import { isSubjectCategory } from '../services/categoryService';
+import { analyzeTab } from '../services/tabAnalysisService';
+import { PreprocessedImage } from '../services/imagePreprocessService';
 
 interface TabContentProps {
   tabId: string;
+  tabs: Tab[]; // All tabs, so results can be compared across them
   contentState: TabContentState;
-  onContentStateChange: (tabId: string, newState: Partial<TabContentState>) => void;
+  onContentStateChange: (tabId: string, newState: TabContentStateUpdate) => void;
+  onAddImageTabs: (images: PreprocessedImage[]) => void; // Opens each image of a multi-image paste or drop in a new tab
+  templates: PromptTemplate[];
+  onTemplatesChange: (templates: PromptTemplate[]) => void;
+  categories: AnalysisCategory[];
+  onCategoriesChange: (categories: AnalysisCategory[]) => void;
 }
 
-const TabContent: React.FC<TabContentProps> = ({ tabId, contentState, onContentStateChange }) => {
+// What to tell the user after an analysis failed, by the kind of failure
+const ERROR_GUIDANCE: Record<ErrorKind, MessageKey> = {
+  auth: 'errorGuidance.auth',
+  rateLimit: 'errorGuidance.rateLimit',
+  server: 'errorGuidance.server',
+  safetyBlocked: 'errorGuidance.safetyBlocked',
+  invalidImage: 'errorGuidance.invalidImage',
+  network: 'errorGuidance.network',
+  parse: 'errorGuidance.parse',
+};
+
+const TabContent: React.FC<TabContentProps> = ({
+  tabId,
+  tabs,
+  contentState,
+  onContentStateChange,
+  onAddImageTabs,
+  templates,
+  onTemplatesChange,
+  categories,
+  onCategoriesChange,
+}) => {
   // Destructure rawAnalysisResult instead of generatedPrompt
-  const { uploadedImage, selectedOptions, rawAnalysisResult, isLoading, error, otherAnalysisText } = contentState;
+  const {
+    uploadedImage,
+    uploadedImageInfo,
+    uploadedImageEdit,
+    selectedOptions,
+    rawAnalysisResult,
+    isLoading,
+    error,
+    otherAnalysisText,
+    templateId,
+    outputLanguage,
+    bilingualLanguage,
+    translatedAnalysisResult,
+    analysisHistory,
+    fieldEdits,
+    analysisMode,
+    referenceImage,
+    referenceImageInfo,
+    referenceImageEdit,
+    regions,
+    detectSubjects,
+    subjectAnalysis,
+    outputReport,
+    errorKind,
+    cachedAt,
+  } = contentState;
+  const isTransferMode = analysisMode === 'transfer';
+  // Only sent in transfer mode, so a reference left over from it does not affect a normal analysis
+  const activeReferenceImage = isTransferMode ? referenceImage : null;
+  const [comparison, setComparison] = React.useState<{ leftId: string; rightId: string } | null>(null);
+  const comparisonSources = listComparisonSources(tabs);
+  const [isDrawingRegion, setIsDrawingRegion] = React.useState(false);
+  const [analyzingRegionIds, setAnalyzingRegionIds] = React.useState<string[]>([]);
+  // The automatic retry being waited for, shown while the analysis is still loading
+  const [pendingRetry, setPendingRetry] = React.useState<{ retry: number; delayMs: number } | null>(null);
+  // Whether the last analysis asked for detail, so the retry button repeats it exactly
+  const lastRequestDetailedRef = React.useRef(false);
+
+  const handleImageUpload = (base64Image: string, info: ImageProcessingInfo | null) => {
+    // Clear rawAnalysisResult when new image is uploaded; an analysis of the old image is no longer wanted
+    cancelAnalysisRun(tabId);
+    // Regions were drawn on the old image
+    onContentStateChange(tabId, { uploadedImage: base64Image, uploadedImageInfo: info, uploadedImageEdit: null, rawAnalysisResult: null, translatedAnalysisResult: null, fieldEdits: {}, subjectAnalysis: null, outputReport: null, cachedAt: null, regions: [], isLoading: false, error: null, errorKind: null });
+  };
+
+  const handleReferenceImageUpload = (base64Image: string, info: ImageProcessingInfo | null) => {
+    // The result was written against the old reference
+    cancelAnalysisRun(tabId);
+    onContentStateChange(tabId, { referenceImage: base64Image, referenceImageInfo: info, referenceImageEdit: null, rawAnalysisResult: null, translatedAnalysisResult: null, fieldEdits: {}, subjectAnalysis: null, outputReport: null, cachedAt: null, isLoading: false, error: null, errorKind: null });
+  };
 
-  const handleImageUpload = (base64Image: string) => {
-    // Clear rawAnalysisResult when new image is uploaded
-    onContentStateChange(tabId, { uploadedImage: base64Image, rawAnalysisResult: null, error: null });
+  // A crop, rotation or flip, or restoring the original; the preprocessing details still describe the original
+  const handleImageEdit = (editedImage: string, edit: ImageEditState | null) => {
+    cancelAnalysisRun(tabId);
+    onContentStateChange(tabId, { uploadedImage: editedImage, uploadedImageEdit: edit, rawAnalysisResult: null, translatedAnalysisResult: null, fieldEdits: {}, subjectAnalysis: null, outputReport: null, cachedAt: null, regions: [], isLoading: false, error: null, errorKind: null });
   };
 
-  const handleOptionChange = (options: AnalysisOption[]) => {
+  const handleReferenceImageEdit = (editedImage: string, edit: ImageEditState | null) => {
+    cancelAnalysisRun(tabId);
+    onContentStateChange(tabId, { referenceImage: editedImage, referenceImageEdit: edit, rawAnalysisResult: null, translatedAnalysisResult: null, fieldEdits: {}, subjectAnalysis: null, outputReport: null, cachedAt: null, isLoading: false, error: null, errorKind: null });
+  };
+
+  const handleDeleteReferenceImage = () => {
+    cancelAnalysisRun(tabId);
+    onContentStateChange(tabId, { referenceImage: null, referenceImageInfo: null, referenceImageEdit: null, rawAnalysisResult: null, translatedAnalysisResult: null, fieldEdits: {}, subjectAnalysis: null, outputReport: null, cachedAt: null, isLoading: false, error: null, errorKind: null });
+  };
+
+  const handleAnalysisModeChange = (mode: AnalysisMode) => {
+    onContentStateChange(tabId, {
+      analysisMode: mode,
+      // Tabs on a built-in template switch to the one written for the mode
+      templateId: isDefaultTemplateId(templateId) ? defaultTemplateFor(outputLanguage, mode).id : templateId,
+    });
+  };
+
+  const handleOptionChange = (options: AnalysisCategoryId[]) => {
     onContentStateChange(tabId, { selectedOptions: options });
   };
 
@@ -28,38 +143,104 @@ const TabContent: React.FC<TabContentProps> = ({ tabId, contentState, onContentS
     onContentStateChange(tabId, { otherAnalysisText: event.target.value });
   };
 
-  const handleAnalyze = async (isDetailedRequest: boolean = false) => { // Added parameter
-    if (!uploadedImage) {
-      onContentStateChange(tabId, { error: '請先上傳圖片。' });
-      return;
-    }
+  const handleAnalyze = async (isDetailedRequest: boolean = false, forceRefresh: boolean = false) => { // Added parameter
+    lastRequestDetailedRef.current = isDetailedRequest;
+    await analyzeTab(tabId, contentState, categories, (newState) => onContentStateChange(tabId, newState), {
+      isDetailedRequest,
+      forceRefresh,
+      onRetry: (retry, delayMs) => setPendingRetry({ retry, delayMs }),
+      onFinish: () => setPendingRetry(null),
+    });
+  };
 
-    // Validate '其他' option with custom text
-    if (selectedOptions.includes(AnalysisOption.OTHER) && !otherAnalysisText.trim()) {
-      onContentStateChange(tabId, { error: '當選擇「其他」時，請輸入要分析的特定內容。' });
-      return;
-    }
+  const handleCancelAnalysis = () => {
+    // Put back what the tab showed before the analysis started
+    const previousState = cancelAnalysisRun(tabId);
+    onContentStateChange(tabId, { ...previousState, isLoading: false, error: null, errorKind: null });
+    setPendingRetry(null);
+  };
+
+  const handleSetError = (errorMessage: string | null) => {
+    onContentStateChange(tabId, { error: errorMessage, errorKind: null });
+  };
+
+  const handleDeleteImage = () => {
+    // Clear image, analysis result, and error when deleting image
+    cancelAnalysisRun(tabId);
+    onContentStateChange(tabId, { uploadedImage: null, uploadedImageInfo: null, uploadedImageEdit: null, rawAnalysisResult: null, translatedAnalysisResult: null, fieldEdits: {}, subjectAnalysis: null, outputReport: null, cachedAt: null, regions: [], isLoading: false, error: null, errorKind: null });
+    setIsDrawingRegion(false);
+  };
+
+  const handleRegionDrawn = (rect: Pick<AnalysisRegion, 'x' | 'y' | 'width' | 'height'>) => {
+    const letter = String.fromCharCode(65 + (regions.length % 26));
+    onContentStateChange(tabId, { regions: [...regions, createRegion(rect, t('regions.defaultLabel', { letter }))] });
+  };
+
+  const handleRegionLabelChange = (regionId: string, label: string) => {
+    onContentStateChange(tabId, { regions: updateRegion(regions, regionId, { label }) });
+  };
+
+  const handleDeleteRegion = (regionId: string) => {
+    onContentStateChange(tabId, { regions: removeRegion(regions, regionId) });
+  };
 
-    // Clear previous analysis results and set loading state
-    onContentStateChange(tabId, { isLoading: true, error: null, rawAnalysisResult: null });
+  // Analyzes the region cut out of the image with the tab's options, so the fields describe only that subject
+  const analyzeRegion = async (region: AnalysisRegion) => {
+    if (!uploadedImage) return;
+    setAnalyzingRegionIds((prev) => [...prev, region.id]);
     try {
-      const result: ImageAnalysisResult = await analyzeImage(uploadedImage, selectedOptions, otherAnalysisText, isDetailedRequest); // Pass isDetailedRequest
-      // Store the structured result
-      onContentStateChange(tabId, { rawAnalysisResult: result, error: null });
+      const crop = await cropRegion(uploadedImage, region);
+      const response = await analyzeImage(
+        crop,
+        selectedOptions,
+        otherAnalysisText,
+        false,
+        categories,
+        outputLanguage,
+        null,
+        activeReferenceImage,
+      );
+      // Merged into the tab's latest regions, which may have changed while this tab was not shown;
+      // a region removed in the meantime, e.g. by a new image, stays removed
+      onContentStateChange(tabId, (current) => ({ regions: updateRegion(current.regions, region.id, { result: response }) }));
     } catch (e: any) {
-      onContentStateChange(tabId, { error: e.message || '分析圖片時發生錯誤。' });
+      onContentStateChange(tabId, (current) =>
+        current.regions.some((item) => item.id === region.id)
+          ? {
+              error: t('error.regionAnalysisFailed', { label: region.label || t('regions.unnamed'), detail: errorMessage(e, 'error.analysisGeneric') }),
+              errorKind: null, // The retry button repeats a whole-image analysis, not this region
+            }
+          : {},
+      );
     } finally {
-      onContentStateChange(tabId, { isLoading: false });
+      setAnalyzingRegionIds((prev) => prev.filter((id) => id !== region.id));
     }
   };
 
-  const handleSetError = (errorMessage: string | null) => {
-    onContentStateChange(tabId, { error: errorMessage });
+  const validateRegionAnalysis = (): boolean => {
+    if (isTransferMode && !referenceImage) {
+      onContentStateChange(tabId, { error: t('error.referenceImageRequired'), errorKind: null });
+      return false;
+    }
+    if (selectedOptions.includes(AnalysisOption.OTHER) && !otherAnalysisText.trim()) {
+      onContentStateChange(tabId, { error: t('error.otherTextRequired'), errorKind: null });
+      return false;
+    }
+    onContentStateChange(tabId, { error: null, errorKind: null });
+    return true;
   };
 
-  const handleDeleteImage = () => {
-    // Clear image, analysis result, and error when deleting image
-    onContentStateChange(tabId, { uploadedImage: null, rawAnalysisResult: null, error: null });
+  const handleAnalyzeRegion = (regionId: string) => {
+    const region = regions.find((item) => item.id === regionId);
+    if (region && validateRegionAnalysis()) analyzeRegion(region);
+  };
+
+  const handleAnalyzeAllRegions = async () => {
+    if (!validateRegionAnalysis()) return;
+    // One at a time, to stay within provider rate limits
+    for (const region of regions) {
+      await analyzeRegion(region);
+    }
   };
 
   const handleRefineDetailRequest = () => {
@@ -67,6 +248,151 @@ const TabContent: React.FC<TabContentProps> = ({ tabId, contentState, onContentS
     handleAnalyze(true);
   };
 
+  const handleTemplateChange = (newTemplateId: string) => {
+    onContentStateChange(tabId, { templateId: newTemplateId });
+  };
+
+  const handleOutputLanguageChange = (language: OutputLanguage) => {
+    onContentStateChange(tabId, {
+      outputLanguage: language,
+      // Tabs on a built-in template follow the language; custom templates are left alone
+      templateId: isDefaultTemplateId(templateId) ? defaultTemplateFor(language, analysisMode).id : templateId,
+      bilingualLanguage: bilingualLanguage === language ? null : bilingualLanguage,
+    });
+  };
+
+  const handleSubjectChange = (index: number) => {
+    if (!subjectAnalysis || !rawAnalysisResult) return;
+    // Edits and refined fields of the person being left are kept with that person
+    const next = selectSubject(subjectAnalysis, applyFieldEdits(rawAnalysisResult, fieldEdits)!, translatedAnalysisResult, index);
+    const { result, translation } = selectedSubjectResult(next);
+    onContentStateChange(tabId, { subjectAnalysis: next, rawAnalysisResult: result, translatedAnalysisResult: translation, fieldEdits: {} });
+  };
+
+  const handleBilingualLanguageChange = (value: string) => {
+    onContentStateChange(tabId, { bilingualLanguage: isOutputLanguage(value) ? value : null });
+  };
+
+  const handleRestoreHistoryEntry = (entry: AnalysisHistoryEntry) => {
+    // Bring back the settings of the run too, so a re-analysis repeats it
+    onContentStateChange(tabId, {
+      rawAnalysisResult: entry.result,
+      translatedAnalysisResult: entry.translatedResult,
+      fieldEdits: {},
+      subjectAnalysis: null, // History keeps the result that was shown, not the other people
+      outputReport: null,
+      cachedAt: null,
+      selectedOptions: entry.selectedOptions,
+      otherAnalysisText: entry.otherAnalysisText,
+      outputLanguage: entry.outputLanguage,
+      bilingualLanguage: entry.bilingualLanguage,
+      analysisMode: entry.analysisMode || 'describe',
+      templateId: isDefaultTemplateId(templateId)
+        ? defaultTemplateFor(entry.outputLanguage, entry.analysisMode || 'describe').id
+        : templateId,
+      error: null,
+      errorKind: null,
+    });
+  };
+
+  const handleToggleHistoryPin = (entryId: string) => {
+    onContentStateChange(tabId, { analysisHistory: toggleHistoryPin(analysisHistory, entryId) });
+  };
+
+  const handleDeleteHistoryEntry = (entryId: string) => {
+    onContentStateChange(tabId, { analysisHistory: removeHistoryEntry(analysisHistory, entryId) });
+  };
+
+  const handleFieldEdit = (schemaKey: string, value: string) => {
+    onContentStateChange(tabId, { fieldEdits: setFieldEdit(fieldEdits, rawAnalysisResult, schemaKey, value) });
+  };
+
+  const handleFieldReset = (schemaKey: string) => {
+    onContentStateChange(tabId, { fieldEdits: setFieldEdit(fieldEdits, rawAnalysisResult, schemaKey, rawAnalysisResult?.[schemaKey] || '') });
+  };
+
+  // Redoes one field and merges it into the current result; failures are thrown for the field card to show
+  const handleRefineField = async (schemaKey: string, mode: FieldRefineMode, instruction: string) => {
+    const category = categories.find((item) => item.schemaKey === schemaKey);
+    if (!uploadedImage || !rawAnalysisResult || !category) return;
+
+    const model = activeModelName(loadSettings());
+    // A per-person field of a multi-person analysis is redone for the person shown, not the whole image
+    const subject = subjectAnalysis && isSubjectCategory(category) ? subjectAnalysis.subjects[subjectAnalysis.selectedIndex] : null;
+    const runToken = analysisRunToken(tabId);
+    const response = await refineAnalysisField(
+      uploadedImage,
+      category,
+      { mode, currentText: applyFieldEdits(rawAnalysisResult, fieldEdits)?.[schemaKey] || '', instruction, subjectLabel: subject?.label ?? null },
+      otherAnalysisText,
+      categories,
+      outputLanguage,
+      bilingualLanguage,
+      activeReferenceImage,
+    );
+    const { result, translation } = splitTranslatedResult(response);
+    const isRunUnchanged = analysisRunToken(tabId) === runToken;
+    // Merged into the tab as it is now: the refined field only belongs to the result and image it was asked about,
+    // so the reply is dropped if an analysis, a restored history entry, another person, a merge or a new image replaced them
+    onContentStateChange(tabId, (current) => {
+      if (!isRunUnchanged || current.uploadedImage !== uploadedImage || current.rawAnalysisResult !== rawAnalysisResult) {
+        return {};
+      }
+      const refinedResult = { ...current.rawAnalysisResult, [schemaKey]: result[schemaKey] };
+      const refinedTranslation = translation
+        ? { ...current.translatedAnalysisResult, [schemaKey]: translation[schemaKey] }
+        : current.translatedAnalysisResult;
+      // Records the settings the field was redone with
+      const entry = createHistoryEntry({
+        selectedOptions,
+        otherAnalysisText,
+        isDetailed: mode === 'detailed',
+        model,
+        outputLanguage,
+        bilingualLanguage,
+        result: refinedResult,
+        translatedResult: refinedTranslation,
+        refinedField: schemaKey,
+        analysisMode,
+      });
+      return {
+        rawAnalysisResult: refinedResult,
+        translatedAnalysisResult: refinedTranslation,
+        // The new model output replaces any edit of this field
+        fieldEdits: setFieldEdit(current.fieldEdits, refinedResult, schemaKey, refinedResult[schemaKey] || ''),
+        analysisHistory: addHistoryEntry(current.analysisHistory, entry),
+      };
+    });
+  };
+
+  const handleOpenComparison = (entryIds: string[]) => {
+    if (entryIds.length === 2) {
+      setComparison({ leftId: `${tabId}:${entryIds[0]}`, rightId: `${tabId}:${entryIds[1]}` });
+      return;
+    }
+    // By default compare this tab's latest result with the one before it, or with another tab's result
+    const own = comparisonSources.filter((source) => source.tabId === tabId);
+    const right = own[0] || comparisonSources[0];
+    const left = own[1] || comparisonSources.find((source) => source.id !== right?.id);
+    if (left && right) setComparison({ leftId: left.id, rightId: right.id });
+  };
+
+  const handleApplyMergedResult = (merged: ImageAnalysisResult) => {
+    onContentStateChange(tabId, {
+      rawAnalysisResult: merged,
+      translatedAnalysisResult: null,
+      fieldEdits: {},
+      subjectAnalysis: null,
+      outputReport: null,
+      cachedAt: null,
+      // Select exactly the categories the merged fields belong to, so every picked field reaches the prompt
+      selectedOptions: categories.filter((category) => !!merged[category.schemaKey]).map((category) => category.id),
+      error: null,
+      errorKind: null,
+    });
+    setComparison(null);
+  };
+
   const showOtherAnalysisInput = selectedOptions.includes(AnalysisOption.OTHER);
 
   return (
@@ -76,52 +402,215 @@ const TabContent: React.FC<TabContentProps> = ({ tabId, contentState, onContentS
           <svg className="h-5 w-5 mr-2" fill="currentColor" viewBox="0 0 20 20">
             <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm-7-9a1 1 0 112 0 1 1 0 01-2 0zm5-3a1 1 0 112 0 1 1 0 01-2 0zM7 9a1 1 0 112 0 1 1 0 01-2 0zm5 3a1 1 0 112 0 1 1 0 01-2 0z" clipRule="evenodd" />
           </svg>
-          <p>{error}</p>
+          <div className="flex-grow">
+            <p>{error}</p>
+            {errorKind && <p className="text-sm text-red-100 mt-1">{t(ERROR_GUIDANCE[errorKind])}</p>}
+          </div>
+          {errorKind && (
+            <button
+              onClick={() => handleAnalyze(lastRequestDetailedRef.current)}
+              disabled={isLoading}
+              className="ml-3 shrink-0 px-3 py-1 text-sm bg-white/20 hover:bg-white/30 disabled:cursor-not-allowed text-white rounded-md transition-colors duration-200"
+            >
+              {t('tabContent.retry')}
+            </button>
+          )}
+        </div>
+      )}
+      {isLoading && pendingRetry && (
+        <div className="bg-yellow-800 text-white p-3 rounded-md mb-4 text-sm" role="status">
+          {t('tabContent.retrying', {
+            seconds: Math.ceil(pendingRetry.delayMs / 1000),
+            retry: pendingRetry.retry,
+            maxRetries: DEFAULT_RETRY_POLICY.maxRetries,
+          })}
         </div>
       )}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6 flex-grow min-h-0">
         <div className="flex flex-col space-y-4">
+          <div className="p-4 bg-gray-800 rounded-lg shadow-md">
+            <label htmlFor={`analysis-mode-${tabId}`} className="block text-sm font-medium text-gray-100 mb-2">
+              {t('tabContent.analysisMode')}
+            </label>
+            <select
+              id={`analysis-mode-${tabId}`}
+              className="w-full p-2 border border-gray-600 rounded-md bg-gray-700 text-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+              value={analysisMode}
+              onChange={(e) => handleAnalysisModeChange(e.target.value as AnalysisMode)}
+              disabled={isLoading}
+            >
+              <option value="describe">{t('tabContent.modeDescribe')}</option>
+              <option value="transfer">{t('tabContent.modeTransfer')}</option>
+            </select>
+            {isTransferMode && <p className="mt-2 text-xs text-gray-400">{t('tabContent.modeTransferHint')}</p>}
+          </div>
+          {isTransferMode && (
+            <ImageUploader
+              onImageUpload={handleReferenceImageUpload}
+              imagePreview={referenceImage}
+              imageInfo={referenceImageInfo}
+              imageEdit={referenceImageEdit}
+              onImageEdit={handleReferenceImageEdit}
+              isLoading={isLoading}
+              onSetError={handleSetError}
+              onDeleteImage={handleDeleteReferenceImage}
+              idPrefix="reference-image"
+              title={t('tabContent.referenceImage')}
+            />
+          )}
           <ImageUploader
             onImageUpload={handleImageUpload}
             imagePreview={uploadedImage}
+            imageInfo={uploadedImageInfo}
+            imageEdit={uploadedImageEdit}
+            onImageEdit={handleImageEdit}
             isLoading={isLoading}
             onSetError={handleSetError} // Pass error setter
             onDeleteImage={handleDeleteImage} // Pass delete handler
+            onExtraImages={onAddImageTabs} // The first image stays here, the others get tabs of their own
+            title={isTransferMode ? t('tabContent.targetImage') : undefined}
+            previewOverlay={<RegionOverlay regions={regions} isDrawing={isDrawingRegion} onRegionDrawn={handleRegionDrawn} />}
           />
+          {uploadedImage && (
+            <RegionPanel
+              regions={regions}
+              isDrawing={isDrawingRegion}
+              isLoading={isLoading}
+              analyzingRegionIds={analyzingRegionIds}
+              onToggleDrawing={() => setIsDrawingRegion((prev) => !prev)}
+              onLabelChange={handleRegionLabelChange}
+              onAnalyze={handleAnalyzeRegion}
+              onAnalyzeAll={handleAnalyzeAllRegions}
+              onDelete={handleDeleteRegion}
+            />
+          )}
           <AnalysisOptions
             selectedOptions={selectedOptions}
             onOptionChange={handleOptionChange}
             onAnalyze={() => handleAnalyze(false)} // Original analyze call (not detailed)
             isLoading={isLoading}
             imageUploaded={!!uploadedImage}
+            categories={categories}
+            onCategoriesChange={onCategoriesChange}
           />
+          <div className="p-4 bg-gray-800 rounded-lg shadow-md grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor={`output-language-${tabId}`} className="block text-sm font-medium text-gray-100 mb-2">
+                {t('tabContent.outputLanguage')}
+              </label>
+              <select
+                id={`output-language-${tabId}`}
+                className="w-full p-2 border border-gray-600 rounded-md bg-gray-700 text-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                value={outputLanguage}
+                onChange={(e) => handleOutputLanguageChange(e.target.value as OutputLanguage)}
+                disabled={isLoading}
+              >
+                {OUTPUT_LANGUAGES.map((language) => (
+                  <option key={language.id} value={language.id}>
+                    {language.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor={`bilingual-language-${tabId}`} className="block text-sm font-medium text-gray-100 mb-2">
+                {t('tabContent.bilingual')}
+              </label>
+              <select
+                id={`bilingual-language-${tabId}`}
+                className="w-full p-2 border border-gray-600 rounded-md bg-gray-700 text-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                value={bilingualLanguage || ''}
+                onChange={(e) => handleBilingualLanguageChange(e.target.value)}
+                disabled={isLoading}
+              >
+                <option value="">{t('tabContent.bilingualOff')}</option>
+                {OUTPUT_LANGUAGES.filter((language) => language.id !== outputLanguage).map((language) => (
+                  <option key={language.id} value={language.id}>
+                    {language.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="p-4 bg-gray-800 rounded-lg shadow-md">
+            <label className="flex items-center gap-2 text-sm text-gray-100 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={detectSubjects}
+                onChange={(e) => onContentStateChange(tabId, { detectSubjects: e.target.checked })}
+                disabled={isLoading}
+              />
+              {t('tabContent.detectSubjects')}
+            </label>
+            <p className="mt-1 text-xs text-gray-400">{t('tabContent.detectSubjectsHint')}</p>
+          </div>
           {showOtherAnalysisInput && (
             <div className="p-4 bg-gray-800 rounded-lg shadow-md">
               <label htmlFor="other-analysis-text" className="block text-sm font-medium text-gray-100 mb-2">
-                其他分析內容
+                {t('tabContent.otherText')}
               </label>
               <textarea
                 id="other-analysis-text"
                 className="w-full p-2 border border-gray-600 rounded-md bg-gray-700 text-gray-50 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm resize-y custom-scrollbar"
                 rows={3}
-                placeholder="請輸入您想要模型分析的特定內容..."
+                placeholder={t('tabContent.otherTextPlaceholder')}
                 value={otherAnalysisText}
                 onChange={handleOtherAnalysisTextChange}
                 disabled={isLoading}
-                aria-label="自定義分析內容輸入框"
+                aria-label={t('tabContent.otherTextAria')}
               ></textarea>
             </div>
           )}
+          <AnalysisHistoryPanel
+            history={analysisHistory}
+            categories={categories}
+            isLoading={isLoading}
+            canCompare={comparisonSources.length >= 2}
+            onRestore={handleRestoreHistoryEntry}
+            onTogglePin={handleToggleHistoryPin}
+            onDelete={handleDeleteHistoryEntry}
+            onCompare={handleOpenComparison}
+          />
         </div>
         <PromptOutput
           rawAnalysisResult={rawAnalysisResult} // Pass structured analysis result
+          fieldEdits={fieldEdits}
+          onFieldEdit={handleFieldEdit}
+          onFieldReset={handleFieldReset}
+          onFieldRefine={handleRefineField}
           isLoading={isLoading}
           error={error} // Pass error down to PromptOutput
           selectedOptions={selectedOptions} // Pass selected options
           otherAnalysisText={otherAnalysisText} // Pass other analysis text (for context if needed)
           onRefineDetailRequest={handleRefineDetailRequest} // Pass the new detailed request handler
+          onCancelAnalysis={handleCancelAnalysis}
+          templates={templates}
+          templateId={templateId}
+          onTemplateChange={handleTemplateChange}
+          onTemplatesChange={onTemplatesChange}
+          categories={categories}
+          outputLanguage={outputLanguage}
+          bilingualLanguage={bilingualLanguage}
+          translatedAnalysisResult={translatedAnalysisResult}
+          analysisMode={analysisMode}
+          regions={regions}
+          subjectAnalysis={subjectAnalysis}
+          onSubjectChange={handleSubjectChange}
+          outputReport={outputReport}
+          cachedAt={cachedAt}
+          onForceRefresh={() => handleAnalyze(lastRequestDetailedRef.current, true)}
         />
       </div>
+      {comparison && (
+        <ResultComparisonModal
+          sources={comparisonSources}
+          initialLeftId={comparison.leftId}
+          initialRightId={comparison.rightId}
+          categories={categories}
+          onApply={handleApplyMergedResult}
+          onClose={() => setComparison(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,74 @@
+import React from 'react';
+import { TabGroup } from '../types';
+import ContextMenu, { ContextMenuItem, ContextMenuSeparator } from './ContextMenu';
+import { TAB_GROUP_COLOR_CLASSES } from './TabGroupMenu';
+import { t } from '../services/i18n';
+
+interface TabContextMenuProps {
+  x: number;
+  y: number;
+  tabCount: number; // How many tabs the actions apply to: the right-clicked one, or the selection it belongs to
+  groups: TabGroup[];
+  currentGroupId: string | null; // The group all the tabs are in, if they share one
+  onRename?: () => void; // Only offered for a single tab
+  onDuplicate: () => void;
+  onNewGroup: () => void;
+  onMoveToGroup: (groupId: string) => void;
+  onRemoveFromGroup?: () => void; // Only offered when some of the tabs are grouped
+  onReanalyze: () => void;
+  onExport: () => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+const TabContextMenu: React.FC<TabContextMenuProps> = ({
+  x,
+  y,
+  tabCount,
+  groups,
+  currentGroupId,
+  onRename,
+  onDuplicate,
+  onNewGroup,
+  onMoveToGroup,
+  onRemoveFromGroup,
+  onReanalyze,
+  onExport,
+  onDelete,
+  onClose,
+}) => {
+  // Every action closes the menu first
+  const select = (action: () => void) => () => {
+    onClose();
+    action();
+  };
+  const otherGroups = groups.filter((group) => group.id !== currentGroupId);
+
+  return (
+    <ContextMenu x={x} y={y} label={t('tabMenu.label', { count: tabCount })} onClose={onClose}>
+      {tabCount > 1 && <p className="px-3 py-1 text-xs text-gray-400">{t('tabs.selectedCount', { count: tabCount })}</p>}
+      {onRename && <ContextMenuItem onClick={select(onRename)}>{t('tabMenu.rename')}</ContextMenuItem>}
+      <ContextMenuItem onClick={select(onDuplicate)}>{t('tabMenu.duplicate')}</ContextMenuItem>
+      <ContextMenuSeparator />
+      <ContextMenuItem onClick={select(onNewGroup)}>{t('tabMenu.newGroup')}</ContextMenuItem>
+      {otherGroups.map((group) => (
+        <ContextMenuItem key={group.id} onClick={select(() => onMoveToGroup(group.id))}>
+          <span className="flex items-center gap-2">
+            <span className={`inline-block h-2.5 w-2.5 rounded-full ${TAB_GROUP_COLOR_CLASSES[group.color]}`} aria-hidden="true" />
+            {t('tabMenu.moveToGroup', { name: group.name })}
+          </span>
+        </ContextMenuItem>
+      ))}
+      {onRemoveFromGroup && <ContextMenuItem onClick={select(onRemoveFromGroup)}>{t('tabMenu.removeFromGroup')}</ContextMenuItem>}
+      <ContextMenuSeparator />
+      <ContextMenuItem onClick={select(onReanalyze)}>{t('tabMenu.reanalyze')}</ContextMenuItem>
+      <ContextMenuItem onClick={select(onExport)}>{t('tabMenu.export')}</ContextMenuItem>
+      <ContextMenuSeparator />
+      <ContextMenuItem onClick={select(onDelete)} isDanger>
+        {t('tabMenu.delete')}
+      </ContextMenuItem>
+    </ContextMenu>
+  );
+};
+
+export default TabContextMenu;
@@ -0,0 +1,94 @@
+import React from 'react';
+import { TabGroup, TabGroupColor } from '../types';
+import ContextMenu, { ContextMenuItem, ContextMenuSeparator } from './ContextMenu';
+import { TAB_GROUP_COLORS } from '../services/tabGroupService';
+import { t } from '../services/i18n';
+import { MessageKey } from '../locales/zh-TW';
+
+// Spelled out in full so Tailwind keeps the classes
+export const TAB_GROUP_COLOR_CLASSES: Record<TabGroupColor, string> = {
+  blue: 'bg-blue-500',
+  green: 'bg-green-500',
+  yellow: 'bg-yellow-500',
+  red: 'bg-red-500',
+  purple: 'bg-purple-500',
+  gray: 'bg-gray-500',
+};
+
+const COLOR_LABEL_KEYS: Record<TabGroupColor, MessageKey> = {
+  blue: 'tabGroups.color.blue',
+  green: 'tabGroups.color.green',
+  yellow: 'tabGroups.color.yellow',
+  red: 'tabGroups.color.red',
+  purple: 'tabGroups.color.purple',
+  gray: 'tabGroups.color.gray',
+};
+
+interface TabGroupMenuProps {
+  x: number;
+  y: number;
+  group: TabGroup;
+  onUpdate: (changes: Partial<Omit<TabGroup, 'id'>>) => void;
+  onUngroup: () => void;
+  onClose: () => void;
+}
+
+const TabGroupMenu: React.FC<TabGroupMenuProps> = ({ x, y, group, onUpdate, onUngroup, onClose }) => {
+  const [name, setName] = React.useState(group.name);
+
+  // Renames as you type, so closing the menu in any way keeps the name; an emptied name keeps the last one
+  const handleNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setName(e.target.value);
+    if (e.target.value.trim()) {
+      onUpdate({ name: e.target.value.trim() });
+    }
+  };
+
+  return (
+    <ContextMenu x={x} y={y} label={t('tabGroups.menuLabel', { name: group.name })} onClose={onClose}>
+      <div className="px-3 py-1.5">
+        <input
+          type="text"
+          value={name}
+          onChange={handleNameChange}
+          onKeyDown={(e) => e.key === 'Enter' && onClose()}
+          className="w-full p-1 bg-gray-700 border border-gray-600 rounded text-gray-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          aria-label={t('tabGroups.rename')}
+          autoFocus
+        />
+      </div>
+      <div className="flex items-center gap-1.5 px-3 py-1.5" role="group" aria-label={t('tabGroups.color')}>
+        {TAB_GROUP_COLORS.map((color) => (
+          <button
+            key={color}
+            onClick={() => onUpdate({ color })}
+            className={`h-5 w-5 rounded-full ${TAB_GROUP_COLOR_CLASSES[color]}
+                        ${group.color === color ? 'ring-2 ring-offset-2 ring-offset-gray-800 ring-white' : 'hover:opacity-80'}`}
+            title={t(COLOR_LABEL_KEYS[color])}
+            aria-label={t(COLOR_LABEL_KEYS[color])}
+            aria-pressed={group.color === color}
+          />
+        ))}
+      </div>
+      <ContextMenuSeparator />
+      <ContextMenuItem
+        onClick={() => {
+          onClose();
+          onUpdate({ collapsed: !group.collapsed });
+        }}
+      >
+        {group.collapsed ? t('tabGroups.expand') : t('tabGroups.collapse')}
+      </ContextMenuItem>
+      <ContextMenuItem
+        onClick={() => {
+          onClose();
+          onUngroup();
+        }}
+      >
+        {t('tabGroups.ungroup')}
+      </ContextMenuItem>
+    </ContextMenu>
+  );
+};
+
+export default TabGroupMenu;
@@ -1,30 +1,134 @@
 import React from 'react';
-import { Tab, AnalysisOption, TabContentState } from '../types';
+import { Tab, TabGroup, AnalysisCategory, TabContentStateUpdate, PromptTemplate } from '../types';
 import DraggableTab from './DraggableTab';
 import TabContent from './TabContent';
+import TabContextMenu from './TabContextMenu';
+import TabGroupMenu, { TAB_GROUP_COLOR_CLASSES } from './TabGroupMenu';
+import { t } from '../services/i18n';
+import { AppError, errorMessage } from '../services/appError';
+import { collectImageFilesFromDataTransfer } from '../services/imageFileService';
+import { PreprocessedImage, preprocessImageFiles } from '../services/imagePreprocessService';
+import { loadSettings } from '../services/settingsService';
+import { tabIdRange } from '../services/tabGroupService';
 
 interface TabbedInterfaceProps {
   tabs: Tab[];
+  tabGroups: TabGroup[];
   activeTabId: string;
   addTab: () => void;
+  addImageTabs: (images: PreprocessedImage[], activate: boolean) => void;
+  loadImageIntoTab: (id: string, image: PreprocessedImage) => void;
   setActiveTab: (id: string) => void;
   renameTab: (id: string, newName: string) => void;
-  deleteTab: (id: string) => void;
+  deleteTabs: (ids: string[]) => void;
+  duplicateTabs: (ids: string[]) => void;
   reorderTabs: (startIndex: number, endIndex: number) => void;
-  onTabContentStateChange: (tabId: string, newState: Partial<TabContentState>) => void;
+  groupTabs: (ids: string[]) => void;
+  moveTabsToGroup: (ids: string[], groupId: string | null) => void;
+  updateTabGroup: (id: string, changes: Partial<Omit<TabGroup, 'id'>>) => void;
+  ungroupTabs: (groupId: string) => void;
+  reanalyzeTabs: (ids: string[]) => void;
+  exportTabs: (ids: string[]) => void;
+  onTabContentStateChange: (tabId: string, newState: TabContentStateUpdate) => void;
+  templates: PromptTemplate[];
+  onTemplatesChange: (templates: PromptTemplate[]) => void;
+  categories: AnalysisCategory[];
+  onCategoriesChange: (categories: AnalysisCategory[]) => void;
 }
 
+const NEW_TABS_DROP_TARGET = 'new-tabs';
+
+interface MenuPosition {
+  id: string; // The right-clicked tab or group
+  x: number;
+  y: number;
+}
+
+// Files dragged in from outside, as opposed to a tab being dragged to a new position
+const isFileDrag = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
 const TabbedInterface: React.FC<TabbedInterfaceProps> = ({
   tabs,
+  tabGroups,
   activeTabId,
   addTab,
+  addImageTabs,
+  loadImageIntoTab,
   setActiveTab,
   renameTab,
-  deleteTab,
+  deleteTabs,
+  duplicateTabs,
   reorderTabs,
+  groupTabs,
+  moveTabsToGroup,
+  updateTabGroup,
+  ungroupTabs,
+  reanalyzeTabs,
+  exportTabs,
   onTabContentStateChange,
+  templates,
+  onTemplatesChange,
+  categories,
+  onCategoriesChange,
 }) => {
   const [draggingTabId, setDraggingTabId] = React.useState<string | null>(null);
+  // Where dragged image files would land: a tab's ID, or NEW_TABS_DROP_TARGET for the "+" button and the empty bar
+  const [fileDropTarget, setFileDropTarget] = React.useState<string | null>(null);
+  const [isImportingImages, setIsImportingImages] = React.useState(false);
+  const [dropError, setDropError] = React.useState<string | null>(null);
+  // Tabs picked with ctrl/cmd- or shift-click for bulk actions; the active tab joins once a second one is picked
+  const [selectedTabIds, setSelectedTabIds] = React.useState<string[]>([]);
+  const selectionAnchorRef = React.useRef<string | null>(null); // Where a shift-click range starts
+  const [tabMenu, setTabMenu] = React.useState<MenuPosition | null>(null);
+  const [groupMenu, setGroupMenu] = React.useState<MenuPosition | null>(null);
+  const [renameRequestId, setRenameRequestId] = React.useState<string | null>(null);
+
+  const groupsById = new Map<string, TabGroup>(tabGroups.map((group) => [group.id, group]));
+  // A collapsed group still shows its active tab
+  const visibleTabs = tabs.filter((tab) => !(tab.groupId && groupsById.get(tab.groupId)?.collapsed && tab.id !== activeTabId));
+  // Tabs closed in the meantime drop out of the selection
+  const selection = selectedTabIds.filter((id) => tabs.some((tab) => tab.id === id));
+
+  const handleTabClick = (e: React.MouseEvent<HTMLButtonElement>, id: string) => {
+    if (e.shiftKey) {
+      setSelectedTabIds(tabIdRange(visibleTabs, selectionAnchorRef.current ?? activeTabId, id));
+      return;
+    }
+    selectionAnchorRef.current = id;
+    if (e.ctrlKey || e.metaKey) {
+      const base = selection.length > 0 ? selection : [activeTabId];
+      setSelectedTabIds(base.includes(id) ? base.filter((entry) => entry !== id) : [...base, id]);
+      return;
+    }
+    setSelectedTabIds([]);
+    setActiveTab(id);
+  };
+
+  const handleTabContextMenu = (e: React.MouseEvent<HTMLButtonElement>, id: string) => {
+    e.preventDefault();
+    setGroupMenu(null);
+    setTabMenu({ id, x: e.clientX, y: e.clientY });
+  };
+
+  const handleGroupContextMenu = (e: React.MouseEvent<HTMLButtonElement>, id: string) => {
+    e.preventDefault();
+    setTabMenu(null);
+    setGroupMenu({ id, x: e.clientX, y: e.clientY });
+  };
+
+  const closeTabMenu = React.useCallback(() => setTabMenu(null), []);
+  const closeGroupMenu = React.useCallback(() => setGroupMenu(null), []);
+  const handleRenameRequestHandled = React.useCallback(() => setRenameRequestId(null), []);
+
+  const deleteSelectedTabs = (ids: string[]) => {
+    deleteTabs(ids);
+    setSelectedTabIds([]);
+  };
+
+  const groupSelectedTabs = (ids: string[]) => {
+    groupTabs(ids);
+    setSelectedTabIds([]);
+  };
 
   const handleDragStart = (e: React.DragEvent<HTMLButtonElement>, id: string) => {
     setDraggingTabId(id);
@@ -32,13 +136,24 @@ const TabbedInterface: React.FC<TabbedInterfaceProps> = ({
     e.dataTransfer.setData('text/plain', id);
   };
 
-  const handleDragOver = (e: React.DragEvent<HTMLButtonElement>) => {
+  const handleDragOver = (e: React.DragEvent<HTMLButtonElement>, id: string) => {
     e.preventDefault(); // Allows drop
+    if (isFileDrag(e)) {
+      e.stopPropagation(); // The tab bar would otherwise offer new tabs
+      e.dataTransfer.dropEffect = isImportingImages ? 'none' : 'copy';
+      setFileDropTarget(id);
+      return;
+    }
     e.dataTransfer.dropEffect = 'move';
   };
 
   const handleDrop = (e: React.DragEvent<HTMLButtonElement>, targetId: string) => {
     e.preventDefault();
+    if (isFileDrag(e)) {
+      e.stopPropagation();
+      importDroppedImages(e.dataTransfer, targetId);
+      return;
+    }
     if (draggingTabId === null || draggingTabId === targetId) {
       setDraggingTabId(null);
       return;
@@ -53,33 +168,139 @@ const TabbedInterface: React.FC<TabbedInterfaceProps> = ({
     setDraggingTabId(null);
   };
 
+  // Image files dropped onto the bar itself or the "+" button; tab reorder drags are left alone
+  const handleBarDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = isImportingImages ? 'none' : 'copy';
+    setFileDropTarget(NEW_TABS_DROP_TARGET);
+  };
+
+  const handleBarDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    importDroppedImages(e.dataTransfer, null);
+  };
+
+  /**
+   * Opens dropped images: onto a tab, the first replaces that tab's image; onto the bar, each gets a new tab.
+   * Any images after the first one dropped onto a tab get new tabs as well.
+   */
+  const importDroppedImages = async (dataTransfer: DataTransfer, targetId: string | null) => {
+    setFileDropTarget(null);
+    if (isImportingImages) return;
+    setDropError(null);
+    if (targetId && tabs.find((tab) => tab.id === targetId)?.contentState.isLoading) {
+      setDropError(t('error.tabBusy'));
+      return;
+    }
+    setIsImportingImages(true);
+    try {
+      const files = await collectImageFilesFromDataTransfer(dataTransfer);
+      if (files.length === 0) {
+        throw new AppError('error.noImageFiles');
+      }
+      const images = await preprocessImageFiles(files, loadSettings().imageProcessing);
+      if (targetId) {
+        const [first, ...rest] = images;
+        loadImageIntoTab(targetId, first);
+        if (rest.length > 0) addImageTabs(rest, false);
+      } else {
+        addImageTabs(images, true);
+      }
+    } catch (e: any) {
+      setDropError(errorMessage(e, 'error.dropFailed'));
+    } finally {
+      setIsImportingImages(false);
+    }
+  };
+
   const currentTab = tabs.find((tab) => tab.id === activeTabId);
 
+  // The context menu acts on the whole selection when the right-clicked tab is part of it
+  const menuTabIds = tabMenu ? (selection.includes(tabMenu.id) ? selection : [tabMenu.id]) : [];
+  const menuTabs = tabs.filter((tab) => menuTabIds.includes(tab.id));
+  const menuGroupIds = new Set(menuTabs.map((tab) => tab.groupId));
+  const menuGroup = groupMenu ? groupsById.get(groupMenu.id) : undefined;
+
+  const renderGroupHeader = (group: TabGroup) => {
+    const count = tabs.filter((tab) => tab.groupId === group.id).length;
+    return (
+      <button
+        onClick={() => updateTabGroup(group.id, { collapsed: !group.collapsed })}
+        onContextMenu={(e) => handleGroupContextMenu(e, group.id)}
+        className={`self-center ml-2 mr-1 px-2 py-0.5 rounded-full text-xs font-semibold text-white flex items-center gap-1 shrink-0
+                    hover:opacity-90 transition-opacity duration-200 ${TAB_GROUP_COLOR_CLASSES[group.color]}`}
+        title={t('tabGroups.headerTitle')}
+        aria-expanded={!group.collapsed}
+        aria-label={t(group.collapsed ? 'tabGroups.expandAria' : 'tabGroups.collapseAria', { name: group.name, count })}
+      >
+        <span className="max-w-[100px] overflow-hidden text-ellipsis whitespace-nowrap">{group.name}</span>
+        <span className="opacity-80">{count}</span>
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className={`h-3 w-3 transition-transform duration-200 ${group.collapsed ? '-rotate-90' : ''}`}
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+          strokeWidth="3"
+          aria-hidden="true"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+    );
+  };
+
   return (
     <div className="flex flex-col flex-grow overflow-hidden">
-      <div className="flex flex-wrap items-end bg-gray-900 border-b border-gray-700 px-4 pt-4 sm:pt-0 sticky top-0 z-10" role="tablist">
+      <div
+        className={`flex flex-wrap items-end bg-gray-900 border-b border-gray-700 px-4 pt-4 sm:pt-0 sticky top-0 z-10
+                    ${fileDropTarget === NEW_TABS_DROP_TARGET ? 'bg-gray-800' : ''}`}
+        role="tablist"
+        onDragOver={handleBarDragOver}
+        onDragLeave={() => setFileDropTarget(null)}
+        onDrop={handleBarDrop}
+      >
         <div className="flex flex-wrap items-end overflow-x-auto custom-scrollbar flex-grow">
-          {tabs.map((tab) => (
-            <DraggableTab
-              key={tab.id}
-              tabId={tab.id}
-              tabName={tab.name}
-              isActive={tab.id === activeTabId}
-              onClick={() => setActiveTab(tab.id)}
-              onRename={renameTab} // Pass the renameTab function directly
-              onDelete={deleteTab}
-              onDragStart={handleDragStart}
-              onDragOver={handleDragOver}
-              onDrop={handleDrop}
-              isDragging={draggingTabId === tab.id}
-            />
-          ))}
+          {tabs.map((tab, index) => {
+            const group = tab.groupId ? groupsById.get(tab.groupId) : undefined;
+            // A group's tabs are kept side by side, so its header goes before the first of them
+            const startsGroup = group && tabs[index - 1]?.groupId !== group.id;
+            return (
+              <React.Fragment key={tab.id}>
+                {startsGroup && renderGroupHeader(group)}
+                {visibleTabs.includes(tab) && (
+                  <DraggableTab
+                    tabId={tab.id}
+                    tabName={tab.name}
+                    isActive={tab.id === activeTabId}
+                    isSelected={selection.includes(tab.id)}
+                    groupColorClass={group ? TAB_GROUP_COLOR_CLASSES[group.color] : null}
+                    isRenameRequested={renameRequestId === tab.id}
+                    onRenameRequestHandled={handleRenameRequestHandled}
+                    onClick={(e) => handleTabClick(e, tab.id)}
+                    onContextMenu={handleTabContextMenu}
+                    onRename={renameTab} // Pass the renameTab function directly
+                    onDelete={(id) => deleteTabs([id])}
+                    onDragStart={handleDragStart}
+                    onDragOver={handleDragOver}
+                    onDrop={handleDrop}
+                    isDragging={draggingTabId === tab.id}
+                    isFileDropTarget={fileDropTarget === tab.id}
+                  />
+                )}
+              </React.Fragment>
+            );
+          })}
         </div>
+        {isImportingImages && <span className="ml-2 mb-3 text-sm text-blue-400 shrink-0">{t('tabs.importingImages')}</span>}
         <button
           onClick={addTab}
-          className="ml-2 mb-2 p-2 bg-blue-600 hover:bg-blue-700 text-white rounded-full transition-colors duration-200 shrink-0"
-          title="新增頁籤"
-          aria-label="新增頁籤"
+          className={`ml-2 mb-2 p-2 bg-blue-600 hover:bg-blue-700 text-white rounded-full transition-colors duration-200 shrink-0
+                      ${fileDropTarget === NEW_TABS_DROP_TARGET ? 'ring-2 ring-blue-300' : ''}`}
+          title={t('tabs.addOrDrop')}
+          aria-label={t('tabs.add')}
         >
           <svg
             xmlns="http://www.w3.org/2000/svg"
@@ -94,13 +315,88 @@ const TabbedInterface: React.FC<TabbedInterfaceProps> = ({
         </button>
       </div>
 
+      {selection.length > 0 && (
+        <div
+          className="flex flex-wrap items-center gap-2 bg-gray-800 border-b border-gray-700 px-4 py-2 text-sm"
+          role="toolbar"
+          aria-label={t('tabs.bulkActions')}
+        >
+          <span className="mr-2 text-gray-300">{t('tabs.selectedCount', { count: selection.length })}</span>
+          <button onClick={() => reanalyzeTabs(selection)} className="px-3 py-1 rounded-md bg-blue-600 hover:bg-blue-700 text-white transition-colors duration-200">
+            {t('tabMenu.reanalyze')}
+          </button>
+          <button onClick={() => exportTabs(selection)} className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors duration-200">
+            {t('tabMenu.export')}
+          </button>
+          <button onClick={() => groupSelectedTabs(selection)} className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors duration-200">
+            {t('tabMenu.newGroup')}
+          </button>
+          <button onClick={() => deleteSelectedTabs(selection)} className="px-3 py-1 rounded-md bg-red-600 hover:bg-red-700 text-white transition-colors duration-200">
+            {t('tabMenu.delete')}
+          </button>
+          <button onClick={() => setSelectedTabIds([])} className="ml-auto px-3 py-1 rounded-md text-gray-300 hover:bg-gray-700 transition-colors duration-200">
+            {t('tabs.clearSelection')}
+          </button>
+        </div>
+      )}
+
+      {tabMenu && menuTabs.length > 0 && (
+        <TabContextMenu
+          x={tabMenu.x}
+          y={tabMenu.y}
+          tabCount={menuTabIds.length}
+          groups={tabGroups}
+          currentGroupId={menuGroupIds.size === 1 ? menuTabs[0].groupId : null}
+          onRename={menuTabIds.length === 1 ? () => setRenameRequestId(menuTabIds[0]) : undefined}
+          onDuplicate={() => duplicateTabs(menuTabIds)}
+          onNewGroup={() => groupSelectedTabs(menuTabIds)}
+          onMoveToGroup={(groupId) => moveTabsToGroup(menuTabIds, groupId)}
+          onRemoveFromGroup={menuTabs.some((tab) => tab.groupId !== null) ? () => moveTabsToGroup(menuTabIds, null) : undefined}
+          onReanalyze={() => reanalyzeTabs(menuTabIds)}
+          onExport={() => exportTabs(menuTabIds)}
+          onDelete={() => deleteSelectedTabs(menuTabIds)}
+          onClose={closeTabMenu}
+        />
+      )}
+
+      {groupMenu && menuGroup && (
+        <TabGroupMenu
+          key={menuGroup.id}
+          x={groupMenu.x}
+          y={groupMenu.y}
+          group={menuGroup}
+          onUpdate={(changes) => updateTabGroup(menuGroup.id, changes)}
+          onUngroup={() => ungroupTabs(menuGroup.id)}
+          onClose={closeGroupMenu}
+        />
+      )}
+
+      {dropError && (
+        <div className="bg-red-800 text-white text-sm px-4 py-2 flex items-center justify-between" role="alert">
+          <p>{dropError}</p>
+          <button
+            onClick={() => setDropError(null)}
+            className="ml-4 px-2 py-0.5 rounded hover:bg-red-700 transition-colors duration-200"
+            aria-label={t('tabs.dismissDropError')}
+          >
+            ✕
+          </button>
+        </div>
+      )}
+
       <div className="flex-grow overflow-y-auto custom-scrollbar">
         {currentTab && (
           <TabContent
             key={currentTab.id} // Key ensures remount on tab change
             tabId={currentTab.id}
+            tabs={tabs}
             contentState={currentTab.contentState}
             onContentStateChange={onTabContentStateChange}
+            onAddImageTabs={(images) => addImageTabs(images, false)}
+            templates={templates}
+            onTemplatesChange={onTemplatesChange}
+            categories={categories}
+            onCategoriesChange={onCategoriesChange}
           />
         )}
       </div>
@@ -0,0 +1,201 @@
+import React from 'react';
+import { AnalysisCategory, AnalysisCategoryId, ImageAnalysisResult, OutputLanguage, PromptTemplate } from '../types';
+import { templatePlaceholders, generateFullRefinePrompt } from '../services/promptBuilder';
+import { templateName } from '../services/templateService';
+import { t } from '../services/i18n';
+
+interface TemplateManagerModalProps {
+  templates: PromptTemplate[];
+  initialTemplateId: string;
+  previewResult: ImageAnalysisResult | null; // The current tab's result, used for the live preview when available
+  previewOptions: AnalysisCategoryId[];
+  categories: AnalysisCategory[];
+  previewLanguage: OutputLanguage; // Picks the category prefixes used in the preview
+  onTemplatesChange: (templates: PromptTemplate[]) => void;
+  onClose: () => void;
+}
+
+// Used for the preview when the tab has no analysis result yet; built per render so it follows the UI locale
+const buildSampleResult = (): ImageAnalysisResult => ({
+  characterAttire: t('templateManager.sample.characterAttire'),
+  characterPose: t('templateManager.sample.characterPose'),
+  characterExpression: t('templateManager.sample.characterExpression'),
+  photoBackground: t('templateManager.sample.photoBackground'),
+  cameraAngle: t('templateManager.sample.cameraAngle'),
+});
+
+const inputClassName = 'w-full p-2 border border-gray-600 rounded-md bg-gray-700 text-gray-50 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm disabled:opacity-60';
+
+const TemplateManagerModal: React.FC<TemplateManagerModalProps> = ({
+  templates,
+  initialTemplateId,
+  previewResult,
+  previewOptions,
+  categories,
+  previewLanguage,
+  onTemplatesChange,
+  onClose,
+}) => {
+  const [selectedId, setSelectedId] = React.useState(initialTemplateId);
+  const selectedTemplate = templates.find((template) => template.id === selectedId) || templates[0];
+  const [draft, setDraft] = React.useState<PromptTemplate>(selectedTemplate);
+
+  // Load the selected template into the editor whenever the selection changes
+  React.useEffect(() => {
+    setDraft(selectedTemplate);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedId]);
+
+  // Helper to generate unique IDs
+  const generateUniqueId = () => `template-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+  const isDirty =
+    draft.name !== selectedTemplate.name || draft.body !== selectedTemplate.body || draft.separator !== selectedTemplate.separator;
+
+  const handleCreate = (base?: PromptTemplate) => {
+    const newTemplate: PromptTemplate = {
+      id: generateUniqueId(),
+      name: base ? t('templateManager.copyName', { name: templateName(base) }) : t('templateManager.newName'),
+      body: base ? base.body : '{all}',
+      separator: base ? base.separator : '。',
+      isBuiltIn: false,
+    };
+    onTemplatesChange([...templates, newTemplate]);
+    setSelectedId(newTemplate.id);
+  };
+
+  const handleSave = () => {
+    if (selectedTemplate.isBuiltIn) return;
+    onTemplatesChange(
+      templates.map((template) =>
+        template.id === selectedTemplate.id ? { ...draft, name: draft.name.trim() || t('templateManager.untitled') } : template,
+      ),
+    );
+  };
+
+  const handleDelete = () => {
+    if (selectedTemplate.isBuiltIn) return;
+    onTemplatesChange(templates.filter((template) => template.id !== selectedTemplate.id));
+    setSelectedId(templates[0].id);
+  };
+
+  const preview = previewResult
+    ? generateFullRefinePrompt(previewResult, previewOptions, draft, categories, previewLanguage)
+    : generateFullRefinePrompt(buildSampleResult(), [], draft, categories, previewLanguage);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-75 p-4">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden" role="dialog" aria-modal="true" aria-labelledby="template-manager-title">
+        <div className="flex justify-between items-center p-4 border-b border-gray-700">
+          <h2 id="template-manager-title" className="text-xl font-semibold text-gray-100">{t('templateManager.title')}</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-100 transition-colors duration-200"
+            aria-label={t('templateManager.close')}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row flex-grow min-h-0 text-sm">
+          <div className="md:w-1/3 border-b md:border-b-0 md:border-r border-gray-700 p-3 flex flex-col gap-2 overflow-y-auto custom-scrollbar">
+            {templates.map((template) => (
+              <button
+                key={template.id}
+                onClick={() => setSelectedId(template.id)}
+                className={`text-left px-3 py-2 rounded-md transition-colors duration-200
+                           ${template.id === selectedTemplate.id ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+              >
+                {templateName(template)}
+                {template.isBuiltIn && <span className="ml-2 text-xs opacity-75">{t('common.builtIn')}</span>}
+              </button>
+            ))}
+            <button
+              onClick={() => handleCreate()}
+              className="px-3 py-2 rounded-md border border-dashed border-gray-600 text-gray-300 hover:border-blue-500 hover:text-white transition-colors duration-200"
+            >
+              {t('templateManager.new')}
+            </button>
+          </div>
+
+          <div className="md:w-2/3 p-4 space-y-3 overflow-y-auto custom-scrollbar">
+            {selectedTemplate.isBuiltIn && (
+              <p className="text-yellow-400">{t('templateManager.builtInReadOnly')}</p>
+            )}
+            <div>
+              <label htmlFor="template-name" className="block font-medium text-gray-100 mb-1">{t('templateManager.name')}</label>
+              <input
+                id="template-name"
+                type="text"
+                className={inputClassName}
+                value={selectedTemplate.isBuiltIn ? templateName(selectedTemplate) : draft.name}
+                onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+                disabled={selectedTemplate.isBuiltIn}
+              />
+            </div>
+            <div>
+              <label htmlFor="template-body" className="block font-medium text-gray-100 mb-1">{t('templateManager.body')}</label>
+              <textarea
+                id="template-body"
+                rows={6}
+                className={`${inputClassName} font-mono resize-y custom-scrollbar`}
+                value={draft.body}
+                onChange={(e) => setDraft((prev) => ({ ...prev, body: e.target.value }))}
+                disabled={selectedTemplate.isBuiltIn}
+              ></textarea>
+              <p className="mt-1 text-xs text-gray-400">
+                {t('templateManager.fields', { fields: templatePlaceholders(categories).map((name) => `{${name}}`).join(', ') })}
+                {t('templateManager.syntaxHelp')}
+              </p>
+            </div>
+            <div>
+              <label htmlFor="template-separator" className="block font-medium text-gray-100 mb-1">{t('templateManager.separator')}</label>
+              <input
+                id="template-separator"
+                type="text"
+                className={`${inputClassName} w-32`}
+                value={draft.separator}
+                onChange={(e) => setDraft((prev) => ({ ...prev, separator: e.target.value }))}
+                disabled={selectedTemplate.isBuiltIn}
+              />
+            </div>
+            <div>
+              <span className="block font-medium text-gray-100 mb-1">{t('templateManager.preview')}{previewResult ? t('templateManager.previewCurrent') : t('templateManager.previewSample')}</span>
+              <p className="p-3 bg-gray-900 rounded-md text-gray-200 whitespace-pre-wrap">{preview}</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-700">
+          <button
+            onClick={() => handleCreate(draft)}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded-md font-semibold transition-colors duration-200"
+          >
+            {t('templateManager.duplicate')}
+          </button>
+          {!selectedTemplate.isBuiltIn && (
+            <>
+              <button
+                onClick={handleDelete}
+                className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md font-semibold transition-colors duration-200"
+              >
+                {t('common.delete')}
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!isDirty}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-md font-semibold transition-colors duration-200"
+              >
+                {t('common.save')}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateManagerModal;
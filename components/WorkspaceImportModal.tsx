@@ -0,0 +1,141 @@
+import React from 'react';
+import { AnalysisCategory, PromptTemplate, Tab, TabGroup } from '../types';
+import { parseWorkspaceFile } from '../services/workspaceFileService';
+import { findCategoryConflicts } from '../services/categoryService';
+import { t } from '../services/i18n';
+import { AppError, errorMessage } from '../services/appError';
+
+export type WorkspaceImportMode = 'merge' | 'replace';
+
+interface WorkspaceImportModalProps {
+  categories: AnalysisCategory[]; // The current registry, to warn about imported categories that clash with it
+  onImport: (tabs: Tab[], templates: PromptTemplate[], categories: AnalysisCategory[], groups: TabGroup[], mode: WorkspaceImportMode) => void;
+  onClose: () => void;
+}
+
+const WorkspaceImportModal: React.FC<WorkspaceImportModalProps> = ({ categories, onImport, onClose }) => {
+  const [importedTabs, setImportedTabs] = React.useState<Tab[] | null>(null);
+  const [importedTemplates, setImportedTemplates] = React.useState<PromptTemplate[]>([]);
+  const [importedCategories, setImportedCategories] = React.useState<AnalysisCategory[]>([]);
+  const [importedGroups, setImportedGroups] = React.useState<TabGroup[]>([]);
+  const [skippedCount, setSkippedCount] = React.useState(0);
+  const [fileError, setFileError] = React.useState<string | null>(null);
+  const [isReading, setIsReading] = React.useState(false);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsReading(true);
+    setFileError(null);
+    setImportedTabs(null);
+    try {
+      const { tabs, templates, categories, groups, skippedCount } = parseWorkspaceFile(await file.text());
+      if (tabs.length === 0) {
+        throw new AppError('error.workspaceNoTabs');
+      }
+      setImportedTabs(tabs);
+      setImportedTemplates(templates);
+      setImportedCategories(categories);
+      setImportedGroups(groups);
+      setSkippedCount(skippedCount);
+    } catch (e: any) {
+      setFileError(errorMessage(e, 'error.workspaceReadFailed'));
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const conflictingCategories = findCategoryConflicts(categories, importedCategories);
+
+  const handleImport = (mode: WorkspaceImportMode) => {
+    if (!importedTabs) return;
+    onImport(importedTabs, importedTemplates, importedCategories, importedGroups, mode);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-75 p-4">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-md flex flex-col overflow-hidden" role="dialog" aria-modal="true" aria-labelledby="workspace-import-title">
+        <div className="flex justify-between items-center p-4 border-b border-gray-700">
+          <h2 id="workspace-import-title" className="text-xl font-semibold text-gray-100">{t('workspaceImport.title')}</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-100 transition-colors duration-200"
+            aria-label={t('workspaceImport.close')}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3 text-sm text-gray-300">
+          <label
+            htmlFor="workspace-file-input"
+            className={`block w-full text-center p-4 border-2 border-dashed rounded-lg transition-colors duration-200
+                       ${isReading ? 'bg-gray-700 cursor-not-allowed border-gray-600' : 'cursor-pointer hover:border-blue-500 hover:bg-gray-700 border-gray-600'}`}
+          >
+            <input
+              id="workspace-file-input"
+              type="file"
+              accept=".json,application/json"
+              onChange={handleFileChange}
+              className="hidden"
+              disabled={isReading}
+            />
+            {isReading ? t('workspaceImport.reading') : <span className="font-semibold text-blue-400">{t('workspaceImport.chooseFile')}</span>}
+          </label>
+
+          {fileError && (
+            <div className="bg-red-800 text-white p-2 rounded-md" role="alert">
+              {fileError}
+            </div>
+          )}
+
+          {importedTabs && (
+            <p>
+              {t('workspaceImport.found', { count: importedTabs.length })}
+              {skippedCount > 0 && <span className="text-yellow-400">{t('workspaceImport.skipped', { count: skippedCount })}</span>}
+              {t('workspaceImport.question')}
+            </p>
+          )}
+
+          {importedTabs && conflictingCategories.length > 0 && (
+            <p className="text-yellow-400" role="alert">
+              {t('workspaceImport.categoryConflicts', {
+                names: conflictingCategories.map((category) => category.label).join(t('common.listSeparator')),
+              })}
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded-md font-semibold transition-colors duration-200"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => handleImport('replace')}
+            disabled={!importedTabs}
+            className="px-4 py-2 bg-red-600 hover:bg-red-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-md font-semibold transition-colors duration-200"
+          >
+            {t('workspaceImport.replace')}
+          </button>
+          <button
+            onClick={() => handleImport('merge')}
+            disabled={!importedTabs}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-md font-semibold transition-colors duration-200"
+          >
+            {t('workspaceImport.merge')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkspaceImportModal;
@@ -0,0 +1,461 @@
+import { MessageKey } from './zh-TW';
+
+// English UI strings
+const en: Record<MessageKey, string> = {
+  // Shared
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.delete': 'Delete',
+  'common.close': 'Close',
+  'common.builtIn': 'Built-in',
+  'common.unknownError': 'Unknown error',
+  'common.networkError': 'Network error',
+  'common.loading': 'Loading...',
+  'common.processing': 'Processing...',
+  'common.listSeparator': ', ',
+
+  // App header and workspace
+  'app.title': 'AI Image Analyzer',
+  'app.batchMode': 'Batch mode',
+  'app.tabMode': 'Back to tabs',
+  'app.exportWorkspace': 'Export workspace',
+  'app.importWorkspace': 'Import workspace',
+  'app.settings': 'Settings',
+  'app.openSettings': 'Open settings',
+  'app.uiLanguage': 'Interface language',
+  'app.dismissStorageWarning': 'Dismiss storage warning',
+  'app.restoreFailed': 'Could not load saved tabs: {detail}',
+  'app.saveTemplatesFailed': 'Failed to save templates: {detail}',
+  'app.saveCategoriesFailed': 'Failed to save categories: {detail}',
+
+  // Tab bar
+  'tabs.defaultName': 'Tab {index}',
+  'tabs.add': 'New tab',
+  'tabs.addOrDrop': 'New tab; drop images here to open each in a new tab',
+  'tabs.importingImages': 'Adding images...',
+  'tabs.dismissDropError': 'Dismiss drop error',
+  'tabs.renameAria': 'Rename tab {name}',
+  'tabs.deleteAria': 'Delete tab {name}',
+  'tabs.copyName': '{name} (copy)',
+  'tabs.selectedCount': '{count} tabs selected',
+  'tabs.bulkActions': 'Actions for the selected tabs',
+  'tabs.clearSelection': 'Clear selection',
+
+  // Tab context menu
+  'tabMenu.label': 'Actions for {count} tab(s)',
+  'tabMenu.rename': 'Rename',
+  'tabMenu.duplicate': 'Duplicate',
+  'tabMenu.newGroup': 'Add to new group',
+  'tabMenu.moveToGroup': 'Move to "{name}"',
+  'tabMenu.removeFromGroup': 'Remove from group',
+  'tabMenu.reanalyze': 'Re-analyze',
+  'tabMenu.export': 'Export',
+  'tabMenu.delete': 'Delete',
+
+  // Tab groups
+  'tabGroups.defaultName': 'Group {index}',
+  'tabGroups.headerTitle': 'Click to collapse or expand; right-click to rename, recolor or ungroup',
+  'tabGroups.collapseAria': 'Collapse group {name} ({count} tabs)',
+  'tabGroups.expandAria': 'Expand group {name} ({count} tabs)',
+  'tabGroups.menuLabel': 'Group {name}',
+  'tabGroups.rename': 'Group name',
+  'tabGroups.color': 'Group color',
+  'tabGroups.color.blue': 'Blue',
+  'tabGroups.color.green': 'Green',
+  'tabGroups.color.yellow': 'Yellow',
+  'tabGroups.color.red': 'Red',
+  'tabGroups.color.purple': 'Purple',
+  'tabGroups.color.gray': 'Gray',
+  'tabGroups.collapse': 'Collapse',
+  'tabGroups.expand': 'Expand',
+  'tabGroups.ungroup': 'Ungroup',
+
+  // Analysis options
+  'analysisOptions.label': 'Choose analysis options',
+  'analysisOptions.aria': 'Image analysis options',
+  'analysisOptions.hint': 'Hold Ctrl/Cmd to select several options. With nothing selected, every option is analyzed.',
+  'analysisOptions.manageCategories': 'Manage categories',
+  'analysisOptions.manageCategoriesAria': 'Manage analysis categories',
+  'analysisOptions.analyze': 'Analyze image',
+  'analysisOptions.analyzing': 'Analyzing...',
+
+  // Built-in category labels, keyed by schema key
+  'category.characterAttire': 'Outfit',
+  'category.characterPose': 'Pose / movement',
+  'category.characterExpression': 'Expression',
+  'category.photoBackground': 'Photo background',
+  'category.cameraAngle': 'Camera angle',
+  'category.otherAnalysis': 'Other',
+
+  // Built-in template names, keyed by template ID
+  'template.builtin-default': 'Default (Chinese refine prompt)',
+  'template.builtin-default-en': 'Default (English refine prompt)',
+  'template.builtin-default-ja': 'Default (Japanese refine prompt)',
+  'template.builtin-transfer': 'Reference transfer (Chinese refine prompt)',
+  'template.builtin-transfer-en': 'Reference transfer (English refine prompt)',
+  'template.builtin-transfer-ja': 'Reference transfer (Japanese refine prompt)',
+
+  // Image uploader
+  'uploader.crop': 'Crop image',
+  'uploader.delete': 'Delete image',
+  'uploader.deleteAria': 'Delete uploaded image',
+  'uploader.previewAlt': 'Uploaded preview',
+  'uploader.uploaded': 'Image uploaded',
+  'uploader.originalImage': 'Original: {width} × {height}, {format}, {size}',
+  'uploader.processedImage': 'Sent to the model: {width} × {height}, {format}, {size}',
+  'uploader.unprocessed': 'Sent to the model unchanged (preprocessing is off)',
+  'uploader.edited': 'Cropped to {width} × {height}; the original is kept',
+  'uploader.restoreOriginal': 'Restore original',
+  'uploader.orientationApplied': 'Turned upright according to the photo\'s EXIF orientation',
+  'uploader.fileInputAria': 'Upload image file',
+  'uploader.clickToUpload': 'Click to upload an image',
+  'uploader.dropOrPaste': ', drag and drop, or paste an image (Ctrl+V)',
+  'uploader.clickToUploadMany': 'Click to choose several images',
+  'uploader.dropOrPasteMany': ', drop images or folders, or paste images (Ctrl+V)',
+  'uploader.supportedFormats': 'Supports JPG, PNG, GIF, WebP, BMP and SVG files, up to 10MB',
+  'uploader.folderInputAria': 'Upload image folder',
+  'uploader.chooseFolder': 'Choose folder',
+  'uploader.urlLabel': 'Image URL',
+  'uploader.urlPlaceholder': 'Or enter an image URL to load',
+  'uploader.urlInputAria': 'Image URL input',
+  'uploader.loadUrl': 'Load URL image',
+
+  // Image cropper
+  'cropper.title': 'Crop image',
+  'cropper.close': 'Close cropper',
+  'cropper.zoom': 'Zoom:',
+  'cropper.rotation': 'Rotation:',
+  'cropper.rotationAria': 'Rotate image',
+  'cropper.rotateLeft': 'Rotate left 90°',
+  'cropper.rotateRight': 'Rotate right 90°',
+  'cropper.flipHorizontal': 'Flip horizontally',
+  'cropper.flipVertical': 'Flip vertically',
+  'cropper.resetEdits': 'Reset rotation and flips',
+  'cropper.aspect': 'Aspect ratio:',
+  'cropper.freeAspect': 'Free',
+  'cropper.aspectAria': '{width} by {height} aspect ratio',
+  'cropper.sizeAria': '{name}: {width} by {height} pixels',
+  'cropper.deletePresetAria': 'Delete preset {name}',
+  'cropper.custom': 'Custom ratio or size:',
+  'cropper.customWidth': 'Width',
+  'cropper.customHeight': 'Height',
+  'cropper.exactSize': 'Exact pixel size',
+  'cropper.applyCustom': 'Apply',
+  'cropper.presetName': 'Preset name (optional)',
+  'cropper.savePreset': 'Save as preset',
+  'cropper.targetModel': 'Crop for a model\'s target resolution:',
+  'cropper.noTargetModel': 'No model',
+  'cropper.cropArea': 'Crop area:',
+  'cropper.cropSize': '{width} × {height} (ratio {ratio})',
+  'cropper.noCropArea': 'Select an area',
+  'cropper.scaledTo': '→ scaled to {width} × {height}',
+  'cropper.crop': 'Crop',
+  'cropper.cropping': 'Cropping...',
+  'cropper.confirmAria': 'Confirm crop',
+
+  // Tab content
+  'tabContent.outputLanguage': 'Output language',
+  'tabContent.bilingual': 'Bilingual view',
+  'tabContent.bilingualOff': 'Off',
+  'tabContent.otherText': 'Other analysis content',
+  'tabContent.otherTextPlaceholder': 'Describe what you want the model to analyze...',
+  'tabContent.otherTextAria': 'Custom analysis content',
+  'tabContent.analysisMode': 'Analysis mode',
+  'tabContent.modeDescribe': 'Describe image',
+  'tabContent.modeTransfer': 'Transfer from reference',
+  'tabContent.modeTransferHint': 'Compares the reference with the target and writes, for every selected category, an instruction that changes the target to match the reference.',
+  'tabContent.referenceImage': 'Reference image (source)',
+  'tabContent.targetImage': 'Target image (to be edited)',
+  'tabContent.detectSubjects': 'Describe each person separately',
+  'tabContent.detectSubjectsHint': 'Finds every person in the image first, then describes each one\'s attire, pose and expression on their own; background and camera angle are shared.',
+  'tabContent.retry': 'Retry',
+  'tabContent.retrying': 'The request failed temporarily; retrying in {seconds} s (retry {retry} of {maxRetries})...',
+
+  // Guidance shown under an analysis error, keyed by error kind
+  'errorGuidance.auth': 'Check the provider and API key in Settings, then press Retry.',
+  'errorGuidance.rateLimit': 'Still rate limited after several automatic retries. Wait a moment before retrying, or switch to another model in Settings.',
+  'errorGuidance.server': 'The AI service is temporarily unavailable and several automatic retries failed. Try again later.',
+  'errorGuidance.safetyBlocked': 'The model\'s safety filters refused this image or prompt. Try another image, fewer categories, or different "Other" text.',
+  'errorGuidance.invalidImage': 'The service could not read this image. Upload it again as PNG or JPEG, or crop it smaller first.',
+  'errorGuidance.network': 'The AI service could not be reached. Check your connection and the endpoint URL, then press Retry.',
+  'errorGuidance.parse': 'The model did not reply with the expected JSON. Retrying usually helps; if it keeps happening, use a model that supports JSON output.',
+
+  // Regions
+  'regions.title': 'Regions',
+  'regions.empty': 'No regions yet. Box one person in a group photo to analyze their attire, pose and expression on their own.',
+  'regions.add': 'Add region',
+  'regions.stopDrawing': 'Done',
+  'regions.drawHint': 'Drag on the image to draw a box.',
+  'regions.drawAria': 'Drag on the image to draw a region',
+  'regions.defaultLabel': 'Person {letter}',
+  'regions.unnamed': 'Unnamed region',
+  'regions.labelAria': 'Region name',
+  'regions.analyze': 'Analyze',
+  'regions.analyzeAria': 'Analyze region "{label}"',
+  'regions.analyzeAll': 'Analyze all regions',
+  'regions.analyzing': 'Analyzing...',
+  'regions.analyzed': 'Analyzed',
+  'regions.notAnalyzed': 'Not analyzed',
+  'regions.deleteAria': 'Delete region "{label}"',
+
+  // Output validation
+  'validation.repaired': "The model's reply was incomplete, so it was automatically asked to fix it ({count} attempts).",
+  'validation.recovered': 'Recovered: {fields}',
+  'validation.missing': 'Still missing: {fields}',
+  'validation.subjects': 'List of people',
+  'validation.subjectLabel': 'Person description',
+  'validation.translationOf': '{field} (translation)',
+  'validation.subjectField': 'Person {index}: {field}',
+
+  // Analysis history
+  'history.title': 'Analysis history',
+  'history.empty': 'No analyses yet. Every analysis result is kept here.',
+  'history.limit': 'Up to {count} unpinned entries are kept; pinned entries are never removed.',
+  'history.detailed': 'Detailed',
+  'history.refined': 'Refined: {field}',
+  'history.allOptions': 'All categories',
+  'history.restore': 'Restore',
+  'history.restoreAria': 'Restore the analysis from {time}',
+  'history.pin': 'Pin',
+  'history.unpin': 'Unpin',
+  'history.pinned': 'Pinned',
+  'history.deleteAria': 'Delete the entry from {time}',
+  'history.compareAria': 'Select the entry from {time} for comparison',
+  'history.compareHint': 'Tick two entries to see what changed between them.',
+  'history.compare': 'Compare results...',
+  'history.compareSelected': 'Compare ticked entries',
+
+  // Result comparison
+  'comparison.title': 'Compare analysis results',
+  'comparison.close': 'Close comparison',
+  'comparison.left': 'Left (before)',
+  'comparison.right': 'Right (after)',
+  'comparison.current': '{tab} · current result',
+  'comparison.entry': '{tab} · {time}',
+  'comparison.entryDetailed': '{tab} · {time} (detailed)',
+  'comparison.sameSource': 'Both sides show the same result.',
+  'comparison.legend': 'Struck-out red text only appears on the left; green text was added on the right. Click a field to pick the version that goes into the merged result.',
+  'comparison.field': 'Field',
+  'comparison.noValue': '(none)',
+  'comparison.useLeftAria': 'Use the left version of "{field}"',
+  'comparison.useRightAria': 'Use the right version of "{field}"',
+  'comparison.apply': 'Apply merged result to this tab',
+
+  'promptOutput.title': 'AI Refine Prompt',
+  'promptOutput.template': 'Prompt template',
+  'promptOutput.templateAria': 'Choose prompt template',
+  'promptOutput.manageTemplates': 'Manage templates',
+  'promptOutput.manageTemplatesAria': 'Manage prompt templates',
+  'promptOutput.loading': 'Analyzing, please wait...',
+  'promptOutput.error': 'Error: {message}',
+  'promptOutput.placeholder': 'The analysis result will appear here...',
+  'promptOutput.outputAria': 'AI refine prompt output',
+  'promptOutput.translationPlaceholder': 'Analyze again to show the translation...',
+  'promptOutput.translationAria': 'AI refine prompt translation',
+  'promptOutput.fields': 'Analysis fields (edit them directly; the prompt updates as you type)',
+  'promptOutput.edited': 'Edited',
+  'promptOutput.resetField': 'Reset to model output',
+  'promptOutput.resetFieldAria': 'Reset "{field}" to the model output',
+  'promptOutput.regenerate': 'Regenerate',
+  'promptOutput.shorter': 'Shorter',
+  'promptOutput.moreDetail': 'More detail',
+  'promptOutput.instructionPlaceholder': 'Instruction, e.g. focus on fabric texture',
+  'promptOutput.applyInstruction': 'Apply',
+  'promptOutput.fieldActionAria': '{action}: {field}',
+  'promptOutput.refiningField': 'Generating...',
+  'promptOutput.cancelAnalysis': 'Cancel analysis',
+  'promptOutput.subject': 'Person ({count} found)',
+  'promptOutput.fromCache': 'Loaded from the response cache (analyzed {time}); no API call was made.',
+  'promptOutput.forceRefresh': 'Analyze again',
+  'promptOutput.refineDetail': 'Ask for more detail',
+  'promptOutput.copy': 'Copy prompt',
+  'promptOutput.copyTranslation': 'Copy translation',
+
+  // Settings dialog
+  'settings.title': 'Settings',
+  'settings.close': 'Close settings',
+  'settings.provider': 'Model service',
+  'settings.providerOpenAiCompatible': 'OpenAI-compatible / local Ollama endpoint',
+  'settings.geminiApiKey': 'Gemini API key',
+  'settings.apiKeyPlaceholder': 'Enter your API key',
+  'settings.show': 'Show',
+  'settings.hide': 'Hide',
+  'settings.showApiKeyAria': 'Show API key',
+  'settings.hideApiKeyAria': 'Hide API key',
+  'settings.apiKeyStoredLocally': 'The key is only stored in this browser.',
+  'settings.model': 'Model',
+  'settings.endpointUrl': 'Endpoint URL',
+  'settings.optionalApiKey': 'API key (optional)',
+  'settings.generation': 'Generation parameters (leave empty for the model default)',
+  'settings.maxOutputTokens': 'Max output tokens',
+  'settings.temperatureRange': 'Temperature must be between 0 and 2.',
+  'settings.topPRange': 'Top P must be between 0 and 1.',
+  'settings.maxOutputTokensInteger': 'Max output tokens must be a positive integer.',
+  'settings.modelRequired': 'Please enter a model name.',
+  'settings.saveFailed': 'Failed to save settings: {detail}',
+  'settings.imageProcessing': 'Image preprocessing',
+  'settings.imageProcessingEnabled': 'Prepare images before sending them to the model',
+  'settings.maxDimension': 'Longest side (px)',
+  'settings.imageFormat': 'Format',
+  'settings.imageFormatOriginal': 'Keep original',
+  'settings.imageQuality': 'Quality (0.1–1)',
+  'settings.imageProcessingHint': 'Turns photos upright according to their EXIF orientation, scales them down, and re-encodes them without metadata such as location. Images that need none of this, and GIFs small enough, are sent unchanged. Applies to images added from now on.',
+  'settings.maxDimensionRange': 'The longest side must be a whole number between 64 and 16384 pixels.',
+  'settings.qualityRange': 'Quality must be between 0.1 and 1.',
+  'settings.cache': 'Response cache',
+  'settings.cacheEnabled': 'Reuse results when the same image is analyzed again with the same options and model',
+  'settings.cacheMaxSize': 'Size limit (MB)',
+  'settings.cacheMaxAge': 'Keep results for (days)',
+  'settings.cacheUsage': '{count} results stored, {size} MB',
+  'settings.cacheUnavailable': 'The cache is not available in this browser.',
+  'settings.cacheClear': 'Clear cache',
+  'settings.cacheClearFailed': 'Failed to clear the cache: {detail}',
+  'settings.cacheSizeRange': 'The cache size limit must be between 1 and 10000 MB.',
+  'settings.cacheAgeRange': 'The cache age limit must be between 1 and 3650 days.',
+
+  // Batch mode
+  'batch.status.pending': 'Pending',
+  'batch.status.running': 'Analyzing',
+  'batch.status.done': 'Done',
+  'batch.status.error': 'Failed',
+  'batch.concurrency': 'Concurrency',
+  'batch.maxRetries': 'Retries on failure',
+  'batch.queue': 'Batch queue',
+  'batch.summary': '{total} images · {done} done · {failed} failed · {pending} pending',
+  'batch.stop': 'Stop',
+  'batch.exportCsv': 'Export CSV',
+  'batch.exportJson': 'Export JSON',
+  'batch.clear': 'Clear all',
+  'batch.empty': 'No images added yet.',
+  'batch.columnImage': 'Image',
+  'batch.columnFileName': 'File name',
+  'batch.columnStatus': 'Status',
+  'batch.columnPrompt': 'Refine prompt / error',
+  'batch.attempt': '(attempt {count})',
+  'batch.copy': 'Copy',
+  'batch.copyAria': 'Copy the prompt for {name}',
+  'batch.remove': 'Remove',
+  'batch.removeAria': 'Remove {name}',
+
+  // Workspace import
+  'workspaceImport.title': 'Import workspace',
+  'workspaceImport.close': 'Close import',
+  'workspaceImport.reading': 'Reading...',
+  'workspaceImport.chooseFile': 'Choose a workspace file (.json)',
+  'workspaceImport.found': 'Found {count} tabs',
+  'workspaceImport.skipped': ' ({count} corrupted tabs skipped)',
+  'workspaceImport.question': '. Merge them with the current tabs, or replace all current tabs?',
+  'workspaceImport.replace': 'Replace',
+  'workspaceImport.merge': 'Merge',
+  'workspaceImport.categoryConflicts': 'These categories in the file clash with your own categories of the same ID or field key and will not be imported: {names}. Their fields in the imported tabs will show under your categories.',
+
+  // Template manager
+  'templateManager.title': 'Manage prompt templates',
+  'templateManager.close': 'Close template manager',
+  'templateManager.new': '+ New template',
+  'templateManager.newName': 'New template',
+  'templateManager.copyName': '{name} (copy)',
+  'templateManager.untitled': 'Untitled template',
+  'templateManager.builtInReadOnly': 'Built-in templates cannot be changed. Duplicate one to edit it.',
+  'templateManager.name': 'Name',
+  'templateManager.body': 'Template',
+  'templateManager.fields': 'Available fields: {fields}.',
+  'templateManager.syntaxHelp': "{#field}...{/field} is only output when the field has content, {^field}...{/field} only when it is missing; {#single} means exactly one field has content, in which case {prefix} is that category's refine prefix. {subject} is the person picked from a multi-person analysis.",
+  'templateManager.separator': '{all} separator',
+  'templateManager.preview': 'Preview',
+  'templateManager.previewCurrent': ' (current tab result)',
+  'templateManager.previewSample': ' (sample data)',
+  'templateManager.duplicate': 'Duplicate',
+  'templateManager.sample.characterAttire': 'a white linen shirt with dark blue jeans',
+  'templateManager.sample.characterPose': 'hands in pockets, body turned slightly to the left',
+  'templateManager.sample.characterExpression': 'a relaxed smile',
+  'templateManager.sample.photoBackground': 'a beach at dusk with soft backlight',
+  'templateManager.sample.cameraAngle': 'eye-level medium shot',
+
+  // Category manager
+  'categoryManager.title': 'Manage analysis categories',
+  'categoryManager.close': 'Close category manager',
+  'categoryManager.new': '+ New category',
+  'categoryManager.newLabel': 'New category',
+  'categoryManager.builtInReadOnly': 'Built-in categories cannot be changed.',
+  'categoryManager.labelAndPromptRequired': 'Please enter a name and what to analyze.',
+  'categoryManager.schemaKeyInvalid': 'The field key may only contain letters, digits and underscores, and must start with a letter.',
+  'categoryManager.schemaKeyTaken': 'This field key is already used by another category.',
+  'categoryManager.schemaKeyReserved': 'This field key is reserved: all, prefix, single, subject, subjects, label and keys ending in __translation cannot be used.',
+  'categoryManager.label': 'Name',
+  'categoryManager.labelPlaceholder': 'e.g. Hairstyle',
+  'categoryManager.schemaKey': 'Field key',
+  'categoryManager.prompt': 'What to analyze (prompt fragment sent to the model)',
+  'categoryManager.promptUsesOtherText': '(uses the "Other analysis content" entered in the tab)',
+  'categoryManager.promptPlaceholder': "e.g. The person's hairstyle (length, color, style)",
+  'categoryManager.description': 'Field description (used in the structured output)',
+  'categoryManager.descriptionPlaceholder': 'Leave empty to use the analysis content',
+  'categoryManager.refinePrefix': 'Refine prompt prefix (used when only this category is analyzed)',
+  'categoryManager.refinePrefixPlaceholder': "e.g. Change the person's hairstyle in the image to",
+
+  // Error messages, referenced by AppError codes
+  'error.imageRequired': 'Please upload an image first.',
+  'error.referenceImageRequired': 'Please upload a reference image first.',
+  'error.regionAnalysisFailed': 'Failed to analyze region "{label}": {detail}',
+  'error.imageLoadFailed': 'Could not load the image.',
+  'error.imageUnsupported': 'This browser cannot read the image format (e.g. HEIC). Convert it to JPEG or PNG first.',
+  'error.imageEncodeFailed': 'Could not convert the image.',
+  'error.noSubjectsFound': 'The model did not find any person in the image.',
+  'error.otherTextRequired': 'When "Other" is selected, please enter what to analyze.',
+  'error.noValidOptions': 'Please select at least one valid analysis option or enter content for "Other".',
+  'error.analysisGeneric': 'An error occurred while analyzing the image.',
+  'error.analysisFailed': 'Failed to analyze image: {detail}',
+  'error.invalidImageData': 'Invalid base64 image format.',
+  'error.geminiApiKeyMissing': 'Gemini API key is not set. Please enter it in Settings.',
+  'error.openAiCompatibleUrlMissing': 'OpenAI-compatible endpoint URL is not set.',
+  'error.requestFailedStatus': 'Request failed with status {status}.',
+  'error.emptyModelOutput': 'No JSON output generated by the model. It might be blocked due to safety concerns or other issues.',
+  'error.invalidModelOutput': 'The model returned data in an unexpected format. Check that its output matches the expected JSON structure.',
+  'error.analysisCancelled': 'The analysis was cancelled.',
+  'error.fieldMissingInOutput': 'The model did not return a description for "{field}". Please try again.',
+  'error.badRequest': 'Bad Request: The request was malformed or invalid. Check your input data.',
+  'error.authentication': 'Authentication Error: Invalid or missing API key. Please ensure your API key is correctly configured.',
+  'error.rateLimited': 'Rate Limit Exceeded: Too many requests. Please try again after some time.',
+  'error.serverError': 'Server Error: The AI service encountered an issue. Please try again later.',
+  'error.safetyBlocked': 'The model declined to answer because of its safety policy.',
+  'error.invalidImage': 'The service rejected the image; its format may be unsupported or the file damaged.',
+  'error.network': 'Network Error: Could not reach the AI service.',
+  'error.noImageFiles': 'No image files were found.',
+  'error.uploadFailed': 'An error occurred while uploading the file.',
+  'error.fileReadBase64Failed': 'Could not read the file as Base64.',
+  'error.fileReadFailed': 'Could not read the file.',
+  'error.urlFetchStatus': 'Could not load the image from the URL: {status} {statusText}',
+  'error.urlNotImage': 'The URL does not point to a valid image file.',
+  'error.urlLoadFailed': 'Failed to load image: {detail}.',
+  'error.urlRequired': 'Please enter an image URL.',
+  'error.urlInvalid': 'Invalid image URL. Make sure it points to an image file.',
+  'error.urlGenericFailed': 'An error occurred while loading the URL image.',
+  'error.imageAlreadyUploaded': 'An image is already uploaded. Delete it before pasting or dropping a new one.',
+  'error.clipboardFileUnavailable': 'Could not get the image file from the clipboard.',
+  'error.clipboardNoImage': 'No image file or valid image URL was found in the clipboard.',
+  'error.pasteFailed': 'An unknown error occurred while pasting.',
+  'error.tabBusy': 'This tab is still analyzing. Wait for it to finish, or drop the image onto another tab.',
+  'error.dropFailed': 'An error occurred while dropping files.',
+  'error.cropAreaRequired': 'Please select a crop area.',
+  'error.cropPresetInvalid': 'Enter a width and height between 1 and {max}.',
+  'error.saveCropPresetsFailed': 'Could not save crop presets: {detail}',
+  'error.cropFailed': 'Failed to crop image: {detail}',
+  'error.canvasUnavailable': 'The browser could not create a drawing canvas.',
+  'error.batchEmpty': 'There are no images to analyze.',
+  'error.indexedDbUnsupported': 'This browser does not support IndexedDB, so tabs will not be saved.',
+  'error.storageOpenFailed': 'Could not open local storage.',
+  'error.storageTransactionAborted': 'The storage transaction was aborted.',
+  'error.storageQuotaExceeded': 'Browser storage is full, so recent changes could not be saved. Delete some tabs or images and try again.',
+  'error.storageSaveFailed': 'Failed to save tabs: {detail}',
+  'error.storageSaveGeneric': 'An error occurred while saving tabs.',
+  'error.workspaceInvalidJson': 'Could not read the workspace file: it is not valid JSON.',
+  'error.workspaceWrongFormat': 'This is not an AI Image Analyzer workspace file.',
+  'error.workspaceMissingVersion': 'The workspace file has no valid version number.',
+  'error.workspaceTooNew': 'This workspace file comes from a newer version of the app. Please update before importing it.',
+  'error.workspaceUnsupportedVersion': 'Unsupported workspace version: {version}.',
+  'error.workspaceMissingTabs': 'The workspace file contains no tab data.',
+  'error.workspaceNoTabs': 'The workspace file has no tabs that can be imported.',
+  'error.workspaceReadFailed': 'An error occurred while reading the workspace file.',
+};
+
+export default en;
@@ -0,0 +1,462 @@
+// Traditional Chinese UI strings. This catalog defines the message keys; every other locale must provide the same keys.
+// `{name}` marks a parameter filled in by t(); other braces are shown as-is.
+const zhTW = {
+  // Shared
+  'common.cancel': '取消',
+  'common.save': '保存',
+  'common.delete': '刪除',
+  'common.close': '關閉',
+  'common.builtIn': '內建',
+  'common.unknownError': '未知錯誤',
+  'common.networkError': '網路錯誤',
+  'common.loading': '載入中...',
+  'common.processing': '處理中...',
+  'common.listSeparator': '、',
+
+  // App header and workspace
+  'app.title': 'AI 圖片分析器',
+  'app.batchMode': '批次模式',
+  'app.tabMode': '返回頁籤模式',
+  'app.exportWorkspace': '匯出工作區',
+  'app.importWorkspace': '匯入工作區',
+  'app.settings': '設定',
+  'app.openSettings': '開啟設定',
+  'app.uiLanguage': '介面語言',
+  'app.dismissStorageWarning': '關閉儲存警告',
+  'app.restoreFailed': '無法載入已保存的頁籤: {detail}',
+  'app.saveTemplatesFailed': '保存範本失敗: {detail}',
+  'app.saveCategoriesFailed': '保存分類失敗: {detail}',
+
+  // Tab bar
+  'tabs.defaultName': '頁籤 {index}',
+  'tabs.add': '新增頁籤',
+  'tabs.addOrDrop': '新增頁籤；將圖片拖放到這裡，每張圖片會開在新的頁籤',
+  'tabs.importingImages': '正在加入圖片...',
+  'tabs.dismissDropError': '關閉拖放錯誤訊息',
+  'tabs.renameAria': '編輯頁籤名稱 {name}',
+  'tabs.deleteAria': '刪除頁籤 {name}',
+  'tabs.copyName': '{name}（副本）',
+  'tabs.selectedCount': '已選取 {count} 個頁籤',
+  'tabs.bulkActions': '對選取頁籤的操作',
+  'tabs.clearSelection': '取消選取',
+
+  // Tab context menu
+  'tabMenu.label': '{count} 個頁籤的操作',
+  'tabMenu.rename': '重新命名',
+  'tabMenu.duplicate': '複製頁籤',
+  'tabMenu.newGroup': '加入新群組',
+  'tabMenu.moveToGroup': '移到「{name}」',
+  'tabMenu.removeFromGroup': '移出群組',
+  'tabMenu.reanalyze': '重新分析',
+  'tabMenu.export': '匯出',
+  'tabMenu.delete': '刪除',
+
+  // Tab groups
+  'tabGroups.defaultName': '群組 {index}',
+  'tabGroups.headerTitle': '點擊以收合或展開；按右鍵可重新命名、變更顏色或解散群組',
+  'tabGroups.collapseAria': '收合群組 {name}（{count} 個頁籤）',
+  'tabGroups.expandAria': '展開群組 {name}（{count} 個頁籤）',
+  'tabGroups.menuLabel': '群組 {name}',
+  'tabGroups.rename': '群組名稱',
+  'tabGroups.color': '群組顏色',
+  'tabGroups.color.blue': '藍色',
+  'tabGroups.color.green': '綠色',
+  'tabGroups.color.yellow': '黃色',
+  'tabGroups.color.red': '紅色',
+  'tabGroups.color.purple': '紫色',
+  'tabGroups.color.gray': '灰色',
+  'tabGroups.collapse': '收合',
+  'tabGroups.expand': '展開',
+  'tabGroups.ungroup': '解散群組',
+
+  // Analysis options
+  'analysisOptions.label': '選擇分析選項',
+  'analysisOptions.aria': '圖片內容分析選項',
+  'analysisOptions.hint': '按住 Ctrl/Cmd 鍵可選擇多個選項。若不選擇，則分析所有選項。',
+  'analysisOptions.manageCategories': '管理分類',
+  'analysisOptions.manageCategoriesAria': '管理分析分類',
+  'analysisOptions.analyze': '分析圖片',
+  'analysisOptions.analyzing': '分析中...',
+
+  // Built-in category labels, keyed by schema key
+  'category.characterAttire': '角色裝束',
+  'category.characterPose': '角色姿勢/動態',
+  'category.characterExpression': '角色表情',
+  'category.photoBackground': '照片背景',
+  'category.cameraAngle': '鏡頭角度',
+  'category.otherAnalysis': '其他',
+
+  // Built-in template names, keyed by template ID
+  'template.builtin-default': '預設（中文改圖指令）',
+  'template.builtin-default-en': '預設（英文改圖指令）',
+  'template.builtin-default-ja': '預設（日文改圖指令）',
+  'template.builtin-transfer': '參考圖轉移（中文改圖指令）',
+  'template.builtin-transfer-en': '參考圖轉移（英文改圖指令）',
+  'template.builtin-transfer-ja': '參考圖轉移（日文改圖指令）',
+
+  // Image uploader
+  'uploader.crop': '裁剪圖片',
+  'uploader.delete': '刪除圖片',
+  'uploader.deleteAria': '刪除已上傳圖片',
+  'uploader.previewAlt': '已上傳圖片預覽',
+  'uploader.uploaded': '圖片已上傳',
+  'uploader.originalImage': '原始圖片：{width} × {height}，{format}，{size}',
+  'uploader.processedImage': '送出給模型：{width} × {height}，{format}，{size}',
+  'uploader.unprocessed': '未經處理直接送出（已關閉預處理）',
+  'uploader.edited': '已裁剪為 {width} × {height}，原圖仍保留',
+  'uploader.restoreOriginal': '還原原圖',
+  'uploader.orientationApplied': '已依照片的 EXIF 方向轉正',
+  'uploader.fileInputAria': '上傳圖片文件',
+  'uploader.clickToUpload': '點擊上傳圖片',
+  'uploader.dropOrPaste': ', 拖放, 或貼上圖片 (Ctrl+V)',
+  'uploader.clickToUploadMany': '點擊選擇多張圖片',
+  'uploader.dropOrPasteMany': ', 拖放圖片或資料夾, 或貼上圖片 (Ctrl+V)',
+  'uploader.supportedFormats': '支援 JPG, PNG, GIF, WebP, BMP, SVG 檔案格式，最大 10MB',
+  'uploader.folderInputAria': '上傳圖片資料夾',
+  'uploader.chooseFolder': '選擇資料夾',
+  'uploader.urlLabel': '圖片 URL',
+  'uploader.urlPlaceholder': '或輸入圖片 URL 並載入',
+  'uploader.urlInputAria': '圖片 URL 輸入框',
+  'uploader.loadUrl': '載入 URL 圖片',
+
+  // Image cropper
+  'cropper.title': '裁剪圖片',
+  'cropper.close': '關閉裁剪',
+  'cropper.zoom': '縮放:',
+  'cropper.rotation': '旋轉:',
+  'cropper.rotationAria': '旋轉圖片',
+  'cropper.rotateLeft': '向左旋轉 90°',
+  'cropper.rotateRight': '向右旋轉 90°',
+  'cropper.flipHorizontal': '水平翻轉',
+  'cropper.flipVertical': '垂直翻轉',
+  'cropper.resetEdits': '重設旋轉與翻轉',
+  'cropper.aspect': '選擇比例:',
+  'cropper.freeAspect': '自由比例',
+  'cropper.aspectAria': '{width}比{height}比例',
+  'cropper.sizeAria': '{name}：{width} × {height} 像素',
+  'cropper.deletePresetAria': '刪除預設 {name}',
+  'cropper.custom': '自訂比例或尺寸:',
+  'cropper.customWidth': '寬',
+  'cropper.customHeight': '高',
+  'cropper.exactSize': '精確像素尺寸',
+  'cropper.applyCustom': '套用',
+  'cropper.presetName': '預設名稱（選填）',
+  'cropper.savePreset': '儲存為預設',
+  'cropper.targetModel': '依模型目標解析度裁剪:',
+  'cropper.noTargetModel': '不指定模型',
+  'cropper.cropArea': '裁剪區域:',
+  'cropper.cropSize': '{width} × {height}（寬高比 {ratio}）',
+  'cropper.noCropArea': '請選擇區域',
+  'cropper.scaledTo': '→ 縮放為 {width} × {height}',
+  'cropper.crop': '裁剪',
+  'cropper.cropping': '裁剪中...',
+  'cropper.confirmAria': '確認裁剪',
+
+  // Tab content
+  'tabContent.outputLanguage': '輸出語言',
+  'tabContent.bilingual': '雙語對照',
+  'tabContent.bilingualOff': '不顯示',
+  'tabContent.otherText': '其他分析內容',
+  'tabContent.otherTextPlaceholder': '請輸入您想要模型分析的特定內容...',
+  'tabContent.otherTextAria': '自定義分析內容輸入框',
+  'tabContent.analysisMode': '分析模式',
+  'tabContent.modeDescribe': '描述圖片',
+  'tabContent.modeTransfer': '參考圖轉移',
+  'tabContent.modeTransferHint': '比較參考圖與目標圖，為每個選取的類別產生「把目標圖改成參考圖那樣」的修改指令。',
+  'tabContent.referenceImage': '參考圖（來源）',
+  'tabContent.targetImage': '目標圖（要修改的圖片）',
+  'tabContent.detectSubjects': '分別描述每個人物',
+  'tabContent.detectSubjectsHint': '先找出圖中的所有人物，再為每個人分別描述裝束、姿勢與表情；背景與鏡頭角度為所有人共用。',
+  'tabContent.retry': '重試',
+  'tabContent.retrying': '請求暫時失敗，{seconds} 秒後自動重試（第 {retry}/{maxRetries} 次）…',
+
+  // Guidance shown under an analysis error, keyed by error kind
+  'errorGuidance.auth': '請在設定中確認服務提供者與 API 金鑰，再按「重試」。',
+  'errorGuidance.rateLimit': '已自動重試數次仍被限流。請稍候片刻再重試，或在設定中換用其他模型。',
+  'errorGuidance.server': 'AI 服務暫時無法使用，已自動重試數次。請稍後再重試。',
+  'errorGuidance.safetyBlocked': '模型的安全過濾器拒絕了這張圖片或提示。請換一張圖片、減少分析類別，或修改「其他」的內容。',
+  'errorGuidance.invalidImage': '服務無法讀取這張圖片。請改用 PNG 或 JPEG 重新上傳，或先裁切縮小圖片。',
+  'errorGuidance.network': '無法連線到 AI 服務。請檢查網路連線與端點 URL，再按「重試」。',
+  'errorGuidance.parse': '模型的回覆不是預期的 JSON 格式。重試通常就能解決；若一再發生，請改用支援 JSON 輸出的模型。',
+
+  // Regions
+  'regions.title': '區域',
+  'regions.empty': '尚未框選區域。框選合照中的某個人物，即可單獨分析其服裝、姿勢與表情。',
+  'regions.add': '框選區域',
+  'regions.stopDrawing': '完成框選',
+  'regions.drawHint': '在圖片上拖曳以框出區域。',
+  'regions.drawAria': '在圖片上拖曳以框出區域',
+  'regions.defaultLabel': '人物 {letter}',
+  'regions.unnamed': '未命名區域',
+  'regions.labelAria': '區域名稱',
+  'regions.analyze': '分析',
+  'regions.analyzeAria': '分析區域「{label}」',
+  'regions.analyzeAll': '分析全部區域',
+  'regions.analyzing': '分析中...',
+  'regions.analyzed': '已分析',
+  'regions.notAnalyzed': '未分析',
+  'regions.deleteAria': '刪除區域「{label}」',
+
+  // Output validation
+  'validation.repaired': '模型的回覆格式不完整，已自動要求修正 {count} 次。',
+  'validation.recovered': '已補回：{fields}',
+  'validation.missing': '仍缺少：{fields}',
+  'validation.subjects': '人物清單',
+  'validation.subjectLabel': '人物說明',
+  'validation.translationOf': '{field}（翻譯）',
+  'validation.subjectField': '人物 {index}：{field}',
+
+  // Analysis history
+  'history.title': '分析紀錄',
+  'history.empty': '尚無分析紀錄。每次分析的結果都會保存在這裡。',
+  'history.limit': '最多保留 {count} 筆未釘選的紀錄，釘選的紀錄不會被刪除。',
+  'history.detailed': '細緻',
+  'history.refined': '調整：{field}',
+  'history.allOptions': '全部分類',
+  'history.restore': '還原',
+  'history.restoreAria': '還原 {time} 的分析結果',
+  'history.pin': '釘選',
+  'history.unpin': '取消釘選',
+  'history.pinned': '已釘選',
+  'history.deleteAria': '刪除 {time} 的紀錄',
+  'history.compareAria': '選取 {time} 的紀錄進行比較',
+  'history.compareHint': '勾選兩筆紀錄即可比較它們的差異。',
+  'history.compare': '比較結果...',
+  'history.compareSelected': '比較勾選的紀錄',
+
+  // Result comparison
+  'comparison.title': '比較分析結果',
+  'comparison.close': '關閉比較',
+  'comparison.left': '左側（原本）',
+  'comparison.right': '右側（之後）',
+  'comparison.current': '{tab} · 目前結果',
+  'comparison.entry': '{tab} · {time}',
+  'comparison.entryDetailed': '{tab} · {time}（細緻）',
+  'comparison.sameSource': '兩側選擇的是同一個結果。',
+  'comparison.legend': '紅色刪除線為只出現在左側的文字，綠色為右側新增的文字。點選欄位即可挑選要放進合併結果的版本。',
+  'comparison.field': '欄位',
+  'comparison.noValue': '（無）',
+  'comparison.useLeftAria': '「{field}」採用左側',
+  'comparison.useRightAria': '「{field}」採用右側',
+  'comparison.apply': '將合併結果套用到此頁籤',
+
+  'promptOutput.title': 'AI 改圖指令 (Refine Prompt)',
+  'promptOutput.template': '指令範本',
+  'promptOutput.templateAria': '選擇指令範本',
+  'promptOutput.manageTemplates': '管理範本',
+  'promptOutput.manageTemplatesAria': '管理指令範本',
+  'promptOutput.loading': '分析中，請稍候...',
+  'promptOutput.error': '錯誤: {message}',
+  'promptOutput.placeholder': '分析結果將在此處顯示...',
+  'promptOutput.outputAria': 'AI 改圖指令輸出',
+  'promptOutput.translationPlaceholder': '重新分析後即可顯示對照翻譯...',
+  'promptOutput.translationAria': 'AI 改圖指令對照翻譯',
+  'promptOutput.fields': '分析欄位（可直接編輯，指令會即時更新）',
+  'promptOutput.edited': '已編輯',
+  'promptOutput.resetField': '還原為模型輸出',
+  'promptOutput.resetFieldAria': '將「{field}」還原為模型輸出',
+  'promptOutput.regenerate': '重新生成',
+  'promptOutput.shorter': '更精簡',
+  'promptOutput.moreDetail': '更詳細',
+  'promptOutput.instructionPlaceholder': '修改指示，例如：著重描述布料質感',
+  'promptOutput.applyInstruction': '套用指示',
+  'promptOutput.fieldActionAria': '{field}：{action}',
+  'promptOutput.refiningField': '生成中...',
+  'promptOutput.cancelAnalysis': '取消分析',
+  'promptOutput.subject': '人物（共 {count} 位）',
+  'promptOutput.fromCache': '此結果來自回應快取（分析於 {time}），未呼叫 API。',
+  'promptOutput.forceRefresh': '重新分析',
+  'promptOutput.refineDetail': '要求更細緻的描述',
+  'promptOutput.copy': '複製指令',
+  'promptOutput.copyTranslation': '複製對照指令',
+
+  // Settings dialog
+  'settings.title': '設定',
+  'settings.close': '關閉設定',
+  'settings.provider': '模型服務',
+  'settings.providerOpenAiCompatible': 'OpenAI 相容 / Ollama 本機端點',
+  'settings.geminiApiKey': 'Gemini API 金鑰',
+  'settings.apiKeyPlaceholder': '請輸入您的 API 金鑰',
+  'settings.show': '顯示',
+  'settings.hide': '隱藏',
+  'settings.showApiKeyAria': '顯示 API 金鑰',
+  'settings.hideApiKeyAria': '隱藏 API 金鑰',
+  'settings.apiKeyStoredLocally': '金鑰只會保存在此瀏覽器中。',
+  'settings.model': '模型',
+  'settings.endpointUrl': '端點 URL',
+  'settings.optionalApiKey': 'API 金鑰（選填）',
+  'settings.generation': '生成參數（留空則使用模型預設值）',
+  'settings.maxOutputTokens': '最大輸出 Token',
+  'settings.temperatureRange': 'Temperature 必須介於 0 到 2 之間。',
+  'settings.topPRange': 'Top P 必須介於 0 到 1 之間。',
+  'settings.maxOutputTokensInteger': '最大輸出 Token 數必須是正整數。',
+  'settings.modelRequired': '請輸入模型名稱。',
+  'settings.saveFailed': '保存設定失敗: {detail}',
+  'settings.imageProcessing': '圖片預處理',
+  'settings.imageProcessingEnabled': '送出給模型前先處理圖片',
+  'settings.maxDimension': '最長邊（像素）',
+  'settings.imageFormat': '格式',
+  'settings.imageFormatOriginal': '保持原格式',
+  'settings.imageQuality': '品質（0.1–1）',
+  'settings.imageProcessingHint': '依 EXIF 方向轉正照片、縮小尺寸，並重新編碼以移除位置等中繼資料。不需要處理的圖片，以及尺寸未超過上限的 GIF，會原樣送出。套用於之後加入的圖片。',
+  'settings.maxDimensionRange': '最長邊必須是 64 到 16384 之間的整數像素。',
+  'settings.qualityRange': '品質必須介於 0.1 到 1 之間。',
+  'settings.cache': '回應快取',
+  'settings.cacheEnabled': '以相同選項與模型再次分析同一張圖片時，重用先前的結果',
+  'settings.cacheMaxSize': '容量上限（MB）',
+  'settings.cacheMaxAge': '保留天數',
+  'settings.cacheUsage': '已儲存 {count} 筆結果，共 {size} MB',
+  'settings.cacheUnavailable': '此瀏覽器無法使用快取。',
+  'settings.cacheClear': '清除快取',
+  'settings.cacheClearFailed': '清除快取失敗：{detail}',
+  'settings.cacheSizeRange': '快取容量上限必須介於 1 到 10000 MB 之間。',
+  'settings.cacheAgeRange': '快取保留天數必須介於 1 到 3650 天之間。',
+
+  // Batch mode
+  'batch.status.pending': '等待中',
+  'batch.status.running': '分析中',
+  'batch.status.done': '完成',
+  'batch.status.error': '失敗',
+  'batch.concurrency': '同時處理數',
+  'batch.maxRetries': '失敗重試次數',
+  'batch.queue': '批次佇列',
+  'batch.summary': '共 {total} 張 · 完成 {done} · 失敗 {failed} · 等待 {pending}',
+  'batch.stop': '停止',
+  'batch.exportCsv': '匯出 CSV',
+  'batch.exportJson': '匯出 JSON',
+  'batch.clear': '清除全部',
+  'batch.empty': '尚未加入圖片。',
+  'batch.columnImage': '圖片',
+  'batch.columnFileName': '檔名',
+  'batch.columnStatus': '狀態',
+  'batch.columnPrompt': '改圖指令 / 錯誤',
+  'batch.attempt': '（第 {count} 次）',
+  'batch.copy': '複製',
+  'batch.copyAria': '複製 {name} 的指令',
+  'batch.remove': '移除',
+  'batch.removeAria': '移除 {name}',
+
+  // Workspace import
+  'workspaceImport.title': '匯入工作區',
+  'workspaceImport.close': '關閉匯入',
+  'workspaceImport.reading': '讀取中...',
+  'workspaceImport.chooseFile': '選擇工作區檔案 (.json)',
+  'workspaceImport.found': '找到 {count} 個頁籤',
+  'workspaceImport.skipped': '（{count} 個損壞的頁籤已略過）',
+  'workspaceImport.question': '。要與目前的頁籤合併，還是取代目前所有頁籤？',
+  'workspaceImport.replace': '取代',
+  'workspaceImport.merge': '合併',
+  'workspaceImport.categoryConflicts': '檔案中的這些分類與你現有分類的 ID 或欄位鍵重複，不會被匯入：{names}。匯入頁籤中的這些欄位會顯示在你現有的分類下。',
+
+  // Template manager
+  'templateManager.title': '管理指令範本',
+  'templateManager.close': '關閉範本管理',
+  'templateManager.new': '+ 新增範本',
+  'templateManager.newName': '新範本',
+  'templateManager.copyName': '{name} (複本)',
+  'templateManager.untitled': '未命名範本',
+  'templateManager.builtInReadOnly': '內建範本無法修改，請先建立複本再編輯。',
+  'templateManager.name': '名稱',
+  'templateManager.body': '範本內容',
+  'templateManager.fields': '可用欄位：{fields}。',
+  'templateManager.syntaxHelp': '{#欄位}...{/欄位} 僅在該欄位有內容時輸出，{^欄位}...{/欄位} 僅在該欄位缺少時輸出；{#single} 表示只有一個欄位有內容，此時 {prefix} 為該分類的改圖指令前綴。{subject} 為多人物分析中選取的人物。',
+  'templateManager.separator': '{all} 分隔符號',
+  'templateManager.preview': '預覽',
+  'templateManager.previewCurrent': '（目前頁籤的分析結果）',
+  'templateManager.previewSample': '（範例資料）',
+  'templateManager.duplicate': '建立複本',
+  'templateManager.sample.characterAttire': '白色亞麻襯衫搭配深藍色牛仔褲',
+  'templateManager.sample.characterPose': '雙手插口袋，身體微微側向左方',
+  'templateManager.sample.characterExpression': '輕鬆的微笑',
+  'templateManager.sample.photoBackground': '傍晚的海邊，柔和的逆光',
+  'templateManager.sample.cameraAngle': '平視中景',
+
+  // Category manager
+  'categoryManager.title': '管理分析分類',
+  'categoryManager.close': '關閉分類管理',
+  'categoryManager.new': '+ 新增分類',
+  'categoryManager.newLabel': '新分類',
+  'categoryManager.builtInReadOnly': '內建分類無法修改。',
+  'categoryManager.labelAndPromptRequired': '請輸入名稱與分析內容。',
+  'categoryManager.schemaKeyInvalid': '欄位鍵只能包含英文字母、數字和底線，且必須以英文字母開頭。',
+  'categoryManager.schemaKeyTaken': '此欄位鍵已被其他分類使用。',
+  'categoryManager.schemaKeyReserved': '此欄位鍵為保留字：不能使用 all、prefix、single、subject、subjects、label，以及以 __translation 結尾的鍵。',
+  'categoryManager.label': '名稱',
+  'categoryManager.labelPlaceholder': '例如：髮型',
+  'categoryManager.schemaKey': '欄位鍵',
+  'categoryManager.prompt': '分析內容（送給模型的提示片段）',
+  'categoryManager.promptUsesOtherText': '（使用頁籤中輸入的「其他分析內容」）',
+  'categoryManager.promptPlaceholder': '例如：人物的髮型（長度、顏色、造型）',
+  'categoryManager.description': '欄位說明（結構化輸出的描述）',
+  'categoryManager.descriptionPlaceholder': '留空則使用分析內容',
+  'categoryManager.refinePrefix': '改圖指令前綴（僅分析此分類時使用）',
+  'categoryManager.refinePrefixPlaceholder': '例如：把圖中人物的髮型換成',
+
+  // Error messages, referenced by AppError codes
+  'error.imageRequired': '請先上傳圖片。',
+  'error.referenceImageRequired': '請先上傳參考圖。',
+  'error.regionAnalysisFailed': '分析區域「{label}」失敗：{detail}',
+  'error.imageLoadFailed': '無法載入圖片。',
+  'error.imageUnsupported': '瀏覽器無法讀取此圖片格式（例如 HEIC），請先轉換為 JPEG 或 PNG。',
+  'error.imageEncodeFailed': '無法轉換圖片。',
+  'error.noSubjectsFound': '模型沒有在圖中找到任何人物。',
+  'error.otherTextRequired': '當選擇「其他」時，請輸入要分析的特定內容。',
+  'error.noValidOptions': '請選擇至少一個有效的分析選項或輸入「其他」的內容。',
+  'error.analysisGeneric': '分析圖片時發生錯誤。',
+  'error.analysisFailed': '分析圖片失敗：{detail}',
+  'error.invalidImageData': '圖片資料格式無效。',
+  'error.geminiApiKeyMissing': '尚未設定 Gemini API 金鑰，請在設定中輸入。',
+  'error.openAiCompatibleUrlMissing': '尚未設定 OpenAI 相容端點 URL。',
+  'error.requestFailedStatus': '請求失敗，狀態碼 {status}。',
+  'error.emptyModelOutput': '模型沒有輸出任何 JSON，可能因安全限制或其他問題而被阻擋。',
+  'error.invalidModelOutput': '模型返回的數據格式不正確。請檢查模型輸出是否符合預期的JSON結構。',
+  'error.analysisCancelled': '分析已取消。',
+  'error.fieldMissingInOutput': '模型沒有回傳「{field}」的描述，請再試一次。',
+  'error.badRequest': '請求無效：請求格式錯誤或內容無效，請檢查輸入資料。',
+  'error.authentication': '驗證錯誤：API 金鑰無效或缺少，請確認已正確設定 API 金鑰。',
+  'error.rateLimited': '超過速率限制：請求次數過多，請稍後再試。',
+  'error.serverError': '伺服器錯誤：AI 服務發生問題，請稍後再試。',
+  'error.safetyBlocked': '模型因安全政策拒絕回答。',
+  'error.invalidImage': '服務拒絕了這張圖片，可能是格式不支援或檔案已損毀。',
+  'error.network': '網路錯誤：無法連線到 AI 服務。',
+  'error.noImageFiles': '沒有找到任何圖片檔案。',
+  'error.uploadFailed': '上傳檔案時發生錯誤。',
+  'error.fileReadBase64Failed': '檔案讀取失敗，無法轉換為 Base64。',
+  'error.fileReadFailed': '檔案讀取失敗。',
+  'error.urlFetchStatus': '無法從 URL 載入圖片：{status} {statusText}',
+  'error.urlNotImage': 'URL 指向的不是一個有效的圖片檔案。',
+  'error.urlLoadFailed': '載入圖片失敗: {detail}.',
+  'error.urlRequired': '請輸入圖片 URL。',
+  'error.urlInvalid': '無效的圖片 URL 格式。請確保它指向一個圖片檔案。',
+  'error.urlGenericFailed': '載入 URL 圖片時發生錯誤。',
+  'error.imageAlreadyUploaded': '已有圖片上傳，請先刪除現有圖片再貼上或拖放新圖片。',
+  'error.clipboardFileUnavailable': '無法從剪貼簿獲取圖片檔案。',
+  'error.clipboardNoImage': '剪貼簿中沒有偵測到圖片檔案或有效圖片URL。',
+  'error.pasteFailed': '貼上時發生未知錯誤。',
+  'error.tabBusy': '這個頁籤仍在分析中。請等待分析完成，或將圖片拖放到其他頁籤。',
+  'error.dropFailed': '拖放檔案時發生錯誤。',
+  'error.cropAreaRequired': '請選擇裁剪區域。',
+  'error.cropPresetInvalid': '請輸入 1 到 {max} 之間的寬與高。',
+  'error.saveCropPresetsFailed': '無法儲存裁剪預設：{detail}',
+  'error.cropFailed': '裁剪圖片失敗: {detail}',
+  'error.canvasUnavailable': '瀏覽器無法建立繪圖畫布。',
+  'error.batchEmpty': '沒有需要分析的圖片。',
+  'error.indexedDbUnsupported': '此瀏覽器不支援 IndexedDB，頁籤將不會被保存。',
+  'error.storageOpenFailed': '無法開啟本機儲存空間。',
+  'error.storageTransactionAborted': '儲存交易已中止。',
+  'error.storageQuotaExceeded': '瀏覽器儲存空間已滿，最近的變更無法保存。請刪除部分頁籤或圖片後再試。',
+  'error.storageSaveFailed': '保存頁籤失敗: {detail}',
+  'error.storageSaveGeneric': '保存頁籤時發生錯誤。',
+  'error.workspaceInvalidJson': '無法讀取工作區檔案：不是有效的 JSON。',
+  'error.workspaceWrongFormat': '這不是 AI 圖片分析器的工作區檔案。',
+  'error.workspaceMissingVersion': '工作區檔案缺少有效的版本號。',
+  'error.workspaceTooNew': '此工作區檔案來自較新版本的應用程式，請先更新後再匯入。',
+  'error.workspaceUnsupportedVersion': '不支援的工作區版本：{version}。',
+  'error.workspaceMissingTabs': '工作區檔案中沒有頁籤資料。',
+  'error.workspaceNoTabs': '工作區檔案中沒有可匯入的頁籤。',
+  'error.workspaceReadFailed': '讀取工作區檔案時發生錯誤。',
+};
+
+export type MessageKey = keyof typeof zhTW;
+
+export default zhTW;
@@ -0,0 +1,45 @@
+import { AnalysisHistoryEntry } from '../types';
+import { isOutputLanguage } from './outputLanguageService';
+
+// Unpinned entries beyond this count are dropped, oldest first
+export const MAX_HISTORY_ENTRIES = 20;
+
+// Helper to generate unique IDs
+const generateUniqueId = () => `history-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Creates a history entry for an analysis run that just finished.
+ */
+export const createHistoryEntry = (run: Omit<AnalysisHistoryEntry, 'id' | 'timestamp' | 'pinned'>): AnalysisHistoryEntry => ({
+  ...run,
+  id: generateUniqueId(),
+  timestamp: Date.now(),
+  pinned: false,
+});
+
+/**
+ * Adds an entry to the front of the history, trimming the oldest unpinned entries past MAX_HISTORY_ENTRIES.
+ */
+export const addHistoryEntry = (history: AnalysisHistoryEntry[], entry: AnalysisHistoryEntry): AnalysisHistoryEntry[] => {
+  let unpinnedCount = 0;
+  return [entry, ...history].filter((item) => item.pinned || ++unpinnedCount <= MAX_HISTORY_ENTRIES);
+};
+
+export const toggleHistoryPin = (history: AnalysisHistoryEntry[], entryId: string): AnalysisHistoryEntry[] =>
+  history.map((entry) => (entry.id === entryId ? { ...entry, pinned: !entry.pinned } : entry));
+
+export const removeHistoryEntry = (history: AnalysisHistoryEntry[], entryId: string): AnalysisHistoryEntry[] =>
+  history.filter((entry) => entry.id !== entryId);
+
+/**
+ * Checks that a history entry read from storage or a workspace file can still be restored.
+ */
+export const isValidHistoryEntry = (entry: any): entry is AnalysisHistoryEntry =>
+  !!entry &&
+  typeof entry === 'object' &&
+  typeof entry.id === 'string' &&
+  typeof entry.timestamp === 'number' &&
+  Array.isArray(entry.selectedOptions) &&
+  !!entry.result &&
+  typeof entry.result === 'object' &&
+  isOutputLanguage(entry.outputLanguage);
@@ -0,0 +1,57 @@
+import { TabContentState } from '../types';
+
+/**
+ * A running analysis of one tab.
+ */
+export interface AnalysisRun {
+  signal: AbortSignal;
+  isCurrent: () => boolean; // False once the run was cancelled or replaced by a newer one
+  finish: () => void;
+}
+
+interface RunRecord {
+  controller: AbortController;
+  previousState: Partial<TabContentState>; // What the tab showed before the run started
+}
+
+// At most one run per tab. Kept outside React so a run outlives TabContent, which remounts on every tab switch.
+const runs = new Map<string, RunRecord>();
+// How many runs each tab has started, for analysisRunToken
+const startedCounts = new Map<string, number>();
+
+/**
+ * A token that changes whenever a run of the tab starts or ends, so work done outside a run,
+ * such as redoing one field, can tell that the tab's result may have been replaced in the meantime.
+ */
+export const analysisRunToken = (tabId: string): string => `${startedCounts.get(tabId) ?? 0}:${runs.has(tabId)}`;
+
+/**
+ * Starts tracking an analysis of a tab, aborting any run the tab already had.
+ * @param tabId The tab being analyzed.
+ * @param previousState The state to put back if the run is cancelled.
+ */
+export const startAnalysisRun = (tabId: string, previousState: Partial<TabContentState>): AnalysisRun => {
+  runs.get(tabId)?.controller.abort();
+  startedCounts.set(tabId, (startedCounts.get(tabId) ?? 0) + 1);
+  const record: RunRecord = { controller: new AbortController(), previousState };
+  runs.set(tabId, record);
+  return {
+    signal: record.controller.signal,
+    isCurrent: () => runs.get(tabId) === record,
+    finish: () => {
+      if (runs.get(tabId) === record) runs.delete(tabId);
+    },
+  };
+};
+
+/**
+ * Aborts a tab's running analysis, if any.
+ * @returns The state the tab had before the run started, or null if nothing was running.
+ */
+export const cancelAnalysisRun = (tabId: string): Partial<TabContentState> | null => {
+  const record = runs.get(tabId);
+  if (!record) return null;
+  record.controller.abort();
+  runs.delete(tabId);
+  return record.previousState;
+};
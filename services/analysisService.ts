@@ -0,0 +1,235 @@
+import { AnalysisCategory, AnalysisCategoryId, ImageAnalysisResult, OutputLanguage, SubjectAnalysis, VisionProviderType } from '../types';
+import {
+  AnalysisRequest,
+  AnalysisStreamOptions,
+  FieldRefinement,
+  VisionProvider,
+  buildAnalysisPrompt,
+  errorForHttpStatus,
+} from './visionProvider';
+import { geminiProvider } from './geminiService';
+import { openAiCompatibleProvider } from './openAiCompatibleService';
+import { loadSettings } from './settingsService';
+import { categoryLabel, loadCategories } from './categoryService';
+import { DEFAULT_OUTPUT_LANGUAGE } from './outputLanguageService';
+import { AppError, NetworkError, ParseError } from './appError';
+import { t } from './i18n';
+import { withRetries } from './retryService';
+import { analysisCacheKey, cacheAnalysis, getCachedAnalysis } from './responseCacheService';
+import { createSubjectAnalysis } from './subjectService';
+import { MAX_REPAIR_ATTEMPTS, mergeReplies, readReply, validateAnalysisOutput } from './outputValidationService';
+
+const providers: Record<VisionProviderType, VisionProvider> = {
+  gemini: geminiProvider,
+  'openai-compatible': openAiCompatibleProvider,
+};
+
+/**
+ * Turns a failed request into a typed AppError, so withRetries can tell transient failures from permanent ones.
+ */
+const toAppError = (error: any): AppError => {
+  if (error instanceof AppError) {
+    return error;
+  }
+  // Handle specific HTTP errors from the API
+  const status = error?.response?.status ?? error?.status;
+  const httpError = typeof status === 'number' ? errorForHttpStatus(status, null, error?.message) : null;
+  if (httpError) {
+    return httpError;
+  }
+  // fetch() rejects with a TypeError when the server cannot be reached ("Failed to fetch", "Load failed" in Safari)
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(error.message)) {
+    return new NetworkError();
+  }
+  return new AppError('error.analysisFailed', { detail: error?.message || t('common.unknownError') });
+};
+
+// The cache only saves API calls; an unavailable cache (private browsing, full quota) must never fail the analysis
+const tryCache = async <T>(operation: () => Promise<T>): Promise<T | null> => {
+  try {
+    return await operation();
+  } catch (error) {
+    console.warn('Response cache unavailable:', error);
+    return null;
+  }
+};
+
+/**
+ * Sends a request to the backend chosen in the saved settings, turning any failure into an AppError.
+ * Whole-image analyses are answered from the response cache when an identical request was made before,
+ * unless stream.forceRefresh is set; complete results are stored for next time.
+ * Transient failures are retried with backoff (see withRetries), reported through stream.onRetry.
+ * A reply with missing, empty or mistyped fields is sent back for repair up to MAX_REPAIR_ATTEMPTS times;
+ * fields still missing after that are left out, and reported through stream.onOutputReport.
+ */
+const runAnalysis = async (request: AnalysisRequest, stream?: AnalysisStreamOptions): Promise<ImageAnalysisResult> => {
+  try {
+    const settings = loadSettings();
+    const provider = providers[settings.provider];
+    const prompt = buildAnalysisPrompt(request);
+    // Redoing a field builds on text the user may have edited, so it always asks the model
+    const cacheKey =
+      settings.cache.enabled && !request.fieldRefinement ? await tryCache(() => analysisCacheKey(request, settings)) : null;
+    const cached = cacheKey && !stream?.forceRefresh ? await tryCache(() => getCachedAnalysis(cacheKey, settings.cache)) : null;
+    if (cached) {
+      stream?.onCacheHit?.(cached.createdAt);
+      return cached.response;
+    }
+
+    const send = (attemptRequest: AnalysisRequest, attemptStream: AnalysisStreamOptions | undefined) =>
+      withRetries(
+        () =>
+          provider.analyze(attemptRequest, settings, attemptStream).catch((error) => {
+            throw toAppError(error);
+          }),
+        stream?.signal,
+        (retry, delayMs) => stream?.onRetry?.(retry, delayMs),
+      );
+
+    let text = await send(request, stream);
+    let validation = validateAnalysisOutput(readReply(text), prompt);
+    const firstInvalidKeys = validation.invalidKeys;
+    let attempts = 0;
+    while (validation.invalidKeys.length > 0 && attempts < MAX_REPAIR_ATTEMPTS) {
+      attempts++;
+      // A repair reply holds only the fields it fixes, so it streams in on top of the valid ones already shown
+      const { output: validOutput } = validation;
+      const onPartialResult = stream?.onPartialResult;
+      const repairStream = stream && {
+        ...stream,
+        onPartialResult: onPartialResult && ((partial: ImageAnalysisResult) => onPartialResult(mergeReplies(validOutput, partial) as ImageAnalysisResult)),
+      };
+      text = await send({ ...request, repair: { output: text, keys: validation.invalidKeys } }, repairStream);
+      validation = validateAnalysisOutput(mergeReplies(validation.output, readReply(text)), prompt);
+    }
+
+    const { output, invalidKeys } = validation;
+    if (Object.keys(output).length === 0) {
+      throw new ParseError(text.trim() ? 'error.invalidModelOutput' : 'error.emptyModelOutput');
+    }
+    if (attempts > 0 || invalidKeys.length > 0) {
+      stream?.onOutputReport?.({
+        attempts,
+        recovered: firstInvalidKeys.filter((key) => !invalidKeys.includes(key)),
+        missing: invalidKeys,
+      });
+    }
+    // Fields are strings; a multi-person reply also carries its checked subjects array (see createSubjectAnalysis)
+    const response = output as ImageAnalysisResult;
+    // Incomplete results are not kept, so the next identical request gets another chance at the missing fields
+    if (cacheKey && invalidKeys.length === 0) {
+      await tryCache(() => cacheAnalysis(cacheKey, response, settings.cache));
+    }
+    return response;
+  } catch (error: any) {
+    if (stream?.signal?.aborted) {
+      throw new AppError('error.analysisCancelled');
+    }
+    console.error('Error analyzing image:', error);
+    // Errors that already carry a code (missing API key, unreadable output...) are shown as they are
+    throw toAppError(error);
+  }
+};
+
+/**
+ * Analyzes an image based on selected options and generates a descriptive prompt.
+ * The backend is chosen from the saved settings.
+ * @param base64Image The base64 encoded image data (e.g., 'data:image/png;base64,...').
+ * @param options The IDs of the selected analysis categories; empty means every category except '其他'.
+ * @param otherAnalysisText Optional custom text for analysis if 'OTHER' option is selected.
+ * @param isDetailedRequest If true, prompts the AI for more detailed descriptions.
+ * @param categories The category registry; defaults to the saved registry.
+ * @param outputLanguage The language the descriptions are written in.
+ * @param secondaryLanguage If set, every field is also returned translated into this language (see splitTranslatedResult).
+ * @param referenceImage If set, every field becomes an instruction for changing base64Image to match this image.
+ * @param stream Optional abort signal, and a callback receiving the fields while they stream in.
+ * @returns A promise that resolves to the structured analysis result.
+ */
+export const analyzeImage = async (
+  base64Image: string,
+  options: AnalysisCategoryId[],
+  otherAnalysisText: string = '',
+  isDetailedRequest: boolean = false,
+  categories: AnalysisCategory[] = loadCategories(),
+  outputLanguage: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE,
+  secondaryLanguage: OutputLanguage | null = null,
+  referenceImage: string | null = null,
+  stream?: AnalysisStreamOptions,
+): Promise<ImageAnalysisResult> =>
+  runAnalysis(
+    { base64Image, options, categories, otherAnalysisText, isDetailedRequest, outputLanguage, secondaryLanguage, referenceImage },
+    stream,
+  );
+
+/**
+ * Analyzes an image person by person: the model first locates everyone, then describes each person's attire,
+ * pose and expression separately, and the remaining categories once for the whole image.
+ * Takes the same parameters as analyzeImage.
+ * @returns A promise that resolves to the people found and the shared fields, with the first person selected.
+ */
+export const analyzeSubjects = async (
+  base64Image: string,
+  options: AnalysisCategoryId[],
+  otherAnalysisText: string,
+  isDetailedRequest: boolean,
+  categories: AnalysisCategory[],
+  outputLanguage: OutputLanguage,
+  secondaryLanguage: OutputLanguage | null,
+  referenceImage: string | null,
+  stream?: AnalysisStreamOptions,
+): Promise<SubjectAnalysis> => {
+  const response = await runAnalysis(
+    {
+      base64Image,
+      options,
+      categories,
+      otherAnalysisText,
+      isDetailedRequest,
+      outputLanguage,
+      secondaryLanguage,
+      referenceImage,
+      detectSubjects: true,
+    },
+    stream,
+  );
+  return createSubjectAnalysis(response);
+};
+
+/**
+ * Redoes a single field of an analysis, leaving every other field to the caller to keep.
+ * @param base64Image The base64 encoded image data.
+ * @param category The category whose field is redone.
+ * @param refinement How to redo it, the field's current text and, for a per-person field, the person it describes.
+ * @param otherAnalysisText Custom text, used when the category is '其他'.
+ * @param categories The category registry.
+ * @param outputLanguage The language the description is written in.
+ * @param secondaryLanguage If set, the translation of the field is returned as well (see splitTranslatedResult).
+ * @param referenceImage The reference image in transfer mode, otherwise null.
+ * @returns The response, holding the category's schema key (and its translation twin).
+ */
+export const refineAnalysisField = async (
+  base64Image: string,
+  category: AnalysisCategory,
+  refinement: FieldRefinement,
+  otherAnalysisText: string,
+  categories: AnalysisCategory[],
+  outputLanguage: OutputLanguage,
+  secondaryLanguage: OutputLanguage | null,
+  referenceImage: string | null,
+): Promise<ImageAnalysisResult> => {
+  const response = await runAnalysis({
+    base64Image,
+    options: [category.id],
+    categories,
+    otherAnalysisText,
+    isDetailedRequest: refinement.mode === 'detailed',
+    outputLanguage,
+    secondaryLanguage,
+    referenceImage,
+    fieldRefinement: refinement,
+  });
+  if (!response[category.schemaKey]?.trim()) {
+    throw new AppError('error.fieldMissingInOutput', { field: categoryLabel(category) });
+  }
+  return response;
+};
@@ -0,0 +1,112 @@
+import { ErrorKind } from '../types';
+import { MessageKey, t } from './i18n';
+
+// Message keys that describe errors; every AppError carries one of these as its code
+export type ErrorCode = Extract<MessageKey, `error.${string}`>;
+
+/**
+ * A user-facing error identified by a code from the locale catalogs.
+ * The message is translated when the error is created; errorMessage() translates the code again
+ * at display time, so errors shown after a language switch still match the interface.
+ */
+export class AppError extends Error {
+  readonly code: ErrorCode;
+  readonly params: Record<string, string | number>;
+
+  constructor(code: ErrorCode, params: Record<string, string | number> = {}) {
+    super(t(code, params));
+    this.name = 'AppError';
+    this.code = code;
+    this.params = params;
+  }
+}
+
+/**
+ * Returns the text to show for a caught error: the translated code for an AppError,
+ * otherwise the error's own message, or the fallback message when there is none.
+ */
+export const errorMessage = (error: any, fallback: ErrorCode): string => {
+  if (error instanceof AppError) {
+    return t(error.code, error.params);
+  }
+  return error?.message || t(fallback);
+};
+
+/** The API key is missing, invalid or lacks access. Retrying cannot help until the settings change. */
+export class AuthError extends AppError {
+  constructor(code: ErrorCode = 'error.authentication', params: Record<string, string | number> = {}) {
+    super(code, params);
+    this.name = 'AuthError';
+  }
+}
+
+/** The provider is throttling requests; retryAfterMs is its requested wait, when it sent one. */
+export class RateLimitError extends AppError {
+  readonly retryAfterMs: number | null;
+
+  constructor(retryAfterMs: number | null = null) {
+    super('error.rateLimited');
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** The provider failed on its side (5xx); the same request may succeed later. */
+export class ServerError extends AppError {
+  constructor(code: ErrorCode = 'error.serverError', params: Record<string, string | number> = {}) {
+    super(code, params);
+    this.name = 'ServerError';
+  }
+}
+
+/** The provider refused to answer because of its content safety filters. */
+export class SafetyBlockedError extends AppError {
+  constructor(code: ErrorCode = 'error.safetyBlocked', params: Record<string, string | number> = {}) {
+    super(code, params);
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+/** The image could not be read, or the provider rejected it. */
+export class InvalidImageError extends AppError {
+  constructor(code: ErrorCode = 'error.invalidImage', params: Record<string, string | number> = {}) {
+    super(code, params);
+    this.name = 'InvalidImageError';
+  }
+}
+
+/** The provider could not be reached at all: offline, DNS, CORS or a dropped connection. */
+export class NetworkError extends AppError {
+  constructor(code: ErrorCode = 'error.network', params: Record<string, string | number> = {}) {
+    super(code, params);
+    this.name = 'NetworkError';
+  }
+}
+
+/** The model answered, but not with the JSON that was asked for. */
+export class ParseError extends AppError {
+  constructor(code: ErrorCode = 'error.invalidModelOutput', params: Record<string, string | number> = {}) {
+    super(code, params);
+    this.name = 'ParseError';
+  }
+}
+
+/**
+ * Classifies a caught error for the interface, or returns null for errors without specific guidance.
+ */
+export const errorKind = (error: unknown): ErrorKind | null => {
+  if (error instanceof AuthError) return 'auth';
+  if (error instanceof RateLimitError) return 'rateLimit';
+  if (error instanceof ServerError) return 'server';
+  if (error instanceof SafetyBlockedError) return 'safetyBlocked';
+  if (error instanceof InvalidImageError) return 'invalidImage';
+  if (error instanceof NetworkError) return 'network';
+  if (error instanceof ParseError) return 'parse';
+  return null;
+};
+
+/**
+ * Whether the same request may succeed if sent again unchanged: rate limits, server failures and network drops.
+ */
+export const isTransientError = (error: unknown): boolean =>
+  error instanceof RateLimitError || error instanceof ServerError || error instanceof NetworkError;
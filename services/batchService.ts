@@ -0,0 +1,91 @@
+import { BatchItem } from '../types';
+
+export interface QueueOptions {
+  concurrency: number; // Number of items processed at the same time
+  maxRetries: number; // Extra attempts after the first failure
+  retryDelayMs: number; // Base delay; grows linearly with each attempt
+  isCancelled: () => boolean; // Checked before each attempt; running attempts are allowed to finish
+}
+
+export interface QueueHandlers<T, R> {
+  onStart: (item: T, attempt: number) => void;
+  onSuccess: (item: T, result: R) => void;
+  onFailure: (item: T, error: any, attempts: number) => void;
+  onCancel: (item: T) => void; // Cancelled while waiting to retry, so the item has no result yet
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs a worker over every item with limited concurrency, retrying failed items.
+ * @param items The items to process, in order.
+ * @param worker Processes one item; a thrown error counts as a failed attempt.
+ * @param options Concurrency, retry and cancellation settings.
+ * @param handlers Callbacks for reporting per-item progress.
+ * @returns A promise that resolves once every item has succeeded, failed, been cancelled or been skipped by cancellation.
+ */
+export const runQueue = async <T, R>(
+  items: T[],
+  worker: (item: T) => Promise<R>,
+  options: QueueOptions,
+  handlers: QueueHandlers<T, R>,
+): Promise<void> => {
+  let nextIndex = 0;
+
+  const processItem = async (item: T) => {
+    for (let attempt = 1; attempt <= options.maxRetries + 1; attempt++) {
+      if (options.isCancelled()) {
+        // An item that never started is left as it was; one between retries has to be reported
+        if (attempt > 1) handlers.onCancel(item);
+        return;
+      }
+      handlers.onStart(item, attempt);
+      try {
+        const result = await worker(item);
+        handlers.onSuccess(item, result);
+        return;
+      } catch (error) {
+        if (attempt > options.maxRetries) {
+          handlers.onFailure(item, error, attempt);
+          return;
+        }
+        await delay(options.retryDelayMs * attempt);
+      }
+    }
+  };
+
+  // Each lane pulls the next unclaimed item until the list is exhausted
+  const runLane = async () => {
+    while (nextIndex < items.length && !options.isCancelled()) {
+      const item = items[nextIndex++];
+      await processItem(item);
+    }
+  };
+
+  const laneCount = Math.max(1, Math.min(options.concurrency, items.length));
+  await Promise.all(Array.from({ length: laneCount }, runLane));
+};
+
+const toCsvCell = (value: string): string => `"${value.replace(/"/g, '""')}"`;
+
+/**
+ * Serializes batch results to CSV (file name, status, prompt, error).
+ * Starts with a BOM so spreadsheet apps detect UTF-8 and show Chinese text correctly.
+ */
+export const batchToCsv = (items: BatchItem[]): string => {
+  const header = ['fileName', 'status', 'prompt', 'error'].join(',');
+  const rows = items.map((item) =>
+    [item.fileName, item.status, item.prompt, item.error || ''].map(toCsvCell).join(','),
+  );
+  return `\uFEFF${[header, ...rows].join('\r\n')}`;
+};
+
+/**
+ * Serializes batch results to JSON, including the structured analysis but not the image data.
+ */
+export const batchToJson = (items: BatchItem[]): string =>
+  JSON.stringify(
+    items.map(({ fileName, status, attempts, result, prompt, error }) => ({ fileName, status, attempts, result, prompt, error })),
+    null,
+    2,
+  );
@@ -0,0 +1,176 @@
+import { AnalysisCategory, AnalysisCategoryId, AnalysisOption, OutputLanguage } from '../types';
+import { MessageKey, t } from './i18n';
+import { SUBJECTS_KEY, SUBJECT_LABEL_KEY, TRANSLATION_KEY_SUFFIX } from './visionProvider';
+
+const CATEGORIES_STORAGE_KEY = 'ai-image-refiner:categories';
+
+// The original fixed categories; their IDs match the AnalysisOption values stored in existing tabs
+export const BUILT_IN_CATEGORIES: AnalysisCategory[] = [
+  { id: AnalysisOption.CHARACTER_ATTIRE, label: '角色裝束', prompt: '人物的裝束（風格、顏色、面料、配件）', schemaKey: 'characterAttire', description: '詳細描述人物的裝束，包括風格、顏色、面料、配件等，嚴格不包含人物姿勢、表情、照片背景或鏡頭角度等其他類別的細節。', refinePrefix: '把圖中人物的裝束換成', isBuiltIn: true,
+    translations: {
+      en: { prompt: "The person's outfit (style, colors, fabrics, accessories)", description: "Describe the person's outfit in detail, including style, colors, fabrics and accessories. Strictly exclude details from other categories such as pose, facial expression, background or camera angle.", refinePrefix: "Change the person's outfit in the image to" },
+      ja: { prompt: '人物の服装（スタイル、色、素材、アクセサリー）', description: '人物の服装をスタイル、色、素材、アクセサリーなどを含めて詳しく説明してください。ポーズ、表情、写真の背景、カメラアングルなど他のカテゴリーの詳細は厳密に含めないでください。', refinePrefix: '画像の人物の服装を次の内容に変更：' },
+    },
+  },
+  { id: AnalysisOption.CHARACTER_POSE, label: '角色姿勢/動態', prompt: '人物的姿勢和動態，不包括面部表情。', schemaKey: 'characterPose', description: '詳細描述人物的姿勢和動態，不包含面部表情、裝束、照片背景或鏡頭角度等其他類別的細節。', refinePrefix: '把圖中人物的姿勢/動態換成', isBuiltIn: true,
+    translations: {
+      en: { prompt: "The person's pose and movement, excluding facial expression.", description: "Describe the person's pose and movement in detail. Strictly exclude facial expression, outfit, background or camera angle details.", refinePrefix: "Change the person's pose in the image to" },
+      ja: { prompt: '人物のポーズと動き（表情は含まない）', description: '人物のポーズと動きを詳しく説明してください。表情、服装、写真の背景、カメラアングルなど他のカテゴリーの詳細は含めないでください。', refinePrefix: '画像の人物のポーズを次の内容に変更：' },
+    },
+  },
+  { id: AnalysisOption.CHARACTER_EXPRESSION, label: '角色表情', prompt: '人物的面部表情和情緒', schemaKey: 'characterExpression', description: '詳細描述人物的面部表情和情緒，嚴格不包含姿勢、裝束、照片背景或鏡頭角度等其他類別的細節。', refinePrefix: '把圖中人物的表情換成', isBuiltIn: true,
+    translations: {
+      en: { prompt: "The person's facial expression and emotion", description: "Describe the person's facial expression and emotion in detail. Strictly exclude pose, outfit, background or camera angle details.", refinePrefix: "Change the person's facial expression in the image to" },
+      ja: { prompt: '人物の表情と感情', description: '人物の表情と感情を詳しく説明してください。ポーズ、服装、写真の背景、カメラアングルなど他のカテゴリーの詳細は厳密に含めないでください。', refinePrefix: '画像の人物の表情を次の内容に変更：' },
+    },
+  },
+  { id: AnalysisOption.PHOTO_BACKGROUND, label: '照片背景', prompt: '照片的背景（場景、元素、光線、氛圍）', schemaKey: 'photoBackground', description: '詳細描述照片的背景，包括場景、元素、光線、氛圍等，嚴格不包含人物裝束、姿勢、表情或鏡頭角度等其他類別的細節。', refinePrefix: '把照片背景換成', isBuiltIn: true,
+    translations: {
+      en: { prompt: "The photo's background (setting, elements, lighting, mood)", description: "Describe the photo's background in detail, including setting, elements, lighting and mood. Strictly exclude the person's outfit, pose, expression or camera angle.", refinePrefix: "Change the photo's background to" },
+      ja: { prompt: '写真の背景（シーン、要素、光、雰囲気）', description: '写真の背景をシーン、要素、光、雰囲気などを含めて詳しく説明してください。人物の服装、ポーズ、表情、カメラアングルなど他のカテゴリーの詳細は厳密に含めないでください。', refinePrefix: '写真の背景を次の内容に変更：' },
+    },
+  },
+  { id: AnalysisOption.CAMERA_ANGLE, label: '鏡頭角度', prompt: '鏡頭角度（視角、距離、高度）', schemaKey: 'cameraAngle', description: '詳細描述鏡頭角度，包括視角、距離、高度等，嚴格不包含人物裝束、姿勢、表情或照片背景等其他類別的細節。', refinePrefix: '把圖中鏡頭角度換成', isBuiltIn: true,
+    translations: {
+      en: { prompt: 'The camera angle (viewpoint, distance, height)', description: "Describe the camera angle in detail, including viewpoint, distance and height. Strictly exclude the person's outfit, pose, expression or the background.", refinePrefix: 'Change the camera angle of the image to' },
+      ja: { prompt: 'カメラアングル（視点、距離、高さ）', description: 'カメラアングルを視点、距離、高さなどを含めて詳しく説明してください。人物の服装、ポーズ、表情、写真の背景など他のカテゴリーの詳細は厳密に含めないでください。', refinePrefix: '画像のカメラアングルを次の内容に変更：' },
+    },
+  },
+  { id: AnalysisOption.OTHER, label: '其他', prompt: '', schemaKey: 'otherAnalysis', description: '詳細描述用戶指定的其他分析內容，嚴格僅限於此指定內容。', refinePrefix: '將圖中內容修改為以下描述：', usesOtherText: true, isBuiltIn: true,
+    translations: {
+      en: { prompt: '', description: 'Describe the other aspects the user specified in detail, strictly limited to what was specified.', refinePrefix: 'Change the image to match the following description:' },
+      ja: { prompt: '', description: 'ユーザーが指定したその他の分析内容を詳しく説明してください。指定された内容のみに厳密に限定してください。', refinePrefix: '画像の内容を次の説明に合わせて変更：' },
+    },
+  },
+];
+
+// Categories that describe one person; a multi-person analysis asks for them once per person found
+const SUBJECT_CATEGORY_IDS: AnalysisCategoryId[] = [
+  AnalysisOption.CHARACTER_ATTIRE,
+  AnalysisOption.CHARACTER_POSE,
+  AnalysisOption.CHARACTER_EXPRESSION,
+];
+
+export const isSubjectCategory = (category: AnalysisCategory): boolean => SUBJECT_CATEGORY_IDS.includes(category.id);
+
+// Schema keys become JSON property names, so keep them to plain identifiers
+export const SCHEMA_KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+/**
+ * Whether a schema key is taken by something other than a category: the values every refine template gets
+ * (see generateFullRefinePrompt), the keys of a multi-person reply, and the suffix of bilingual twins.
+ */
+export const isReservedSchemaKey = (schemaKey: string): boolean =>
+  ['all', 'prefix', 'single', 'subject', SUBJECTS_KEY, SUBJECT_LABEL_KEY].includes(schemaKey) ||
+  schemaKey.endsWith(TRANSLATION_KEY_SUFFIX);
+
+const isValidCategory = (category: any): category is AnalysisCategory =>
+  !!category &&
+  typeof category === 'object' &&
+  typeof category.id === 'string' &&
+  typeof category.label === 'string' &&
+  typeof category.prompt === 'string' &&
+  typeof category.description === 'string' &&
+  typeof category.refinePrefix === 'string' &&
+  typeof category.schemaKey === 'string' &&
+  SCHEMA_KEY_PATTERN.test(category.schemaKey) &&
+  !isReservedSchemaKey(category.schemaKey);
+
+/**
+ * Reads the category registry: the built-in categories followed by the user's own.
+ * User categories that clash with a built-in ID or schema key are dropped.
+ */
+export const loadCategories = (): AnalysisCategory[] => {
+  try {
+    const raw = localStorage.getItem(CATEGORIES_STORAGE_KEY);
+    const saved = raw ? JSON.parse(raw) : [];
+    const builtInIds = new Set(BUILT_IN_CATEGORIES.map((category) => category.id));
+    const builtInKeys = new Set(BUILT_IN_CATEGORIES.map((category) => category.schemaKey));
+    const userCategories = Array.isArray(saved)
+      ? saved
+          .filter(isValidCategory)
+          .filter((category) => !builtInIds.has(category.id) && !builtInKeys.has(category.schemaKey))
+      : [];
+    return [...BUILT_IN_CATEGORIES, ...userCategories.map((category) => ({ ...category, usesOtherText: false, isBuiltIn: false }))];
+  } catch (error) {
+    console.warn('Ignoring unreadable categories:', error);
+    return BUILT_IN_CATEGORIES;
+  }
+};
+
+/**
+ * Saves the user's categories to localStorage; built-in categories are never written.
+ */
+export const saveCategories = (categories: AnalysisCategory[]): void => {
+  localStorage.setItem(CATEGORIES_STORAGE_KEY, JSON.stringify(categories.filter((category) => !category.isBuiltIn)));
+};
+
+/**
+ * Adds categories that are not known yet, e.g. categories that came with an imported workspace.
+ * Categories whose ID or schema key is already taken are skipped; findCategoryConflicts tells which of those differ.
+ */
+export const mergeCategories = (current: AnalysisCategory[], incoming: AnalysisCategory[]): AnalysisCategory[] => {
+  const knownIds = new Set(current.map((category) => category.id));
+  const knownKeys = new Set(current.map((category) => category.schemaKey));
+  const added = incoming.filter(
+    (category) => isValidCategory(category) && !knownIds.has(category.id) && !knownKeys.has(category.schemaKey),
+  );
+  return [...current, ...added.map((category) => ({ ...category, usesOtherText: false, isBuiltIn: false }))];
+};
+
+// Same ID and schema key, and the same text; such a category is simply already there
+const isSameDefinition = (a: AnalysisCategory, b: AnalysisCategory): boolean =>
+  a.id === b.id &&
+  a.schemaKey === b.schemaKey &&
+  a.label === b.label &&
+  a.prompt === b.prompt &&
+  a.description === b.description &&
+  a.refinePrefix === b.refinePrefix;
+
+/**
+ * Finds the incoming categories that mergeCategories would skip although they differ from the existing category
+ * with their ID or schema key. Tabs that use such a category would show their fields under the existing one.
+ */
+export const findCategoryConflicts = (current: AnalysisCategory[], incoming: AnalysisCategory[]): AnalysisCategory[] =>
+  incoming.filter((category) => {
+    if (!isValidCategory(category)) return false;
+    const clashing = current.filter((entry) => entry.id === category.id || entry.schemaKey === category.schemaKey);
+    return clashing.some((entry) => !isSameDefinition(entry, category));
+  });
+
+/**
+ * The name to show for a category: built-in categories are translated into the interface language,
+ * user-defined ones keep the name the user gave them.
+ */
+export const categoryLabel = (category: AnalysisCategory): string =>
+  category.isBuiltIn ? t(`category.${category.schemaKey}` as MessageKey) : category.label;
+
+/**
+ * The name to show for a field of an analysis result; keys no category uses any more are shown as they are.
+ */
+export const labelForSchemaKey = (categories: AnalysisCategory[], schemaKey: string): string => {
+  const category = categories.find((entry) => entry.schemaKey === schemaKey);
+  return category ? categoryLabel(category) : schemaKey;
+};
+
+/**
+ * Returns the category with its prompt, description and refine prefix in the given output language.
+ * Categories without a translation (e.g. user-defined ones) keep the text the user wrote.
+ */
+export const localizeCategory = (category: AnalysisCategory, language: OutputLanguage): AnalysisCategory => ({
+  ...category,
+  ...category.translations?.[language],
+});
+
+/**
+ * Resolves which categories an analysis covers.
+ * With nothing selected, every category except the free-text '其他' is analyzed.
+ * IDs of categories that no longer exist are ignored.
+ */
+export const resolveSelectedCategories = (
+  categories: AnalysisCategory[],
+  selectedIds: AnalysisCategoryId[],
+): AnalysisCategory[] =>
+  selectedIds.length === 0
+    ? categories.filter((category) => !category.usesOtherText)
+    : categories.filter((category) => selectedIds.includes(category.id));
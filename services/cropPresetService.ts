@@ -0,0 +1,117 @@
+import { CropPreset, ModelTargetSize } from '../types';
+
+const CROP_PRESETS_STORAGE_KEY = 'ai-image-refiner:cropPresets';
+
+// Largest ratio term or pixel side accepted for a custom preset
+export const MAX_CROP_PRESET_SIDE = 10000;
+
+const ratioPreset = (width: number, height: number): CropPreset => ({
+  id: `ratio-${width}-${height}`,
+  name: `${width}:${height}`,
+  width,
+  height,
+  exactSize: false,
+  isBuiltIn: true,
+});
+
+export const BUILT_IN_CROP_PRESETS: CropPreset[] = [
+  ratioPreset(1, 1),
+  ratioPreset(16, 9),
+  ratioPreset(9, 16),
+  ratioPreset(4, 3),
+  ratioPreset(3, 4),
+  ratioPreset(2, 3),
+  ratioPreset(4, 5),
+  ratioPreset(21, 9),
+];
+
+export const MODEL_TARGET_SIZES: ModelTargetSize[] = [
+  {
+    id: 'sdxl',
+    label: 'Stable Diffusion XL',
+    sizes: [
+      { width: 1024, height: 1024 },
+      { width: 1152, height: 896 },
+      { width: 896, height: 1152 },
+      { width: 1216, height: 832 },
+      { width: 832, height: 1216 },
+      { width: 1344, height: 768 },
+      { width: 768, height: 1344 },
+      { width: 1536, height: 640 },
+      { width: 640, height: 1536 },
+    ],
+  },
+  {
+    id: 'sd15',
+    label: 'Stable Diffusion 1.5',
+    sizes: [
+      { width: 512, height: 512 },
+      { width: 768, height: 512 },
+      { width: 512, height: 768 },
+    ],
+  },
+  {
+    id: 'dalle3',
+    label: 'DALL·E 3',
+    sizes: [
+      { width: 1024, height: 1024 },
+      { width: 1792, height: 1024 },
+      { width: 1024, height: 1792 },
+    ],
+  },
+  {
+    id: 'gpt-image-1',
+    label: 'GPT Image',
+    sizes: [
+      { width: 1024, height: 1024 },
+      { width: 1536, height: 1024 },
+      { width: 1024, height: 1536 },
+    ],
+  },
+];
+
+export const isValidPresetSide = (value: number): boolean =>
+  Number.isInteger(value) && value >= 1 && value <= MAX_CROP_PRESET_SIDE;
+
+const isValidCropPreset = (preset: any): preset is CropPreset =>
+  !!preset &&
+  typeof preset === 'object' &&
+  typeof preset.id === 'string' &&
+  typeof preset.name === 'string' &&
+  isValidPresetSide(preset.width) &&
+  isValidPresetSide(preset.height) &&
+  typeof preset.exactSize === 'boolean';
+
+/**
+ * Reads the cropper presets: the built-in ratios followed by the user's own.
+ */
+export const loadCropPresets = (): CropPreset[] => {
+  try {
+    const raw = localStorage.getItem(CROP_PRESETS_STORAGE_KEY);
+    const saved = raw ? JSON.parse(raw) : [];
+    const builtInIds = new Set(BUILT_IN_CROP_PRESETS.map((preset) => preset.id));
+    const userPresets = Array.isArray(saved)
+      ? saved.filter(isValidCropPreset).filter((preset) => !builtInIds.has(preset.id))
+      : [];
+    return [...BUILT_IN_CROP_PRESETS, ...userPresets.map((preset) => ({ ...preset, isBuiltIn: false }))];
+  } catch (error) {
+    console.warn('Ignoring unreadable crop presets:', error);
+    return BUILT_IN_CROP_PRESETS;
+  }
+};
+
+/**
+ * Saves the user's cropper presets to localStorage; built-in presets are never written.
+ */
+export const saveCropPresets = (presets: CropPreset[]): void => {
+  localStorage.setItem(CROP_PRESETS_STORAGE_KEY, JSON.stringify(presets.filter((preset) => !preset.isBuiltIn)));
+};
+
+/**
+ * The model size whose aspect ratio is closest to the given one, e.g. to preselect a size for the image being cropped.
+ */
+export const closestTargetSize = (model: ModelTargetSize, width: number, height: number): { width: number; height: number } => {
+  // Compared on a log scale, so 2:1 and 1:2 are equally far from 1:1
+  const distance = (size: { width: number; height: number }) => Math.abs(Math.log(size.width / size.height) - Math.log(width / height));
+  return model.sizes.reduce((best, size) => (distance(size) < distance(best) ? size : best));
+};
@@ -0,0 +1,21 @@
+/**
+ * Saves text content as a file through a temporary object URL.
+ * @param fileName The suggested file name.
+ * @param content The file content.
+ * @param mimeType The MIME type, e.g. 'application/json'.
+ */
+export const downloadTextFile = (fileName: string, content: string, mimeType: string): void => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Timestamp for file names, e.g. '2024-05-01_13-45-10'
+export const fileTimestamp = (date: Date = new Date()): string =>
+  date.toISOString().slice(0, 19).replace('T', '_').replace(/:/g, '-');
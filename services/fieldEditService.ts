@@ -0,0 +1,33 @@
+import { AnalysisCategory, AnalysisCategoryId, ImageAnalysisResult } from '../types';
+import { resolveSelectedCategories } from './categoryService';
+
+/**
+ * Returns the result with the user's edits laid over the model output.
+ * This is what the refine prompt is assembled from; the raw output itself is never changed.
+ */
+export const applyFieldEdits = (result: ImageAnalysisResult | null, edits: Record<string, string>): ImageAnalysisResult | null =>
+  result ? { ...result, ...edits } : null;
+
+/**
+ * Records an edit to one field. Text that matches the model output again counts as unedited.
+ */
+export const setFieldEdit = (
+  edits: Record<string, string>,
+  result: ImageAnalysisResult | null,
+  schemaKey: string,
+  value: string,
+): Record<string, string> => {
+  const rest = { ...edits };
+  delete rest[schemaKey];
+  return value === (result?.[schemaKey] || '') ? rest : { ...rest, [schemaKey]: value };
+};
+
+/**
+ * The categories shown as editable cards: those the analysis covered and the model answered.
+ */
+export const editableCategories = (
+  result: ImageAnalysisResult | null,
+  selectedOptions: AnalysisCategoryId[],
+  categories: AnalysisCategory[],
+): AnalysisCategory[] =>
+  result ? resolveSelectedCategories(categories, selectedOptions).filter((category) => category.schemaKey in result) : [];
@@ -1,136 +1,136 @@
-import { GoogleGenAI, Type } from '@google/genai';
-import { AnalysisOption, ImageAnalysisResult } from '../types';
+import { ApiError, BlockedReason, FinishReason, GoogleGenAI, Type } from '@google/genai';
+import { AppSettings } from '../types';
+import {
+  AnalysisRequest,
+  AnalysisStreamOptions,
+  SUBJECTS_KEY,
+  VisionProvider,
+  buildAnalysisPrompt,
+  errorForHttpStatus,
+  parsePartialAnalysisJson,
+} from './visionProvider';
+import { AuthError, SafetyBlockedError } from './appError';
+
+// Finish reasons meaning Gemini's safety filters stopped the reply, as opposed to running out of tokens
+const SAFETY_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT,
+];
 
 /**
  * Initializes the GoogleGenAI client.
- * API Key is expected from process.env.API_KEY.
+ * API Key is read from the Gemini provider settings.
  */
-const getGeminiClient = () => {
-  if (!process.env.API_KEY) {
-    throw new Error('API_KEY environment variable is not set.');
+const getGeminiClient = (settings: AppSettings) => {
+  if (!settings.gemini.apiKey) {
+    throw new AuthError('error.geminiApiKeyMissing');
   }
-  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return new GoogleGenAI({ apiKey: settings.gemini.apiKey });
 };
 
 /**
- * Analyzes an image based on selected options and generates a descriptive prompt.
- * @param base64Image The base64 encoded image data (e.g., 'data:image/png;base64,...').
- * @param options An array of AnalysisOption to guide the description.
- * @param otherAnalysisText Optional custom text for analysis if 'OTHER' option is selected.
- * @param isDetailedRequest If true, prompts the AI for more detailed descriptions.
- * @returns A promise that resolves to the generated descriptive prompt.
+ * Reads the wait Gemini asks for on a 429, which it sends as a RetryInfo detail (e.g. "retryDelay": "30s") inside the message.
  */
-export const analyzeImage = async (
-  base64Image: string,
-  options: AnalysisOption[],
-  otherAnalysisText: string = '',
-  isDetailedRequest: boolean = false, // New parameter
-): Promise<ImageAnalysisResult> => { // Changed return type to ImageAnalysisResult
-  try {
-    const ai = getGeminiClient();
-
-    const [mimeType, data] = base64Image.split(';base64,');
-    if (!data) {
-      throw new Error('Invalid base64 image format.');
-    }
-
-    let promptParts: string[] = [];
-    let schemaProperties: { [key: string]: any } = {};
-
-    const isNoOptionsSelected = options.length === 0;
-
-    // Define standard options and their corresponding schema properties
-    const standardOptions = [
-      { enum: AnalysisOption.CHARACTER_ATTIRE, prompt: '人物的裝束（風格、顏色、面料、配件）', schemaKey: 'characterAttire', description: '詳細描述人物的裝束，包括風格、顏色、面料、配件等，嚴格不包含人物姿勢、表情、照片背景或鏡頭角度等其他類別的細節。' },
-      { enum: AnalysisOption.CHARACTER_POSE, prompt: '人物的姿勢和動態，不包括面部表情。', schemaKey: 'characterPose', description: '詳細描述人物的姿勢和動態，不包含面部表情、裝束、照片背景或鏡頭角度等其他類別的細節。' },
-      { enum: AnalysisOption.CHARACTER_EXPRESSION, prompt: '人物的面部表情和情緒', schemaKey: 'characterExpression', description: '詳細描述人物的面部表情和情緒，嚴格不包含姿勢、裝束、照片背景或鏡頭角度等其他類別的細節。' },
-      { enum: AnalysisOption.PHOTO_BACKGROUND, prompt: '照片的背景（場景、元素、光線、氛圍）', schemaKey: 'photoBackground', description: '詳細描述照片的背景，包括場景、元素、光線、氛圍等，嚴格不包含人物裝束、姿勢、表情或鏡頭角度等其他類別的細節。' },
-      { enum: AnalysisOption.CAMERA_ANGLE, prompt: '鏡頭角度（視角、距離、高度）', schemaKey: 'cameraAngle', description: '詳細描述鏡頭角度，包括視角、距離、高度等，嚴格不包含人物裝束、姿勢、表情或照片背景等其他類別的細節。' },
-    ];
-
-    if (isNoOptionsSelected) {
-      // Default to all standard options if none are selected
-      standardOptions.forEach(opt => {
-        promptParts.push(opt.prompt);
-        schemaProperties[opt.schemaKey] = { type: Type.STRING, description: opt.description };
-      });
-    } else {
-      // Add selected standard options
-      standardOptions.forEach(opt => {
-        if (options.includes(opt.enum)) {
-          promptParts.push(opt.prompt);
-          schemaProperties[opt.schemaKey] = { type: Type.STRING, description: opt.description };
-        }
-      });
-      // Add 'OTHER' option if selected and text is provided
-      if (options.includes(AnalysisOption.OTHER) && otherAnalysisText.trim()) {
-        promptParts.push(`用戶指定的內容："${otherAnalysisText.trim()}"`);
-        schemaProperties.otherAnalysis = { type: Type.STRING, description: '詳細描述用戶指定的其他分析內容，嚴格僅限於此指定內容。' };
-      }
-    }
+const retryDelayFromMessage = (message: string): number | null => {
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Number(match[1]) * 1000 : null;
+};
 
-    if (Object.keys(schemaProperties).length === 0) {
-      throw new Error('請選擇至少一個有效的分析選項或輸入「其他」的內容。');
-    }
+/**
+ * Turns an API error from the SDK into the matching typed error; anything else is passed through.
+ */
+const toTypedError = (error: unknown): unknown => {
+  if (error instanceof ApiError) {
+    return errorForHttpStatus(error.status, retryDelayFromMessage(error.message), error.message) || error;
+  }
+  return error;
+};
 
-    // Modify system instruction and user prompt for detailed requests
-    let systemInstruction = `你是一個圖像分析AI，專門為AI圖像編輯生成描述。你的任務是從提供的圖片中提取並描述用戶指定的方面。`;
-    let userPrompt = `請分析圖片中關於以下指定內容，並以JSON格式輸出。每個描述都應直接、精簡，且嚴格僅限於其對應的類別。輸出必須嚴格遵循提供的JSON結構，不含任何額外文字。`;
+/**
+ * Analyzes an image with Gemini using its native structured-output schema.
+ * The response is streamed, so fields can be shown while they are still being written.
+ * @param request The image, selected options and detail flag.
+ * @param settings The current app settings (API key, model and generation parameters).
+ * @param stream Optional abort signal and partial-result callback.
+ * @returns A promise that resolves to the model's JSON reply text.
+ */
+const analyzeWithGemini = async (
+  request: AnalysisRequest,
+  settings: AppSettings,
+  stream: AnalysisStreamOptions = {},
+): Promise<string> => {
+  const ai = getGeminiClient(settings);
+  const { mimeType, data, reference, fields, subjects, systemInstruction, userPrompt } = buildAnalysisPrompt(request);
 
-    if (isDetailedRequest) {
-      systemInstruction = `你是一個圖像分析AI，專門為AI圖像編輯生成詳細且具體的描述。你的任務是從提供的圖片中提取並描述用戶指定的方面。`;
-      userPrompt = `請分析圖片中關於以下指定內容，並以JSON格式輸出。每個描述都應提供盡可能多的細節和上下文，具體且詳盡，且嚴格僅限於其對應的類別。輸出必須嚴格遵循提供的JSON結構，不含任何額外文字。`;
-    }
+  const schemaProperties: { [key: string]: any } = {};
+  fields.forEach((field) => {
+    schemaProperties[field.schemaKey] = { type: Type.STRING, description: field.description };
+  });
+  // Last, so the shared string fields stream in before the people
+  if (subjects) {
+    const subjectProperties: { [key: string]: any } = {};
+    subjects.fields.forEach((field) => {
+      subjectProperties[field.schemaKey] = { type: Type.STRING, description: field.description };
+    });
+    schemaProperties[SUBJECTS_KEY] = {
+      type: Type.ARRAY,
+      description: subjects.description,
+      items: { type: Type.OBJECT, properties: subjectProperties, propertyOrdering: Object.keys(subjectProperties) },
+    };
+  }
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
+  let text = '';
+  try {
+    const chunks = await ai.models.generateContentStream({
+      model: settings.gemini.model,
       contents: [
         { text: userPrompt },
+        // Transfer mode: the reference goes first, as the instructions expect
+        ...(reference ? [{ inlineData: reference }] : []),
         {
           inlineData: {
-            mimeType: mimeType.replace('data:', ''),
+            mimeType: mimeType,
             data: data,
           },
         },
       ],
       config: {
         systemInstruction: systemInstruction,
+        temperature: settings.generation.temperature,
+        topP: settings.generation.topP,
+        maxOutputTokens: settings.generation.maxOutputTokens,
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
           properties: schemaProperties,
           propertyOrdering: Object.keys(schemaProperties), // Maintain order for consistency
         },
+        abortSignal: stream.signal,
       },
     });
 
-    const jsonStr = response.text?.trim();
-    if (!jsonStr) {
-      throw new Error('No JSON output generated by the model. It might be blocked due to safety concerns or other issues.');
-    }
-
-    // Attempt to parse JSON
-    try {
-      const parsedResult: ImageAnalysisResult = JSON.parse(jsonStr);
-      return parsedResult;
-    } catch (parseError) {
-      console.error('Failed to parse JSON response:', jsonStr, parseError);
-      throw new Error('模型返回的數據格式不正確。請檢查模型輸出是否符合預期的JSON結構。');
-    }
-  } catch (error: any) {
-    console.error('Error analyzing image:', error);
-    if (error.response && error.response.status) {
-      // Handle specific HTTP errors from the API
-      if (error.response.status === 400) {
-        throw new Error('Bad Request: The request was malformed or invalid. Check your input data.');
-      } else if (error.response.status === 401 || error.response.status === 403) {
-        throw new Error('Authentication Error: Invalid or missing API key. Please ensure your API key is correctly configured.');
-      } else if (error.response.status === 429) {
-        throw new Error('Rate Limit Exceeded: Too many requests. Please try again after some time.');
-      } else if (error.response.status >= 500) {
-        throw new Error('Server Error: The AI service encountered an issue. Please try again later.');
+    for await (const chunk of chunks) {
+      stream.signal?.throwIfAborted();
+      const blockReason = chunk.promptFeedback?.blockReason;
+      if (
+        (blockReason && blockReason !== BlockedReason.BLOCKED_REASON_UNSPECIFIED) ||
+        SAFETY_FINISH_REASONS.includes(chunk.candidates?.[0]?.finishReason)
+      ) {
+        throw new SafetyBlockedError();
       }
+      text += chunk.text || '';
+      stream.onPartialResult?.(parsePartialAnalysisJson(text));
     }
-    throw new Error(`Failed to analyze image: ${error.message || 'Unknown error'}`);
+  } catch (error) {
+    throw toTypedError(error);
   }
-};
\ No newline at end of file
+  return text;
+};
+
+export const geminiProvider: VisionProvider = {
+  analyze: analyzeWithGemini,
+};
@@ -0,0 +1,60 @@
+import { UiLocale } from '../types';
+import zhTW, { MessageKey } from '../locales/zh-TW';
+import en from '../locales/en';
+
+const LOCALE_STORAGE_KEY = 'ai-image-refiner:locale';
+
+export const DEFAULT_UI_LOCALE: UiLocale = 'zh-TW';
+
+// Interface languages offered in the language switcher, each labelled in its own language
+export const UI_LOCALES: { id: UiLocale; label: string }[] = [
+  { id: 'zh-TW', label: '繁體中文' },
+  { id: 'en', label: 'English' },
+];
+
+const catalogs: Record<UiLocale, Record<MessageKey, string>> = {
+  'zh-TW': zhTW,
+  en,
+};
+
+let currentLocale: UiLocale = DEFAULT_UI_LOCALE;
+
+const isUiLocale = (value: unknown): value is UiLocale => UI_LOCALES.some((locale) => locale.id === value);
+
+/**
+ * Reads the saved interface language, falling back to the default.
+ */
+export const loadLocale = (): UiLocale => {
+  try {
+    const saved = localStorage.getItem(LOCALE_STORAGE_KEY);
+    return isUiLocale(saved) ? saved : DEFAULT_UI_LOCALE;
+  } catch {
+    return DEFAULT_UI_LOCALE;
+  }
+};
+
+export const saveLocale = (locale: UiLocale): void => {
+  localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+};
+
+export const getLocale = (): UiLocale => currentLocale;
+
+/**
+ * Switches the language t() translates into. Components pick up the change on their next render,
+ * so App keeps the locale in state as well to trigger one.
+ */
+export const setLocale = (locale: UiLocale): void => {
+  currentLocale = locale;
+  document.documentElement.lang = locale;
+};
+
+/**
+ * Translates a message key into the current interface language.
+ * `{name}` placeholders are replaced by the matching parameter; placeholders without a parameter are left as-is.
+ */
+export const t = (key: MessageKey, params: Record<string, string | number> = {}): string => {
+  const message = catalogs[currentLocale][key] ?? zhTW[key];
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+};
+
+export type { MessageKey };
@@ -0,0 +1,93 @@
+import { ImageEdits, ImageEditState } from '../types';
+import { AppError } from './appError';
+import { ENCODABLE_TYPES, loadImage } from './imagePreprocessService';
+
+// Quality of JPEG and WebP output; PNG is lossless
+const EDIT_QUALITY = 0.95;
+
+// e.g. 'image/png' for 'data:image/png;base64,...'
+const dataUrlMimeType = (dataUrl: string): string => dataUrl.slice(5, dataUrl.indexOf(';'));
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new AppError('error.canvasUnavailable');
+  }
+  return { canvas, ctx };
+};
+
+/**
+ * Mirrors an image, for previewing flips in the cropper. The result is a PNG, so nothing is lost.
+ * @returns The mirrored image as a data URL, or the image itself when neither flip is set.
+ */
+export const flipImage = async (dataUrl: string, horizontal: boolean, vertical: boolean): Promise<string> => {
+  if (!horizontal && !vertical) return dataUrl;
+  const image = await loadImage(dataUrl);
+  const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+  ctx.translate(horizontal ? canvas.width : 0, vertical ? canvas.height : 0);
+  ctx.scale(horizontal ? -1 : 1, vertical ? -1 : 1);
+  ctx.drawImage(image, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Applies edits to an original image: flips and rotates it around its center, cuts out the crop,
+ * and scales the crop to the output size if one is set.
+ * The result keeps the original's format where a canvas can encode it, so PNG and WebP keep their transparency;
+ * anything else becomes PNG. Areas the crop reaches beyond the picture stay transparent, or white in a JPEG.
+ * @returns The edited image as a data URL.
+ */
+export const renderImageEdits = async (original: string, edits: ImageEdits): Promise<string> => {
+  const image = await loadImage(original);
+  const { crop } = edits;
+  const output = edits.outputSize ?? crop;
+  const { canvas, ctx } = createCanvas(output.width, output.height);
+  const sourceType = dataUrlMimeType(original);
+  const type = ENCODABLE_TYPES.includes(sourceType) ? sourceType : 'image/png';
+  if (type === 'image/jpeg') {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.scale(canvas.width / crop.width, canvas.height / crop.height);
+  ctx.translate(image.naturalWidth / 2 - crop.x, image.naturalHeight / 2 - crop.y);
+  ctx.rotate((edits.rotation * Math.PI) / 180);
+  ctx.scale(edits.flipHorizontal ? -1 : 1, edits.flipVertical ? -1 : 1);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, -image.naturalWidth / 2, -image.naturalHeight / 2);
+  return canvas.toDataURL(type, EDIT_QUALITY);
+};
+
+const isFiniteNumber = (value: any): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isPositiveSize = (size: any): boolean =>
+  !!size && isFiniteNumber(size.width) && isFiniteNumber(size.height) && size.width > 0 && size.height > 0;
+
+/**
+ * Checks that an edited image's original and edits read from storage or a workspace file can still be used.
+ */
+export const isValidImageEditState = (state: any): state is ImageEditState => {
+  if (!state || typeof state !== 'object' || typeof state.original !== 'string') return false;
+  const { edits } = state;
+  return (
+    !!edits &&
+    typeof edits === 'object' &&
+    isPositiveSize(edits.crop) &&
+    isFiniteNumber(edits.crop.x) &&
+    isFiniteNumber(edits.crop.y) &&
+    isFiniteNumber(edits.rotation) &&
+    typeof edits.flipHorizontal === 'boolean' &&
+    typeof edits.flipVertical === 'boolean' &&
+    (edits.aspect === null || (isFiniteNumber(edits.aspect) && edits.aspect > 0)) &&
+    // Absent in tabs saved before crops could be scaled
+    (edits.outputSize === undefined || edits.outputSize === null || isPositiveSize(edits.outputSize))
+  );
+};
+
+/**
+ * Copies a stored edit state, filling fields that older records lack; invalid states become null.
+ */
+export const normalizeImageEditState = (state: any): ImageEditState | null =>
+  isValidImageEditState(state) ? { ...state, edits: { ...state.edits, outputSize: state.edits.outputSize ?? null } } : null;
@@ -0,0 +1,94 @@
+import { AppError } from './appError';
+
+export interface ImageFileData {
+  name: string; // File name, including its folder path when read from a dropped directory
+  dataUrl: string; // Base64 data URL, e.g. 'data:image/png;base64,...'
+}
+
+const isImageFile = (file: File): boolean => file.type.startsWith('image/');
+
+/**
+ * Reads a file or blob into a base64 data URL.
+ */
+export const readFileAsDataUrl = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      if (typeof reader.result === 'string') {
+        resolve(reader.result);
+      } else {
+        reject(new AppError('error.fileReadBase64Failed'));
+      }
+    };
+    reader.onerror = () => {
+      reject(new AppError('error.fileReadFailed'));
+    };
+    reader.readAsDataURL(file);
+  });
+
+const readEntryFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+// readEntries returns directory contents in chunks, so keep reading until it yields an empty batch
+const readAllDirectoryEntries = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const collectFilesFromEntry = async (entry: FileSystemEntry, files: File[]): Promise<void> => {
+  if (entry.isFile) {
+    const file = await readEntryFile(entry as FileSystemFileEntry);
+    if (isImageFile(file)) {
+      // Keep the folder path so images with the same name in different folders can be told apart
+      files.push(new File([file], entry.fullPath.replace(/^\//, '') || file.name, { type: file.type }));
+    }
+  } else if (entry.isDirectory) {
+    const children = await readAllDirectoryEntries(entry as FileSystemDirectoryEntry);
+    for (const child of children) {
+      await collectFilesFromEntry(child, files);
+    }
+  }
+};
+
+/**
+ * Collects every image file from a drop, recursing into dropped folders.
+ * @param dataTransfer The DataTransfer of a drop event.
+ * @returns The image files in the order they were found.
+ */
+export const collectImageFilesFromDataTransfer = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  // Entries must be taken synchronously; the DataTransfer is emptied once the event handler yields
+  const entries = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === 'file')
+    .map((item) => item.webkitGetAsEntry?.() || null);
+
+  if (entries.length === 0 || entries.some((entry) => entry === null)) {
+    // Browsers without entry support: fall back to the flat file list
+    return Array.from(dataTransfer.files).filter(isImageFile);
+  }
+
+  const files: File[] = [];
+  for (const entry of entries) {
+    await collectFilesFromEntry(entry!, files);
+  }
+  return files;
+};
+
+/**
+ * Reads the image files out of a file list (e.g. from a multi-file or folder input), skipping anything else.
+ * @param read Turns one file into a data URL; defaults to reading it unchanged.
+ */
+export const readImageFiles = async (
+  files: File[],
+  read: (file: File) => Promise<string> = readFileAsDataUrl,
+): Promise<ImageFileData[]> => {
+  const images: ImageFileData[] = [];
+  for (const file of files.filter(isImageFile)) {
+    images.push({ name: file.webkitRelativePath || file.name, dataUrl: await read(file) });
+  }
+  return images;
+};
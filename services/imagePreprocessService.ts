@@ -0,0 +1,254 @@
+import { ImageFacts, ImageProcessingInfo, ImageProcessingSettings } from '../types';
+import { AppError, InvalidImageError } from './appError';
+import { readFileAsDataUrl } from './imageFileService';
+
+export interface PreprocessedImage {
+  dataUrl: string;
+  info: ImageProcessingInfo;
+}
+
+export interface PreprocessedImageFile extends PreprocessedImage {
+  name: string; // File name, e.g. to tell dropped images apart
+}
+
+// Formats every browser can encode from a canvas; anything else is turned into PNG
+export const ENCODABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+interface JpegMetadata {
+  orientation: number; // EXIF orientation, 1 to 8; 1 when there is no EXIF data
+  width: number; // Stored pixel size, before orientation
+  height: number;
+}
+
+/**
+ * Reads the EXIF orientation and the stored pixel size of a JPEG, without decoding it.
+ * @returns The metadata, or null if the bytes are not a JPEG or end before its frame header.
+ */
+export const readJpegMetadata = (bytes: Uint8Array): JpegMetadata | null => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let orientation = 1;
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    const length = view.getUint16(offset + 2);
+    // APP1 holding "Exif\0\0", followed by a TIFF header whose first directory may carry tag 0x0112
+    if (marker === 0xe1 && offset + 18 <= bytes.length && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      const littleEndian = view.getUint16(tiff) === 0x4949;
+      const directory = tiff + view.getUint32(tiff + 4, littleEndian);
+      const entryCount = directory + 2 <= bytes.length ? view.getUint16(directory, littleEndian) : 0; // Offset past the end: no entries
+      for (let entry = directory + 2; entry < directory + 2 + entryCount * 12 && entry + 12 <= bytes.length; entry += 12) {
+        if (view.getUint16(entry, littleEndian) === 0x0112) {
+          const value = view.getUint16(entry + 8, littleEndian);
+          if (value >= 1 && value <= 8) orientation = value;
+        }
+      }
+    }
+    // Start-of-frame markers (SOF0-SOF15, except DHT, JPG and DAC) hold the pixel size
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      if (offset + 9 > bytes.length) return null;
+      return { orientation, height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) };
+    }
+    if (marker === 0xda) return null; // Image data starts without a frame header
+    offset += 2 + length;
+  }
+  return null;
+};
+
+// PNG chunks that carry text, EXIF or a timestamp rather than pixels
+const PNG_METADATA_CHUNKS = ['tEXt', 'zTXt', 'iTXt', 'eXIf', 'tIME'];
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number): string =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+/**
+ * Whether a JPEG, PNG or WebP file carries metadata that re-encoding would strip: EXIF, XMP, comments or text.
+ * Unreadable files and other formats count as having some, so they are re-encoded to be safe.
+ */
+export const hasStrippableMetadata = (bytes: Uint8Array, mimeType: string): boolean => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (mimeType === 'image/jpeg') {
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      if (marker === 0xda) return false; // Image data starts; metadata segments come before it
+      // APP1 to APP15 (EXIF, XMP, ICC, vendor data) and comments; APP0 is the plain JFIF header
+      if ((marker >= 0xe1 && marker <= 0xef) || marker === 0xfe) return true;
+      offset += 2 + view.getUint16(offset + 2);
+    }
+    return true;
+  }
+  if (mimeType === 'image/png') {
+    for (let offset = 8; offset + 8 <= bytes.length; offset += 12 + view.getUint32(offset)) {
+      const type = readAscii(bytes, offset + 4, 4);
+      if (PNG_METADATA_CHUNKS.includes(type)) return true;
+      if (type === 'IEND') return false;
+    }
+    return true;
+  }
+  if (mimeType === 'image/webp') {
+    // RIFF chunks after the 12-byte file header; sizes are little-endian and padded to even lengths
+    for (let offset = 12; offset + 8 <= bytes.length; offset += 8 + view.getUint32(offset + 4, true) + (view.getUint32(offset + 4, true) % 2)) {
+      const type = readAscii(bytes, offset, 4);
+      if (type === 'EXIF' || type === 'XMP ') return true;
+    }
+    return false;
+  }
+  return true;
+};
+
+// Orientations 5 to 8 turn the picture by 90 degrees, swapping width and height
+const swapsSides = (orientation: number) => orientation >= 5;
+
+// Canvas transforms that turn a drawing of the stored image (width w, height h) upright, per EXIF orientation
+const ORIENTATION_TRANSFORMS: Record<number, (w: number, h: number) => [number, number, number, number, number, number]> = {
+  2: (w) => [-1, 0, 0, 1, w, 0],
+  3: (w, h) => [-1, 0, 0, -1, w, h],
+  4: (_w, h) => [1, 0, 0, -1, 0, h],
+  5: () => [0, 1, 1, 0, 0, 0],
+  6: (_w, h) => [0, 1, -1, 0, h, 0],
+  7: (w, h) => [0, -1, -1, 0, h, w],
+  8: (w) => [0, -1, 1, 0, 0, w],
+};
+
+/**
+ * Whether the browser already turned the decoded image upright. Current browsers do, as they apply
+ * `image-orientation: from-image` by default; where width and height differ, the decoded size tells for sure.
+ */
+const browserAppliedOrientation = (metadata: JpegMetadata, decoded: HTMLImageElement): boolean => {
+  if (metadata.orientation === 1) return true;
+  if (swapsSides(metadata.orientation) && metadata.width !== metadata.height) {
+    return decoded.naturalWidth === metadata.height;
+  }
+  return typeof CSS !== 'undefined' && CSS.supports('image-orientation', 'from-image');
+};
+
+/**
+ * Decodes an image from a data URL.
+ * @throws InvalidImageError if the browser cannot decode it.
+ */
+export const loadImage = (dataUrl: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    // Typically HEIC or another format the browser cannot decode
+    image.onerror = () => reject(new InvalidImageError('error.imageUnsupported'));
+    image.src = dataUrl;
+  });
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new AppError('error.imageEncodeFailed'))), type, quality);
+  });
+
+/**
+ * Prepares an image for the model: turns it upright according to its EXIF orientation, scales it down
+ * to the longest side allowed, and re-encodes it, which also drops EXIF, GPS and other metadata.
+ * PNG and WebP keep their transparency; transparent areas become white when converted to JPEG.
+ * An image that needs none of this is passed through as it is, so it is not recompressed;
+ * a GIF is kept as it is unless it has to be scaled down, so an animation keeps playing.
+ * @param file The image as read from a file, the clipboard or a URL.
+ * @param settings The preprocessing options; when disabled the file is passed through unchanged.
+ * @returns The image to use as a data URL, and the sizes before and after.
+ */
+export const preprocessImage = async (file: Blob, settings: ImageProcessingSettings): Promise<PreprocessedImage> => {
+  const originalUrl = await readFileAsDataUrl(file);
+  const image = await loadImage(originalUrl);
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const metadata = file.type === 'image/jpeg' ? readJpegMetadata(bytes) : null;
+  const orientation = metadata && !browserAppliedOrientation(metadata, image) ? metadata.orientation : 1;
+
+  // Size as displayed, i.e. after orientation
+  const width = swapsSides(orientation) ? image.naturalHeight : image.naturalWidth;
+  const height = swapsSides(orientation) ? image.naturalWidth : image.naturalHeight;
+  const original: ImageFacts = { mimeType: file.type, bytes: file.size, width, height };
+  if (!settings.enabled) {
+    return { dataUrl: originalUrl, info: { original, processed: original, orientation: 1 } };
+  }
+
+  const scale = Math.min(1, settings.maxDimension / Math.max(width, height));
+  const keepsFormat = settings.format === 'original' || settings.format === file.type;
+  const isUnchanged =
+    scale === 1 &&
+    (file.type === 'image/gif' ||
+      (orientation === 1 && keepsFormat && ENCODABLE_TYPES.includes(file.type) && !hasStrippableMetadata(bytes, file.type)));
+  if (isUnchanged) {
+    return { dataUrl: originalUrl, info: { original, processed: original, orientation: metadata?.orientation ?? 1 } };
+  }
+  const targetWidth = Math.max(1, Math.round(width * scale));
+  const targetHeight = Math.max(1, Math.round(height * scale));
+  // Size of the unrotated drawing
+  const drawWidth = swapsSides(orientation) ? targetHeight : targetWidth;
+  const drawHeight = swapsSides(orientation) ? targetWidth : targetHeight;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = targetWidth;
+  canvas.height = targetHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new AppError('error.canvasUnavailable');
+  }
+  const type =
+    settings.format === 'original' ? (ENCODABLE_TYPES.includes(file.type) ? file.type : 'image/png') : settings.format;
+  if (type === 'image/jpeg') {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, targetWidth, targetHeight);
+  }
+  const transform = ORIENTATION_TRANSFORMS[orientation];
+  if (transform) ctx.transform(...transform(drawWidth, drawHeight));
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, drawWidth, drawHeight);
+
+  // Browsers that cannot encode the requested type fall back to PNG; the blob says what was produced
+  const blob = await canvasToBlob(canvas, type, settings.quality);
+  return {
+    dataUrl: await readFileAsDataUrl(blob),
+    info: {
+      original,
+      processed: { mimeType: blob.type, bytes: blob.size, width: targetWidth, height: targetHeight },
+      orientation: metadata?.orientation ?? 1,
+    },
+  };
+};
+
+/**
+ * Prepares several images one after another, keeping their order.
+ * @throws InvalidImageError if any of them cannot be decoded.
+ */
+export const preprocessImageFiles = async (files: File[], settings: ImageProcessingSettings): Promise<PreprocessedImageFile[]> => {
+  const images: PreprocessedImageFile[] = [];
+  for (const file of files) {
+    images.push({ name: file.name, ...(await preprocessImage(file, settings)) });
+  }
+  return images;
+};
+
+/**
+ * Shortens a MIME type for display, e.g. 'image/jpeg' to 'JPEG'.
+ */
+export const formatLabel = (mimeType: string): string => (mimeType.replace(/^image\//, '').split('+')[0] || '?').toUpperCase();
+
+/**
+ * Formats a byte count for display, e.g. 1536 to '1.5 KB'.
+ */
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const isFacts = (facts: any): facts is ImageFacts =>
+  !!facts &&
+  typeof facts === 'object' &&
+  typeof facts.mimeType === 'string' &&
+  typeof facts.bytes === 'number' &&
+  typeof facts.width === 'number' &&
+  typeof facts.height === 'number';
+
+/**
+ * Checks that preprocessing details read from storage or a workspace file can still be shown.
+ */
+export const isValidImageProcessingInfo = (info: any): info is ImageProcessingInfo =>
+  !!info && typeof info === 'object' && isFacts(info.original) && isFacts(info.processed) && typeof info.orientation === 'number';
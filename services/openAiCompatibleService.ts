@@ -0,0 +1,173 @@
+import { AppSettings, OutputLanguage } from '../types';
+import {
+  AnalysisField,
+  AnalysisRequest,
+  AnalysisStreamOptions,
+  AnalysisPrompt,
+  SUBJECTS_KEY,
+  VisionProvider,
+  buildAnalysisPrompt,
+  errorForHttpStatus,
+  parsePartialAnalysisJson,
+  parseRetryAfter,
+} from './visionProvider';
+import { AppError, SafetyBlockedError } from './appError';
+
+// The finish reason OpenAI-compatible servers report when their moderation cut the reply off
+const CONTENT_FILTER_FINISH_REASON = 'content_filter';
+
+// Key-list wording per output language, so the whole prompt stays in one language
+const JSON_KEY_TEXT: Record<
+  OutputLanguage,
+  { heading: string; describe: (field: AnalysisField) => string; describeArray: (key: string, description: string) => string }
+> = {
+  'zh-TW': {
+    heading: 'JSON 結構必須只包含以下鍵：',
+    describe: (field) => `- "${field.schemaKey}"（字串）：${field.prompt}。${field.description}`,
+    describeArray: (key, description) => `- "${key}"（物件陣列）：${description}每個物件只包含以下鍵：`,
+  },
+  en: {
+    heading: 'The JSON structure must contain only the following keys:',
+    describe: (field) => `- "${field.schemaKey}" (string): ${field.prompt}. ${field.description}`,
+    describeArray: (key, description) => `- "${key}" (array of objects): ${description} Each object contains only the following keys:`,
+  },
+  ja: {
+    heading: 'JSON構造には以下のキーのみを含めてください：',
+    describe: (field) => `- "${field.schemaKey}"（文字列）：${field.prompt}。${field.description}`,
+    describeArray: (key, description) => `- "${key}"（オブジェクトの配列）：${description}各オブジェクトには以下のキーのみを含めてください：`,
+  },
+};
+
+/**
+ * Describes the expected JSON keys in plain text, since not every OpenAI-compatible server
+ * (Ollama, LM Studio, vLLM, local mocks) honours a JSON schema in `response_format`.
+ */
+const describeJsonKeys = ({ fields, subjects, outputLanguage }: AnalysisPrompt): string => {
+  const { heading, describe, describeArray } = JSON_KEY_TEXT[outputLanguage];
+  const lines = fields.map(describe);
+  if (subjects) {
+    lines.push(describeArray(SUBJECTS_KEY, subjects.description), ...subjects.fields.map((field) => `  ${describe(field)}`));
+  }
+  return `${heading}\n${lines.join('\n')}`;
+};
+
+/**
+ * Collects the message text from a server-sent-events response, reporting the text received so far after every chunk.
+ * @throws SafetyBlockedError if the server's content filter stopped the reply.
+ */
+const readEventStream = async (response: Response, onText: (text: string) => void): Promise<string> => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let finishReason: string | null = null;
+  const readLine = (line: string) => {
+    const data = line.replace(/^data:\s*/, '').trim();
+    if (!line.startsWith('data:') || !data || data === '[DONE]') return;
+    try {
+      const choice = JSON.parse(data)?.choices?.[0];
+      text += choice?.delta?.content || '';
+      finishReason = choice?.finish_reason || finishReason;
+    } catch {
+      // Skip keep-alive comments and malformed events
+    }
+  };
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    // Events are separated by newlines; the last line may still be incomplete
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(readLine);
+    onText(text);
+  }
+  // A server may end the stream without a newline after its last event
+  buffer += decoder.decode();
+  if (buffer.trim()) {
+    readLine(buffer);
+    onText(text);
+  }
+  if (finishReason === CONTENT_FILTER_FINISH_REASON) {
+    throw new SafetyBlockedError();
+  }
+  return text;
+};
+
+/**
+ * Analyzes an image through any endpoint that implements the OpenAI `/chat/completions` API,
+ * such as Ollama's `/v1` endpoint or a local mock server.
+ * @param request The image, selected options and detail flag.
+ * @param settings The current app settings (base URL, optional API key, model and generation parameters).
+ * @param stream Optional abort signal and partial-result callback.
+ * @returns A promise that resolves to the model's JSON reply text.
+ */
+const analyzeWithOpenAiCompatible = async (
+  request: AnalysisRequest,
+  settings: AppSettings,
+  stream: AnalysisStreamOptions = {},
+): Promise<string> => {
+  const { baseUrl, apiKey, model } = settings.openAiCompatible;
+  if (!baseUrl.trim()) {
+    throw new AppError('error.openAiCompatibleUrlMissing');
+  }
+
+  const prompt = buildAnalysisPrompt(request);
+  const { mimeType, data, reference, systemInstruction, userPrompt } = prompt;
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+
+  const response = await fetch(`${baseUrl.trim().replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers,
+    signal: stream.signal,
+    body: JSON.stringify({
+      model,
+      stream: true,
+      temperature: settings.generation.temperature,
+      top_p: settings.generation.topP,
+      max_tokens: settings.generation.maxOutputTokens,
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: systemInstruction },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: `${userPrompt}\n${describeJsonKeys(prompt)}` },
+            // Transfer mode: the reference goes first, as the instructions expect
+            ...(reference
+              ? [{ type: 'image_url', image_url: { url: `data:${reference.mimeType};base64,${reference.data}` } }]
+              : []),
+            { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } },
+          ],
+        },
+      ],
+    }),
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw (
+      errorForHttpStatus(response.status, parseRetryAfter(response.headers.get('retry-after')), detail) ||
+      new AppError('error.requestFailedStatus', { status: response.status })
+    );
+  }
+
+  // Servers that ignore `stream` answer with a single JSON body instead of events
+  if (!response.headers.get('content-type')?.includes('text/event-stream') || !response.body) {
+    const body = await response.json();
+    const choice = body?.choices?.[0];
+    if (choice?.finish_reason === CONTENT_FILTER_FINISH_REASON) {
+      throw new SafetyBlockedError();
+    }
+    return choice?.message?.content || '';
+  }
+  return readEventStream(response, (partial) => stream.onPartialResult?.(parsePartialAnalysisJson(partial)));
+};
+
+export const openAiCompatibleProvider: VisionProvider = {
+  analyze: analyzeWithOpenAiCompatible,
+};
@@ -0,0 +1,16 @@
+import { OutputLanguage } from '../types';
+
+export const DEFAULT_OUTPUT_LANGUAGE: OutputLanguage = 'zh-TW';
+
+// Languages the analysis and refine prompt can be written in, in the order they are offered
+export const OUTPUT_LANGUAGES: { id: OutputLanguage; label: string }[] = [
+  { id: 'zh-TW', label: '繁體中文' },
+  { id: 'en', label: 'English' },
+  { id: 'ja', label: '日本語' },
+];
+
+export const isOutputLanguage = (value: unknown): value is OutputLanguage =>
+  OUTPUT_LANGUAGES.some((language) => language.id === value);
+
+export const outputLanguageLabel = (language: OutputLanguage): string =>
+  OUTPUT_LANGUAGES.find((entry) => entry.id === language)?.label || language;
@@ -0,0 +1,108 @@
+import { AnalysisCategory } from '../types';
+import {
+  AnalysisField,
+  AnalysisPrompt,
+  SUBJECTS_KEY,
+  SUBJECT_LABEL_KEY,
+  TRANSLATION_KEY_SUFFIX,
+  parseAnalysisJson,
+  parsePartialAnalysisJson,
+} from './visionProvider';
+import { labelForSchemaKey } from './categoryService';
+import { AppError } from './appError';
+import { t } from './i18n';
+
+// Extra requests sent after a reply fails validation, each carrying the rejected reply
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+export interface OutputValidation {
+  output: Record<string, unknown>; // Only what passed: string fields, and the subjects array with its valid fields
+  invalidKeys: string[]; // Requested keys that were missing, empty or not strings, e.g. 'characterAttire' or 'subjects[1].label'
+}
+
+type Reply = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Reply => !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Reads a reply for validation. A reply that is not valid JSON keeps whatever complete string fields
+ * can be salvaged from it; an empty or unreadable one counts as an object with every field missing.
+ */
+export const readReply = (text: string): Reply => {
+  try {
+    return parseAnalysisJson(text);
+  } catch (error) {
+    if (error instanceof AppError && error.code === 'error.invalidModelOutput') {
+      return parsePartialAnalysisJson(text);
+    }
+    return {};
+  }
+};
+
+/**
+ * Checks a reply against the fields that were requested.
+ * Empty strings are accepted in transfer mode, where they mean the aspect already matches the reference.
+ */
+export const validateAnalysisOutput = (reply: Reply, prompt: AnalysisPrompt): OutputValidation => {
+  const allowEmpty = !!prompt.reference;
+  const invalidKeys: string[] = [];
+
+  const pickFields = (source: Reply, fields: AnalysisField[], keyPrefix: string): Reply => {
+    const picked: Reply = {};
+    fields.forEach(({ schemaKey }) => {
+      const value = source[schemaKey];
+      if (typeof value === 'string' && (allowEmpty || value.trim())) {
+        picked[schemaKey] = value;
+      } else {
+        invalidKeys.push(`${keyPrefix}${schemaKey}`);
+      }
+    });
+    return picked;
+  };
+
+  const output = pickFields(reply, prompt.fields, '');
+  if (prompt.subjects) {
+    const subjects = reply[SUBJECTS_KEY];
+    if (Array.isArray(subjects) && subjects.length > 0) {
+      output[SUBJECTS_KEY] = subjects.map((subject, index) =>
+        pickFields(isObject(subject) ? subject : {}, prompt.subjects!.fields, `${SUBJECTS_KEY}[${index}].`),
+      );
+    } else {
+      invalidKeys.push(SUBJECTS_KEY);
+    }
+  }
+  return { output, invalidKeys };
+};
+
+/**
+ * Combines the valid parts of an earlier reply with a repaired one; the repaired reply wins where both have a value.
+ * People are matched by position, unless the repaired reply found a different number of them.
+ */
+export const mergeReplies = (previous: Reply, repaired: Reply): Reply => {
+  const merged: Reply = { ...previous, ...repaired };
+  const before = previous[SUBJECTS_KEY];
+  const after = repaired[SUBJECTS_KEY];
+  if (Array.isArray(before) && !Array.isArray(after)) {
+    merged[SUBJECTS_KEY] = before;
+  } else if (Array.isArray(before) && Array.isArray(after) && before.length === after.length) {
+    merged[SUBJECTS_KEY] = after.map((subject, index) => ({
+      ...(isObject(before[index]) ? before[index] : {}),
+      ...(isObject(subject) ? subject : {}),
+    }));
+  }
+  return merged;
+};
+
+/**
+ * The name to show for an invalid key: the category label, marked as the translation or as one person's field where needed.
+ */
+export const outputKeyLabel = (categories: AnalysisCategory[], key: string): string => {
+  if (key === SUBJECTS_KEY) return t('validation.subjects');
+  const subjectMatch = key.match(/^\w+\[(\d+)\]\.(.+)$/);
+  const fieldKey = subjectMatch ? subjectMatch[2] : key;
+  const isTranslation = fieldKey.endsWith(TRANSLATION_KEY_SUFFIX);
+  const schemaKey = isTranslation ? fieldKey.slice(0, -TRANSLATION_KEY_SUFFIX.length) : fieldKey;
+  let label = schemaKey === SUBJECT_LABEL_KEY ? t('validation.subjectLabel') : labelForSchemaKey(categories, schemaKey);
+  if (isTranslation) label = t('validation.translationOf', { field: label });
+  return subjectMatch ? t('validation.subjectField', { index: Number(subjectMatch[1]) + 1, field: label }) : label;
+};
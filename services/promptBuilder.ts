@@ -0,0 +1,191 @@
+import { AnalysisCategory, AnalysisCategoryId, AnalysisMode, AnalysisRegion, ImageAnalysisResult, OutputLanguage, PromptTemplate } from '../types';
+import { BUILT_IN_CATEGORIES, localizeCategory, resolveSelectedCategories } from './categoryService';
+import { DEFAULT_OUTPUT_LANGUAGE } from './outputLanguageService';
+
+export const DEFAULT_TEMPLATE_ID = 'builtin-default';
+
+/**
+ * The original refine-prompt phrasing, expressed as a template:
+ * the category's own prefix when only one category was analyzed, otherwise a general prefix followed by every field.
+ */
+export const DEFAULT_TEMPLATE: PromptTemplate = {
+  id: DEFAULT_TEMPLATE_ID,
+  name: '預設（中文改圖指令）',
+  body: '{#subject}針對{subject}：{/subject}{#single}{prefix} {all}{/single}{^single}將圖中內容修改為以下描述： {all}{/single}',
+  separator: '。',
+  isBuiltIn: true,
+};
+
+/**
+ * The same phrasing for the other output languages; `{prefix}` comes from the localized category.
+ */
+const DEFAULT_TEMPLATE_EN: PromptTemplate = {
+  id: 'builtin-default-en',
+  name: '預設（英文改圖指令）',
+  body: '{#subject}For {subject}: {/subject}{#single}{prefix} {all}{/single}{^single}Change the image to match the following description: {all}{/single}',
+  separator: '. ',
+  isBuiltIn: true,
+};
+
+const DEFAULT_TEMPLATE_JA: PromptTemplate = {
+  id: 'builtin-default-ja',
+  name: '預設（日文改圖指令）',
+  body: '{#subject}{subject}について：{/subject}{#single}{prefix} {all}{/single}{^single}画像の内容を次の説明に合わせて変更： {all}{/single}',
+  separator: '。',
+  isBuiltIn: true,
+};
+
+/**
+ * Transfer mode: every field is already a change instruction for the target image, so no category prefix is needed.
+ */
+const TRANSFER_TEMPLATE: PromptTemplate = {
+  id: 'builtin-transfer',
+  name: '參考圖轉移（中文改圖指令）',
+  body: '{#subject}針對{subject}：{/subject}{#single}{all}{/single}{^single}請對圖片做以下修改：{all}{/single}',
+  separator: '；',
+  isBuiltIn: true,
+};
+
+const TRANSFER_TEMPLATE_EN: PromptTemplate = {
+  id: 'builtin-transfer-en',
+  name: '參考圖轉移（英文改圖指令）',
+  body: '{#subject}For {subject}: {/subject}{#single}{all}{/single}{^single}Make the following changes to the image: {all}{/single}',
+  separator: '; ',
+  isBuiltIn: true,
+};
+
+const TRANSFER_TEMPLATE_JA: PromptTemplate = {
+  id: 'builtin-transfer-ja',
+  name: '參考圖轉移（日文改圖指令）',
+  body: '{#subject}{subject}について：{/subject}{#single}{all}{/single}{^single}画像に次の変更を加えてください：{all}{/single}',
+  separator: '。',
+  isBuiltIn: true,
+};
+
+const DEFAULT_TEMPLATES: Record<AnalysisMode, Record<OutputLanguage, PromptTemplate>> = {
+  describe: { 'zh-TW': DEFAULT_TEMPLATE, en: DEFAULT_TEMPLATE_EN, ja: DEFAULT_TEMPLATE_JA },
+  transfer: { 'zh-TW': TRANSFER_TEMPLATE, en: TRANSFER_TEMPLATE_EN, ja: TRANSFER_TEMPLATE_JA },
+};
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  DEFAULT_TEMPLATE,
+  DEFAULT_TEMPLATE_EN,
+  DEFAULT_TEMPLATE_JA,
+  TRANSFER_TEMPLATE,
+  TRANSFER_TEMPLATE_EN,
+  TRANSFER_TEMPLATE_JA,
+];
+
+/**
+ * The built-in template that matches an output language and analysis mode.
+ */
+export const defaultTemplateFor = (language: OutputLanguage, mode: AnalysisMode = 'describe'): PromptTemplate =>
+  DEFAULT_TEMPLATES[mode][language];
+
+/**
+ * Whether a template ID refers to one of the per-language built-in templates,
+ * which a tab follows automatically when its output language or analysis mode changes.
+ */
+export const isDefaultTemplateId = (id: string): boolean => BUILT_IN_TEMPLATES.some((template) => template.id === id);
+
+/**
+ * Placeholders available to templates, listed in the template editor's help text.
+ * Every category contributes its schema key; `all`, `prefix` and `subject` are always available.
+ */
+export const templatePlaceholders = (categories: AnalysisCategory[]): string[] => [
+  ...categories.map((category) => category.schemaKey),
+  'all',
+  'prefix',
+  'subject',
+];
+
+const SECTION_PATTERN = /\{([#^])(\w+)\}([\s\S]*?)\{\/\2\}/g;
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Renders a template body against a set of values.
+ * - `{name}` is replaced by the value (or removed if missing).
+ * - `{#name}...{/name}` is kept only when the value is present (non-empty string or true).
+ * - `{^name}...{/name}` is kept only when the value is missing.
+ * Sections can be nested as long as nested sections use different names.
+ */
+export const renderTemplate = (body: string, values: Record<string, string | boolean>): string => {
+  const isPresent = (name: string) => {
+    const value = values[name];
+    return typeof value === 'string' ? value.trim().length > 0 : !!value;
+  };
+
+  const withSections = body.replace(SECTION_PATTERN, (_match, kind: string, name: string, inner: string) => {
+    const show = kind === '#' ? isPresent(name) : !isPresent(name);
+    return show ? renderTemplate(inner, values) : '';
+  });
+
+  return withSections.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    if (!(name in values)) return match; // Leave unknown placeholders visible so template typos are noticeable
+    const value = values[name];
+    return typeof value === 'string' ? value : '';
+  });
+};
+
+/**
+ * Assembles the final refine prompt from a structured analysis result.
+ * @param analysisData The structured analysis result, or null if there is none yet.
+ * @param options The IDs of the categories that were selected when the analysis ran.
+ * @param template The template to render; defaults to the built-in template.
+ * @param categories The category registry; defaults to the built-in categories.
+ * @param language The language the result is written in, which picks the category prefixes.
+ * @param subject The person a multi-person result describes, e.g. '左邊的女性'; empty otherwise.
+ * @returns The refine prompt, or an empty string when there is no result.
+ */
+export const generateFullRefinePrompt = (
+  analysisData: ImageAnalysisResult | null,
+  options: AnalysisCategoryId[],
+  template: PromptTemplate = DEFAULT_TEMPLATE,
+  categories: AnalysisCategory[] = BUILT_IN_CATEGORIES,
+  language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE,
+  subject: string = '',
+): string => {
+  if (!analysisData) return ''; // Return empty if no analysis result yet
+
+  // Whether the prompt is about one category depends on the selection; only categories with text are written out
+  const selectedCategories = resolveSelectedCategories(categories, options);
+  const activeCategories = selectedCategories.filter((category) => !!analysisData[category.schemaKey]?.trim());
+
+  const values: Record<string, string | boolean> = {};
+  categories.forEach((category) => {
+    values[category.schemaKey] = '';
+  });
+  activeCategories.forEach((category) => {
+    values[category.schemaKey] = analysisData[category.schemaKey]!.trim();
+  });
+  values.all = activeCategories.map((category) => values[category.schemaKey]).join(template.separator);
+  values.single = selectedCategories.length === 1;
+  values.prefix = selectedCategories.length === 1 ? localizeCategory(selectedCategories[0], language).refinePrefix : '';
+  values.subject = subject.trim();
+
+  return renderTemplate(template.body, values).trim();
+};
+
+// How a region's label heads its section of the refine prompt, per output language
+const REGION_SECTION_FORMAT: Record<OutputLanguage, (label: string, prompt: string) => string> = {
+  'zh-TW': (label, prompt) => `【${label}】${prompt}`,
+  en: (label, prompt) => `[${label}] ${prompt}`,
+  ja: (label, prompt) => `【${label}】${prompt}`,
+};
+
+/**
+ * Assembles one prompt section per analyzed region, each rendered with the same template as the whole image.
+ * @returns The sections, one per line, or an empty string when no region has a result.
+ */
+export const generateRegionPrompts = (
+  regions: AnalysisRegion[],
+  options: AnalysisCategoryId[],
+  template: PromptTemplate = DEFAULT_TEMPLATE,
+  categories: AnalysisCategory[] = BUILT_IN_CATEGORIES,
+  language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE,
+): string =>
+  regions
+    .map((region) => ({ label: region.label.trim(), prompt: generateFullRefinePrompt(region.result, options, template, categories, language) }))
+    .filter((section) => !!section.prompt)
+    .map((section) => (section.label ? REGION_SECTION_FORMAT[language](section.label, section.prompt) : section.prompt))
+    .join('\n');
@@ -0,0 +1,90 @@
+import { AnalysisRegion } from '../types';
+import { AppError } from './appError';
+
+// Boxes smaller than this fraction of the image in either direction are treated as accidental clicks
+export const MIN_REGION_SIZE = 0.02;
+
+// Border colors cycled through by region index, so each box matches its entry in the region list
+export const REGION_COLORS = ['#f59e0b', '#10b981', '#3b82f6', '#ec4899', '#8b5cf6', '#ef4444'];
+
+export const regionColor = (index: number): string => REGION_COLORS[index % REGION_COLORS.length];
+
+// Helper to generate unique IDs
+const generateUniqueId = () => `region-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Turns the two corners of a drag into a box, in fractions of the image size.
+ * @returns The box, or null if it is too small to be intended.
+ */
+export const rectFromCorners = (
+  start: { x: number; y: number },
+  end: { x: number; y: number },
+): Pick<AnalysisRegion, 'x' | 'y' | 'width' | 'height'> | null => {
+  const x = clamp(Math.min(start.x, end.x));
+  const y = clamp(Math.min(start.y, end.y));
+  const width = clamp(Math.max(start.x, end.x)) - x;
+  const height = clamp(Math.max(start.y, end.y)) - y;
+  return width < MIN_REGION_SIZE || height < MIN_REGION_SIZE ? null : { x, y, width, height };
+};
+
+export const createRegion = (rect: Pick<AnalysisRegion, 'x' | 'y' | 'width' | 'height'>, label: string): AnalysisRegion => ({
+  ...rect,
+  id: generateUniqueId(),
+  label,
+  result: null,
+});
+
+export const updateRegion = (regions: AnalysisRegion[], regionId: string, changes: Partial<AnalysisRegion>): AnalysisRegion[] =>
+  regions.map((region) => (region.id === regionId ? { ...region, ...changes } : region));
+
+export const removeRegion = (regions: AnalysisRegion[], regionId: string): AnalysisRegion[] =>
+  regions.filter((region) => region.id !== regionId);
+
+/**
+ * Cuts a region out of an image, so it can be analyzed without the rest of the picture.
+ * The crop is PNG, which keeps transparency and adds no compression artifacts.
+ * @param imageDataUrl The whole image as a data URL.
+ * @param region The box to cut out, in fractions of the image size.
+ * @returns The cropped image as a data URL.
+ */
+export const cropRegion = async (imageDataUrl: string, region: AnalysisRegion): Promise<string> => {
+  const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const element = new Image();
+    element.onload = () => resolve(element);
+    element.onerror = () => reject(new AppError('error.imageLoadFailed'));
+    element.src = imageDataUrl;
+  });
+
+  const sx = Math.round(region.x * image.naturalWidth);
+  const sy = Math.round(region.y * image.naturalHeight);
+  const width = Math.max(1, Math.round(region.width * image.naturalWidth));
+  const height = Math.max(1, Math.round(region.height * image.naturalHeight));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new AppError('error.canvasUnavailable');
+  }
+  ctx.drawImage(image, sx, sy, width, height, 0, 0, width, height);
+  return canvas.toDataURL('image/png');
+};
+
+const isFraction = (value: any): value is number => typeof value === 'number' && value >= 0 && value <= 1;
+
+/**
+ * Checks that a region read from storage or a workspace file can still be drawn and analyzed.
+ */
+export const isValidRegion = (region: any): region is AnalysisRegion =>
+  !!region &&
+  typeof region === 'object' &&
+  typeof region.id === 'string' &&
+  typeof region.label === 'string' &&
+  isFraction(region.x) &&
+  isFraction(region.y) &&
+  isFraction(region.width) &&
+  isFraction(region.height) &&
+  (region.result === null || (!!region.result && typeof region.result === 'object'));
@@ -0,0 +1,88 @@
+import { AppSettings, CacheSettings, ImageAnalysisResult, decode } from '../types';
+import { AnalysisRequest, buildAnalysisPrompt } from './visionProvider';
+import { activeModelName } from './settingsService';
+import { CachedResponse, deleteCachedResponses, listCachedResponses, readCachedResponse, writeCachedResponse } from './storageService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const sha256 = async (bytes: Uint8Array): Promise<string> => toHex(await crypto.subtle.digest('SHA-256', bytes));
+
+// Hashes the decoded image bytes, so the same picture matches however its data URL was produced
+const hashImage = (dataUrl: string): Promise<string> => sha256(decode(dataUrl.slice(dataUrl.indexOf(',') + 1)));
+
+/**
+ * Builds the cache key of an analysis request: a hash of the image bytes, the options, the other-text,
+ * the detail flag and the model, plus the prompt text itself, so that edited categories, another output
+ * language or a multi-person analysis never reuse a result meant for different instructions.
+ */
+export const analysisCacheKey = async (request: AnalysisRequest, settings: AppSettings): Promise<string> => {
+  const { systemInstruction, userPrompt, fields, subjects } = buildAnalysisPrompt(request);
+  const descriptor = {
+    image: await hashImage(request.base64Image),
+    reference: request.referenceImage ? await hashImage(request.referenceImage) : null,
+    options: [...request.options].sort(),
+    otherAnalysisText: request.otherAnalysisText,
+    isDetailedRequest: request.isDetailedRequest,
+    provider: settings.provider,
+    model: activeModelName(settings),
+    prompt: { systemInstruction, userPrompt, fields, subjects },
+  };
+  return sha256(new TextEncoder().encode(JSON.stringify(descriptor)));
+};
+
+const isExpired = (entry: CachedResponse, limits: CacheSettings, now: number) => now - entry.createdAt > limits.maxAgeDays * DAY_MS;
+
+/**
+ * Picks the entries to remove: every expired one, then the oldest until the rest fit the size limit.
+ * @param entries The stored entries.
+ * @param incomingSize Bytes about to be added, which must fit as well.
+ */
+export const selectEvictions = (entries: CachedResponse[], limits: CacheSettings, incomingSize: number, now: number = Date.now()): string[] => {
+  const evicted = entries.filter((entry) => isExpired(entry, limits, now)).map((entry) => entry.key);
+  const kept = entries.filter((entry) => !evicted.includes(entry.key)).sort((a, b) => a.createdAt - b.createdAt);
+  let total = kept.reduce((sum, entry) => sum + entry.size, incomingSize);
+  for (const entry of kept) {
+    if (total <= limits.maxSizeMb * MB) break;
+    evicted.push(entry.key);
+    total -= entry.size;
+  }
+  return evicted;
+};
+
+/**
+ * Looks up a stored result; an expired one is removed and treated as missing.
+ */
+export const getCachedAnalysis = async (key: string, limits: CacheSettings): Promise<CachedResponse | null> => {
+  const entry = await readCachedResponse(key);
+  if (!entry) return null;
+  if (isExpired(entry, limits, Date.now())) {
+    await deleteCachedResponses([key]);
+    return null;
+  }
+  return entry;
+};
+
+/**
+ * Stores a result, evicting expired and old entries so the cache stays within its limits.
+ * A result larger than the whole size limit is not stored.
+ */
+export const cacheAnalysis = async (key: string, response: ImageAnalysisResult, limits: CacheSettings): Promise<void> => {
+  const size = new TextEncoder().encode(JSON.stringify(response)).length;
+  if (size > limits.maxSizeMb * MB) return;
+  const entries = (await listCachedResponses()).filter((entry) => entry.key !== key);
+  await writeCachedResponse({ key, response, createdAt: Date.now(), size }, selectEvictions(entries, limits, size));
+};
+
+/**
+ * Counts the stored results and their size, for the settings dialog.
+ */
+export const cacheUsage = async (): Promise<{ entries: number; bytes: number }> => {
+  const entries = await listCachedResponses();
+  return { entries: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.size, 0) };
+};
+
+export const clearAnalysisCache = (): Promise<void> => deleteCachedResponses();
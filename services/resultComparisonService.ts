@@ -0,0 +1,62 @@
+import { AnalysisHistoryEntry, ImageAnalysisResult, Tab } from '../types';
+import { applyFieldEdits } from './fieldEditService';
+
+// An analysis result that can be picked as one side of a comparison
+export interface ComparisonSource {
+  id: string;
+  tabId: string;
+  tabName: string;
+  entry: AnalysisHistoryEntry | null; // Null for the tab's current result
+  result: ImageAnalysisResult;
+}
+
+export type ComparisonSide = 'left' | 'right';
+
+/**
+ * Lists every result that can be compared: each tab's current result (with its edits) followed by its history, in tab order.
+ */
+export const listComparisonSources = (tabs: Tab[]): ComparisonSource[] =>
+  tabs.flatMap((tab) => {
+    const { rawAnalysisResult, analysisHistory, fieldEdits } = tab.contentState;
+    const current = applyFieldEdits(rawAnalysisResult, fieldEdits);
+    const sources: ComparisonSource[] = [];
+    if (current) {
+      sources.push({ id: `${tab.id}:current`, tabId: tab.id, tabName: tab.name, entry: null, result: current });
+    }
+    analysisHistory.forEach((entry) => {
+      sources.push({ id: `${tab.id}:${entry.id}`, tabId: tab.id, tabName: tab.name, entry, result: entry.result });
+    });
+    return sources;
+  });
+
+/**
+ * The fields that have text on at least one side, left side's order first.
+ */
+export const comparedFieldKeys = (left: ImageAnalysisResult, right: ImageAnalysisResult): string[] =>
+  Array.from(new Set([...Object.keys(left), ...Object.keys(right)])).filter(
+    (key) => !!left[key]?.trim() || !!right[key]?.trim(),
+  );
+
+/**
+ * Picks, for each field, the side that has text, preferring the right (usually newer) one.
+ */
+export const defaultFieldPicks = (left: ImageAnalysisResult, right: ImageAnalysisResult): Record<string, ComparisonSide> =>
+  Object.fromEntries(
+    comparedFieldKeys(left, right).map((key) => [key, right[key]?.trim() ? 'right' : 'left'] as [string, ComparisonSide]),
+  );
+
+/**
+ * Builds a result that takes every field from the side picked for it. Fields left empty by the pick are omitted.
+ */
+export const mergeResults = (
+  left: ImageAnalysisResult,
+  right: ImageAnalysisResult,
+  picks: Record<string, ComparisonSide>,
+): ImageAnalysisResult => {
+  const merged: ImageAnalysisResult = {};
+  Object.entries(picks).forEach(([key, side]) => {
+    const value = (side === 'left' ? left : right)[key];
+    if (value?.trim()) merged[key] = value;
+  });
+  return merged;
+};
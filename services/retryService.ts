@@ -0,0 +1,68 @@
+import { RateLimitError, isTransientError } from './appError';
+
+export interface RetryPolicy {
+  maxRetries: number; // Extra attempts after the first failure
+  baseDelayMs: number; // Wait before the first retry; doubles with each further retry
+  maxDelayMs: number; // Longest wait; a rate limit asking for more is reported instead of waited out
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+};
+
+/**
+ * How long to wait before a retry: the provider's Retry-After for a rate limit that sent one,
+ * otherwise exponential backoff with random jitter, so parallel requests do not retry in lockstep.
+ * @param retry The retry about to be made, starting at 1.
+ * @param error The error of the failed attempt.
+ * @returns The wait in milliseconds, or null if it would exceed the policy's longest wait.
+ */
+export const retryDelay = (retry: number, error: unknown, policy: RetryPolicy = DEFAULT_RETRY_POLICY): number | null => {
+  if (error instanceof RateLimitError && error.retryAfterMs !== null) {
+    return error.retryAfterMs <= policy.maxDelayMs ? error.retryAfterMs : null;
+  }
+  const backoff = policy.baseDelayMs * 2 ** (retry - 1);
+  return Math.min(policy.maxDelayMs, backoff / 2 + Math.random() * (backoff / 2));
+};
+
+// Resolves after the wait, or rejects with the abort reason as soon as the signal fires
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs an operation, retrying it after transient failures (rate limits, server errors, network drops).
+ * Any other error, and the last transient one, is thrown as it is.
+ * @param operation The request to make; called again for every retry.
+ * @param signal Aborts the operation, including a wait between attempts.
+ * @param onRetry Called before each wait, with the retry about to be made and the wait in milliseconds.
+ */
+export const withRetries = async <T>(
+  operation: () => Promise<T>,
+  signal?: AbortSignal,
+  onRetry?: (retry: number, delayMs: number, error: unknown) => void,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+): Promise<T> => {
+  for (let retry = 1; ; retry++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const delayMs = retry <= policy.maxRetries && isTransientError(error) && !signal?.aborted ? retryDelay(retry, error, policy) : null;
+      if (delayMs === null) throw error;
+      onRetry?.(retry, delayMs, error);
+      await sleep(delayMs, signal);
+    }
+  }
+};
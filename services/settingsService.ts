@@ -0,0 +1,118 @@
+import { AppSettings, CacheSettings, GenerationSettings, ImageOutputFormat, ImageProcessingSettings, VisionProviderType } from '../types';
+
+const SETTINGS_STORAGE_KEY = 'ai-image-refiner:settings';
+
+// Suggestions shown in the settings dialog; any other model name can still be typed in
+export const GEMINI_MODEL_SUGGESTIONS = ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'];
+
+const isProviderType = (value: unknown): value is VisionProviderType =>
+  value === 'gemini' || value === 'openai-compatible';
+
+/**
+ * Build-time defaults, injected through `define` in vite.config.ts.
+ * Values saved in localStorage take precedence over these.
+ */
+export const DEFAULT_SETTINGS: AppSettings = {
+  provider: isProviderType(process.env.VISION_PROVIDER) ? process.env.VISION_PROVIDER : 'gemini',
+  gemini: {
+    apiKey: process.env.API_KEY || '',
+    model: 'gemini-2.5-flash',
+  },
+  openAiCompatible: {
+    baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL || 'http://localhost:11434/v1',
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || '',
+    model: process.env.OPENAI_COMPATIBLE_MODEL || 'llava',
+  },
+  generation: {},
+  cache: {
+    enabled: true,
+    maxSizeMb: 50,
+    maxAgeDays: 30,
+  },
+  imageProcessing: {
+    enabled: true,
+    maxDimension: 2048,
+    format: 'original',
+    quality: 0.9,
+  },
+};
+
+export const IMAGE_OUTPUT_FORMATS: ImageOutputFormat[] = ['original', 'image/jpeg', 'image/png', 'image/webp'];
+
+const readNumber = (value: unknown, min: number, max: number): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max ? value : undefined;
+
+/**
+ * Keeps only generation parameters that are numbers within the range the APIs accept.
+ */
+export const sanitizeGenerationSettings = (generation: any): GenerationSettings => {
+  if (!generation || typeof generation !== 'object') return {};
+  const maxOutputTokens = readNumber(generation.maxOutputTokens, 1, 1_000_000);
+  return {
+    temperature: readNumber(generation.temperature, 0, 2),
+    topP: readNumber(generation.topP, 0, 1),
+    maxOutputTokens: maxOutputTokens === undefined ? undefined : Math.round(maxOutputTokens),
+  };
+};
+
+/**
+ * Keeps the saved cache limits that are within range, falling back to the defaults for the rest.
+ */
+export const sanitizeCacheSettings = (cache: any): CacheSettings => {
+  if (!cache || typeof cache !== 'object') return DEFAULT_SETTINGS.cache;
+  return {
+    enabled: typeof cache.enabled === 'boolean' ? cache.enabled : DEFAULT_SETTINGS.cache.enabled,
+    maxSizeMb: readNumber(cache.maxSizeMb, 1, 10_000) ?? DEFAULT_SETTINGS.cache.maxSizeMb,
+    maxAgeDays: readNumber(cache.maxAgeDays, 1, 3650) ?? DEFAULT_SETTINGS.cache.maxAgeDays,
+  };
+};
+
+/**
+ * Keeps the saved preprocessing options that are valid, falling back to the defaults for the rest.
+ */
+export const sanitizeImageProcessingSettings = (processing: any): ImageProcessingSettings => {
+  if (!processing || typeof processing !== 'object') return DEFAULT_SETTINGS.imageProcessing;
+  const maxDimension = readNumber(processing.maxDimension, 64, 16_384);
+  return {
+    enabled: typeof processing.enabled === 'boolean' ? processing.enabled : DEFAULT_SETTINGS.imageProcessing.enabled,
+    maxDimension: maxDimension === undefined ? DEFAULT_SETTINGS.imageProcessing.maxDimension : Math.round(maxDimension),
+    format: IMAGE_OUTPUT_FORMATS.includes(processing.format) ? processing.format : DEFAULT_SETTINGS.imageProcessing.format,
+    quality: readNumber(processing.quality, 0.1, 1) ?? DEFAULT_SETTINGS.imageProcessing.quality,
+  };
+};
+
+/**
+ * Reads the saved settings from localStorage, filling anything missing or invalid with defaults.
+ */
+export const loadSettings = (): AppSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const saved = JSON.parse(raw);
+    if (!saved || typeof saved !== 'object') return DEFAULT_SETTINGS;
+    return {
+      provider: isProviderType(saved.provider) ? saved.provider : DEFAULT_SETTINGS.provider,
+      gemini: { ...DEFAULT_SETTINGS.gemini, ...(saved.gemini || {}) },
+      openAiCompatible: { ...DEFAULT_SETTINGS.openAiCompatible, ...(saved.openAiCompatible || {}) },
+      generation: sanitizeGenerationSettings(saved.generation),
+      cache: sanitizeCacheSettings(saved.cache),
+      imageProcessing: sanitizeImageProcessingSettings(saved.imageProcessing),
+    };
+  } catch (error) {
+    console.warn('Ignoring unreadable settings:', error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+/**
+ * Name of the model analysis requests are currently sent to.
+ */
+export const activeModelName = (settings: AppSettings): string =>
+  settings.provider === 'gemini' ? settings.gemini.model : settings.openAiCompatible.model;
+
+/**
+ * Saves settings to localStorage so they apply to every later analysis request.
+ */
+export const saveSettings = (settings: AppSettings): void => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
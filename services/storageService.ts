@@ -0,0 +1,244 @@
+import { ImageAnalysisResult, Tab, TabContentState, TabGroup } from '../types';
+import { isValidTabRecord, normalizeTabRecord } from './tabRecord';
+import { reconcileTabGroups } from './tabGroupService';
+import { AppError } from './appError';
+import { t } from './i18n';
+
+const DB_NAME = 'ai-image-refiner';
+const DB_VERSION = 2; // v2 added the response cache store
+const TABS_STORE = 'tabs';
+const META_STORE = 'meta';
+const RESPONSE_CACHE_STORE = 'responses';
+const WORKSPACE_META_KEY = 'workspace';
+
+interface WorkspaceMeta {
+  tabOrder: string[];
+  activeTabId: string;
+  groups?: TabGroup[]; // Absent in workspaces saved before tabs could be grouped
+}
+
+export interface PersistedWorkspace {
+  tabs: Tab[];
+  activeTabId: string;
+  groups: TabGroup[];
+}
+
+// An analysis result stored under the hash of everything that produced it (see analysisCacheKey)
+export interface CachedResponse {
+  key: string;
+  response: ImageAnalysisResult;
+  createdAt: number; // Milliseconds since the epoch
+  size: number; // Approximate stored size in bytes, counted against the cache size limit
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+// Tab objects written in the last save; App updates tabs immutably, so an identical reference means nothing changed.
+// A null value marks a tab id that may exist in the database but must be rewritten.
+const lastSavedTabs = new Map<string, Tab | null>();
+
+/**
+ * Opens (and on first use creates) the IndexedDB database.
+ * The connection is cached for the lifetime of the page.
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new AppError('error.indexedDbUnsupported'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(TABS_STORE)) {
+        db.createObjectStore(TABS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+      if (!db.objectStoreNames.contains(RESPONSE_CACHE_STORE)) {
+        db.createObjectStore(RESPONSE_CACHE_STORE, { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new AppError('error.storageOpenFailed'));
+  });
+  // Allow a later call to retry if opening failed (e.g. blocked by another window)
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new AppError('error.storageTransactionAborted'));
+  });
+
+const isQuotaError = (error: any): boolean =>
+  !!error && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const isValidMeta = (meta: any): meta is WorkspaceMeta =>
+  !!meta &&
+  typeof meta === 'object' &&
+  Array.isArray(meta.tabOrder) &&
+  meta.tabOrder.every((id: unknown) => typeof id === 'string') &&
+  typeof meta.activeTabId === 'string';
+
+// Transient UI state (loading spinner, error banner) should never survive a reload
+const toPersistedContentState = (state: TabContentState): TabContentState => ({
+  ...state,
+  isLoading: false,
+  error: null,
+  errorKind: null,
+  cachedAt: null,
+});
+
+/**
+ * Restores the saved tabs, their order and the active tab from IndexedDB.
+ * Corrupted tab records are removed from the database and skipped.
+ * @returns The restored workspace, or null if nothing usable was saved.
+ */
+export const loadWorkspace = async (): Promise<PersistedWorkspace | null> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([TABS_STORE, META_STORE], 'readonly');
+  const [records, meta] = await Promise.all([
+    requestToPromise<any[]>(transaction.objectStore(TABS_STORE).getAll()),
+    requestToPromise<any>(transaction.objectStore(META_STORE).get(WORKSPACE_META_KEY)),
+  ]);
+
+  const validTabs = new Map<string, Tab>();
+  const corruptedKeys: IDBValidKey[] = [];
+  records.forEach((record) => {
+    if (isValidTabRecord(record)) {
+      validTabs.set(record.id, normalizeTabRecord(record));
+    } else {
+      console.warn('Skipping corrupted tab record:', record);
+      if (record && typeof record === 'object' && record.id !== undefined) {
+        corruptedKeys.push(record.id);
+      }
+    }
+  });
+
+  if (corruptedKeys.length > 0) {
+    try {
+      const cleanup = db.transaction(TABS_STORE, 'readwrite');
+      corruptedKeys.forEach((key) => cleanup.objectStore(TABS_STORE).delete(key));
+      await transactionDone(cleanup);
+    } catch (error) {
+      console.warn('Failed to remove corrupted tab records:', error);
+    }
+  }
+
+  if (validTabs.size === 0) return null;
+
+  // Follow the saved order first, then append any tabs the order list does not know about
+  const orderedIds = isValidMeta(meta) ? meta.tabOrder.filter((id) => validTabs.has(id)) : [];
+  validTabs.forEach((_tab, id) => {
+    if (!orderedIds.includes(id)) orderedIds.push(id);
+  });
+  const { tabs, groups } = reconcileTabGroups(
+    orderedIds.map((id) => validTabs.get(id)!),
+    isValidMeta(meta) ? meta.groups : [],
+  );
+
+  const activeTabId = isValidMeta(meta) && validTabs.has(meta.activeTabId) ? meta.activeTabId : tabs[0].id;
+
+  lastSavedTabs.clear();
+  tabs.forEach((tab) => lastSavedTabs.set(tab.id, tab));
+
+  return { tabs, activeTabId, groups };
+};
+
+/**
+ * Saves the tab list, tab order, active tab and tab groups to IndexedDB.
+ * Only tabs that changed since the last save are rewritten, and removed tabs are deleted.
+ * Throws a user-facing error when the browser storage quota is exceeded.
+ */
+export const saveWorkspace = async (tabs: Tab[], activeTabId: string, groups: TabGroup[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([TABS_STORE, META_STORE], 'readwrite');
+  const tabsStore = transaction.objectStore(TABS_STORE);
+  const currentIds = new Set(tabs.map((tab) => tab.id));
+
+  tabs.forEach((tab) => {
+    if (lastSavedTabs.get(tab.id) !== tab) {
+      tabsStore.put({ ...tab, contentState: toPersistedContentState(tab.contentState) });
+    }
+  });
+  lastSavedTabs.forEach((_tab, id) => {
+    if (!currentIds.has(id)) tabsStore.delete(id);
+  });
+
+  const meta: WorkspaceMeta = { tabOrder: tabs.map((tab) => tab.id), activeTabId, groups };
+  transaction.objectStore(META_STORE).put(meta, WORKSPACE_META_KEY);
+
+  try {
+    await transactionDone(transaction);
+  } catch (error: any) {
+    // The transaction was rolled back, so force every tab to be rewritten (or deleted) on the next attempt
+    tabs.forEach((tab) => lastSavedTabs.set(tab.id, null));
+    lastSavedTabs.forEach((_tab, id) => lastSavedTabs.set(id, null));
+    if (isQuotaError(error)) {
+      throw new AppError('error.storageQuotaExceeded');
+    }
+    throw new AppError('error.storageSaveFailed', { detail: error?.message || t('common.unknownError') });
+  }
+
+  lastSavedTabs.clear();
+  tabs.forEach((tab) => lastSavedTabs.set(tab.id, tab));
+};
+
+/**
+ * Reads one cached analysis result, or null if nothing is stored under the key.
+ */
+export const readCachedResponse = async (key: string): Promise<CachedResponse | null> => {
+  const db = await openDatabase();
+  const entry = await requestToPromise<any>(db.transaction(RESPONSE_CACHE_STORE, 'readonly').objectStore(RESPONSE_CACHE_STORE).get(key));
+  return entry ?? null;
+};
+
+/**
+ * Lists every cached analysis result, for enforcing the size and age limits.
+ */
+export const listCachedResponses = async (): Promise<CachedResponse[]> => {
+  const db = await openDatabase();
+  return requestToPromise<CachedResponse[]>(db.transaction(RESPONSE_CACHE_STORE, 'readonly').objectStore(RESPONSE_CACHE_STORE).getAll());
+};
+
+/**
+ * Stores an analysis result and removes the given entries in the same transaction.
+ * @param entry The result to store, replacing any entry with the same key.
+ * @param evictedKeys Entries to remove to stay within the cache limits.
+ */
+export const writeCachedResponse = async (entry: CachedResponse, evictedKeys: string[] = []): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(RESPONSE_CACHE_STORE, 'readwrite');
+  const store = transaction.objectStore(RESPONSE_CACHE_STORE);
+  evictedKeys.forEach((key) => store.delete(key));
+  store.put(entry);
+  await transactionDone(transaction);
+};
+
+/**
+ * Removes cached analysis results; every one of them when no keys are given.
+ */
+export const deleteCachedResponses = async (keys?: string[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(RESPONSE_CACHE_STORE, 'readwrite');
+  const store = transaction.objectStore(RESPONSE_CACHE_STORE);
+  if (keys) {
+    keys.forEach((key) => store.delete(key));
+  } else {
+    store.clear();
+  }
+  await transactionDone(transaction);
+};
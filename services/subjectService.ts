@@ -0,0 +1,106 @@
+import { AnalysisSubject, ImageAnalysisResult, SubjectAnalysis } from '../types';
+import { SUBJECTS_KEY, SUBJECT_LABEL_KEY, splitTranslatedResult } from './visionProvider';
+import { AppError } from './appError';
+
+// Keeps the string fields of a parsed JSON object, dropping anything the model nested or mistyped
+const stringFields = (value: unknown): ImageAnalysisResult => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string'),
+  );
+};
+
+const withoutKey = (result: ImageAnalysisResult, key: string): ImageAnalysisResult => {
+  const { [key]: _removed, ...rest } = result;
+  return rest;
+};
+
+/**
+ * Reads the response of a multi-person analysis: the shared fields at the top level, one object per person under SUBJECTS_KEY.
+ * The first person starts out selected.
+ * @throws AppError if the model found nobody.
+ */
+export const createSubjectAnalysis = (response: ImageAnalysisResult): SubjectAnalysis => {
+  const rawSubjects: unknown = (response as Record<string, unknown>)[SUBJECTS_KEY];
+  const subjects: AnalysisSubject[] = (Array.isArray(rawSubjects) ? rawSubjects : []).map((item, index) => {
+    const { result, translation } = splitTranslatedResult(stringFields(item));
+    return {
+      label: result[SUBJECT_LABEL_KEY]?.trim() || `#${index + 1}`,
+      translatedLabel: translation?.[SUBJECT_LABEL_KEY]?.trim() || null,
+      result: withoutKey(result, SUBJECT_LABEL_KEY),
+      translatedResult: translation && withoutKey(translation, SUBJECT_LABEL_KEY),
+    };
+  });
+  if (subjects.length === 0) {
+    throw new AppError('error.noSubjectsFound');
+  }
+  const { result, translation } = splitTranslatedResult(stringFields(response));
+  return { subjects, shared: result, translatedShared: translation, selectedIndex: 0 };
+};
+
+/**
+ * The result to show for the selected person: the shared fields plus that person's own.
+ */
+export const selectedSubjectResult = (
+  analysis: SubjectAnalysis,
+): { result: ImageAnalysisResult; translation: ImageAnalysisResult | null } => {
+  const subject = analysis.subjects[analysis.selectedIndex];
+  const translation =
+    analysis.translatedShared || subject?.translatedResult
+      ? { ...analysis.translatedShared, ...subject?.translatedResult }
+      : null;
+  return { result: { ...analysis.shared, ...subject?.result }, translation };
+};
+
+/**
+ * Switches to another person, first keeping what was done to the current one (edits, refined fields)
+ * by writing the shown result back: shared keys into the shared fields, every other key into the current person.
+ * @param analysis The analysis as it was when the current person was selected.
+ * @param shown The result currently shown, with edits applied.
+ * @param shownTranslation The translation currently shown.
+ * @param index The person to select.
+ */
+export const selectSubject = (
+  analysis: SubjectAnalysis,
+  shown: ImageAnalysisResult,
+  shownTranslation: ImageAnalysisResult | null,
+  index: number,
+): SubjectAnalysis => {
+  const split = (result: ImageAnalysisResult) => {
+    const shared: ImageAnalysisResult = {};
+    const own: ImageAnalysisResult = {};
+    Object.entries(result).forEach(([key, value]) => {
+      (key in analysis.shared ? shared : own)[key] = value;
+    });
+    return { shared, own };
+  };
+  const current = split(shown);
+  const currentTranslation = shownTranslation ? split(shownTranslation) : null;
+  return {
+    subjects: analysis.subjects.map((subject, subjectIndex) =>
+      subjectIndex === analysis.selectedIndex
+        ? { ...subject, result: current.own, translatedResult: currentTranslation ? currentTranslation.own : subject.translatedResult }
+        : subject,
+    ),
+    shared: current.shared,
+    translatedShared: currentTranslation ? currentTranslation.shared : analysis.translatedShared,
+    selectedIndex: Math.min(Math.max(index, 0), analysis.subjects.length - 1),
+  };
+};
+
+/**
+ * Checks that a multi-person analysis read from storage or a workspace file can still be shown.
+ */
+export const isValidSubjectAnalysis = (analysis: any): analysis is SubjectAnalysis =>
+  !!analysis &&
+  typeof analysis === 'object' &&
+  Array.isArray(analysis.subjects) &&
+  analysis.subjects.length > 0 &&
+  analysis.subjects.every(
+    (subject: any) => !!subject && typeof subject.label === 'string' && !!subject.result && typeof subject.result === 'object',
+  ) &&
+  !!analysis.shared &&
+  typeof analysis.shared === 'object' &&
+  typeof analysis.selectedIndex === 'number' &&
+  analysis.selectedIndex >= 0 &&
+  analysis.selectedIndex < analysis.subjects.length;
@@ -0,0 +1,130 @@
+import { AnalysisCategory, AnalysisOption, AnalysisOutputReport, ImageAnalysisResult, TabContentState, TabContentStateUpdate } from '../types';
+import { analyzeImage, analyzeSubjects } from './analysisService';
+import { splitTranslatedResult } from './visionProvider';
+import { errorKind, errorMessage } from './appError';
+import { activeModelName, loadSettings } from './settingsService';
+import { addHistoryEntry, createHistoryEntry } from './analysisHistoryService';
+import { startAnalysisRun } from './analysisRunService';
+import { selectedSubjectResult } from './subjectService';
+import { t } from './i18n';
+
+export interface TabAnalysisOptions {
+  isDetailedRequest: boolean;
+  forceRefresh: boolean; // Skip the response cache
+  onRetry?: (retry: number, delayMs: number) => void; // An automatic retry is being waited for
+  onFinish?: () => void; // The run ended and was not cancelled or replaced
+}
+
+/**
+ * Analyzes a tab's image with its options, writing the progress and result into the tab through `update`.
+ * Works for any tab, shown or not; a run started later for the same tab supersedes this one.
+ * Problems with the tab's input are reported through the tab's error instead of starting a run.
+ * @param state The tab's state when the analysis starts.
+ * @param update Merges changes into the tab's state, or changes computed from its latest state.
+ */
+export const analyzeTab = async (
+  tabId: string,
+  state: TabContentState,
+  categories: AnalysisCategory[],
+  update: (newState: TabContentStateUpdate) => void,
+  options: TabAnalysisOptions,
+): Promise<void> => {
+  const {
+    uploadedImage,
+    referenceImage,
+    selectedOptions,
+    otherAnalysisText,
+    outputLanguage,
+    bilingualLanguage,
+    analysisMode,
+    detectSubjects,
+  } = state;
+  const isTransferMode = analysisMode === 'transfer';
+
+  if (!uploadedImage) {
+    update({ error: t('error.imageRequired'), errorKind: null });
+    return;
+  }
+
+  if (isTransferMode && !referenceImage) {
+    update({ error: t('error.referenceImageRequired'), errorKind: null });
+    return;
+  }
+
+  // Validate '其他' option with custom text
+  if (selectedOptions.includes(AnalysisOption.OTHER) && !otherAnalysisText.trim()) {
+    update({ error: t('error.otherTextRequired'), errorKind: null });
+    return;
+  }
+
+  // Clear previous analysis results and set loading state; they stay available in the history
+  const { rawAnalysisResult, translatedAnalysisResult, fieldEdits, subjectAnalysis, outputReport, cachedAt } = state;
+  const run = startAnalysisRun(tabId, { rawAnalysisResult, translatedAnalysisResult, fieldEdits, subjectAnalysis, outputReport, cachedAt });
+  update({ isLoading: true, error: null, errorKind: null, rawAnalysisResult: null, translatedAnalysisResult: null, fieldEdits: {}, subjectAnalysis: null, outputReport: null, cachedAt: null });
+  const model = activeModelName(loadSettings());
+  const stream = {
+    signal: run.signal,
+    forceRefresh: options.forceRefresh,
+    // Show the fields while they stream in; in a multi-person analysis these are the shared ones
+    onPartialResult: (partial: ImageAnalysisResult) => {
+      if (!run.isCurrent()) return;
+      const { result, translation } = splitTranslatedResult(partial);
+      update({ rawAnalysisResult: result, translatedAnalysisResult: translation });
+    },
+    onOutputReport: (report: AnalysisOutputReport) => {
+      if (run.isCurrent()) update({ outputReport: report });
+    },
+    onRetry: (retry: number, delayMs: number) => {
+      if (run.isCurrent()) options.onRetry?.(retry, delayMs);
+    },
+    onCacheHit: (storedAt: number) => {
+      if (run.isCurrent()) update({ cachedAt: storedAt });
+    },
+  };
+  try {
+    // Only sent in transfer mode, so a reference left over from it does not affect a normal analysis
+    const activeReferenceImage = isTransferMode ? referenceImage : null;
+    const args = [uploadedImage, selectedOptions, otherAnalysisText, options.isDetailedRequest, categories, outputLanguage, bilingualLanguage, activeReferenceImage] as const;
+    // A multi-person analysis shows its first person; the others are picked in PromptOutput
+    const subjects = detectSubjects ? await analyzeSubjects(...args, stream) : null;
+    const response = subjects ? null : await analyzeImage(...args, stream);
+    // A cancelled or superseded run must not touch a tab that has moved on
+    if (!run.isCurrent()) return;
+    // Store the structured result, keeping the bilingual translation apart
+    const { result, translation } = subjects ? selectedSubjectResult(subjects) : splitTranslatedResult(response!);
+    const entry = createHistoryEntry({
+      selectedOptions,
+      otherAnalysisText,
+      isDetailed: options.isDetailedRequest,
+      model,
+      outputLanguage,
+      bilingualLanguage,
+      result,
+      translatedResult: translation,
+      analysisMode,
+    });
+    update({
+      rawAnalysisResult: result,
+      translatedAnalysisResult: translation,
+      subjectAnalysis: subjects,
+      error: null,
+      errorKind: null,
+    });
+    // Read the history as it is now: it may have been pinned, pruned or added to while the run was going
+    update((current) => ({ analysisHistory: addHistoryEntry(current.analysisHistory, entry) }));
+  } catch (e: any) {
+    if (!run.isCurrent()) return;
+    update({
+      rawAnalysisResult: null,
+      translatedAnalysisResult: null,
+      error: errorMessage(e, 'error.analysisGeneric'),
+      errorKind: errorKind(e),
+    });
+  } finally {
+    if (run.isCurrent()) {
+      run.finish();
+      options.onFinish?.();
+      update({ isLoading: false });
+    }
+  }
+};
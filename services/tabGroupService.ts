@@ -0,0 +1,76 @@
+import { Tab, TabGroup, TabGroupColor } from '../types';
+
+export const TAB_GROUP_COLORS: TabGroupColor[] = ['blue', 'green', 'yellow', 'red', 'purple', 'gray'];
+
+const generateUniqueId = () => `group-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Creates an expanded group, colored with the first color no other group uses yet.
+ */
+export const createTabGroup = (name: string, groups: TabGroup[]): TabGroup => {
+  const usedColors = new Set(groups.map((group) => group.color));
+  const color = TAB_GROUP_COLORS.find((entry) => !usedColors.has(entry)) ?? TAB_GROUP_COLORS[groups.length % TAB_GROUP_COLORS.length];
+  return { id: generateUniqueId(), name, color, collapsed: false };
+};
+
+/**
+ * Drops groups that no tab belongs to any more.
+ */
+export const pruneTabGroups = (groups: TabGroup[], tabs: Tab[]): TabGroup[] => {
+  const usedIds = new Set(tabs.map((tab) => tab.groupId));
+  return groups.filter((group) => usedIds.has(group.id));
+};
+
+/**
+ * The IDs of the tabs from one tab to another, both included, in tab-bar order; used for shift-click selection.
+ */
+export const tabIdRange = (tabs: Tab[], fromId: string, toId: string): string[] => {
+  const from = tabs.findIndex((tab) => tab.id === fromId);
+  const to = tabs.findIndex((tab) => tab.id === toId);
+  if (from === -1 || to === -1) return [toId];
+  return tabs.slice(Math.min(from, to), Math.max(from, to) + 1).map((tab) => tab.id);
+};
+
+/**
+ * Checks that a group read from storage or a workspace file can still be used.
+ */
+export const isValidTabGroup = (group: any): group is TabGroup =>
+  !!group &&
+  typeof group === 'object' &&
+  typeof group.id === 'string' &&
+  typeof group.name === 'string' &&
+  TAB_GROUP_COLORS.includes(group.color) &&
+  typeof group.collapsed === 'boolean';
+
+/**
+ * Matches tabs and groups read from storage or a workspace file: invalid and empty groups are dropped,
+ * and tabs that refer to a group that is gone become ungrouped.
+ */
+export const reconcileTabGroups = (tabs: Tab[], groups: unknown): { tabs: Tab[]; groups: TabGroup[] } => {
+  const validGroups = Array.isArray(groups) ? groups.filter(isValidTabGroup) : [];
+  const groupIds = new Set(validGroups.map((group) => group.id));
+  const reconciledTabs = tabs.map((tab) => (tab.groupId === null || groupIds.has(tab.groupId) ? tab : { ...tab, groupId: null }));
+  return { tabs: reconciledTabs, groups: pruneTabGroups(validGroups, reconciledTabs) };
+};
+
+/**
+ * Puts each group's tabs side by side, where the group's first tab is; ungrouped tabs keep their order.
+ */
+export const keepGroupsTogether = (tabs: Tab[]): Tab[] => {
+  const result: Tab[] = [];
+  const placedGroupIds = new Set<string>();
+  tabs.forEach((tab) => {
+    if (tab.groupId === null) {
+      result.push(tab);
+    } else if (!placedGroupIds.has(tab.groupId)) {
+      placedGroupIds.add(tab.groupId);
+      result.push(...tabs.filter((member) => member.groupId === tab.groupId));
+    }
+  });
+  return result;
+};
+
+/**
+ * A copy of a group under a fresh ID, e.g. for a group that came with an imported workspace.
+ */
+export const copyTabGroup = (group: TabGroup): TabGroup => ({ ...group, id: generateUniqueId() });
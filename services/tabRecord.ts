@@ -0,0 +1,64 @@
+import { Tab } from '../types';
+import { DEFAULT_TEMPLATE_ID } from './promptBuilder';
+import { DEFAULT_OUTPUT_LANGUAGE, isOutputLanguage } from './outputLanguageService';
+import { isValidHistoryEntry } from './analysisHistoryService';
+import { isValidRegion } from './regionService';
+import { isValidSubjectAnalysis } from './subjectService';
+import { isValidImageProcessingInfo } from './imagePreprocessService';
+import { normalizeImageEditState } from './imageEditService';
+
+/**
+ * Checks that a record read from storage or a workspace file still has the shape of a Tab.
+ * Records that fail this check are treated as corrupted and skipped.
+ */
+export const isValidTabRecord = (record: any): record is Tab => {
+  if (!record || typeof record !== 'object') return false;
+  if (typeof record.id !== 'string' || typeof record.name !== 'string') return false;
+  const state = record.contentState;
+  if (!state || typeof state !== 'object') return false;
+  if (state.uploadedImage !== null && typeof state.uploadedImage !== 'string') return false;
+  if (!Array.isArray(state.selectedOptions)) return false;
+  if (state.rawAnalysisResult !== null && typeof state.rawAnalysisResult !== 'object') return false;
+  return true;
+};
+
+const isStringRecord = (value: any): value is Record<string, string> =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && Object.values(value).every((item) => typeof item === 'string');
+
+/**
+ * Copies a valid record into a fresh Tab, filling optional fields and clearing transient UI state.
+ */
+export const normalizeTabRecord = (record: Tab): Tab => ({
+  id: record.id,
+  name: record.name,
+  groupId: typeof record.groupId === 'string' ? record.groupId : null,
+  contentState: {
+    ...record.contentState,
+    uploadedImageInfo: isValidImageProcessingInfo(record.contentState.uploadedImageInfo) ? record.contentState.uploadedImageInfo : null,
+    uploadedImageEdit: normalizeImageEditState(record.contentState.uploadedImageEdit),
+    otherAnalysisText: typeof record.contentState.otherAnalysisText === 'string' ? record.contentState.otherAnalysisText : '',
+    templateId: typeof record.contentState.templateId === 'string' ? record.contentState.templateId : DEFAULT_TEMPLATE_ID,
+    outputLanguage: isOutputLanguage(record.contentState.outputLanguage) ? record.contentState.outputLanguage : DEFAULT_OUTPUT_LANGUAGE,
+    bilingualLanguage: isOutputLanguage(record.contentState.bilingualLanguage) ? record.contentState.bilingualLanguage : null,
+    translatedAnalysisResult:
+      record.contentState.translatedAnalysisResult && typeof record.contentState.translatedAnalysisResult === 'object'
+        ? record.contentState.translatedAnalysisResult
+        : null,
+    analysisHistory: Array.isArray(record.contentState.analysisHistory)
+      ? record.contentState.analysisHistory.filter(isValidHistoryEntry)
+      : [],
+    fieldEdits: isStringRecord(record.contentState.fieldEdits) ? record.contentState.fieldEdits : {},
+    analysisMode: record.contentState.analysisMode === 'transfer' ? 'transfer' : 'describe',
+    referenceImage: typeof record.contentState.referenceImage === 'string' ? record.contentState.referenceImage : null,
+    referenceImageInfo: isValidImageProcessingInfo(record.contentState.referenceImageInfo) ? record.contentState.referenceImageInfo : null,
+    referenceImageEdit: normalizeImageEditState(record.contentState.referenceImageEdit),
+    regions: Array.isArray(record.contentState.regions) ? record.contentState.regions.filter(isValidRegion) : [],
+    detectSubjects: record.contentState.detectSubjects === true,
+    subjectAnalysis: isValidSubjectAnalysis(record.contentState.subjectAnalysis) ? record.contentState.subjectAnalysis : null,
+    outputReport: null,
+    isLoading: false,
+    error: null,
+    errorKind: null,
+    cachedAt: null,
+  },
+});
@@ -0,0 +1,59 @@
+import { PromptTemplate } from '../types';
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE } from './promptBuilder';
+import { MessageKey, t } from './i18n';
+
+const TEMPLATES_STORAGE_KEY = 'ai-image-refiner:templates';
+
+const isValidTemplate = (template: any): template is PromptTemplate =>
+  !!template &&
+  typeof template === 'object' &&
+  typeof template.id === 'string' &&
+  typeof template.name === 'string' &&
+  typeof template.body === 'string' &&
+  typeof template.separator === 'string';
+
+/**
+ * Reads the user's templates from localStorage. The built-in templates always come first and cannot be overridden.
+ */
+export const loadTemplates = (): PromptTemplate[] => {
+  try {
+    const raw = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+    const saved = raw ? JSON.parse(raw) : [];
+    const builtInIds = new Set(BUILT_IN_TEMPLATES.map((template) => template.id));
+    const userTemplates = Array.isArray(saved)
+      ? saved.filter(isValidTemplate).filter((template) => !builtInIds.has(template.id))
+      : [];
+    return [...BUILT_IN_TEMPLATES, ...userTemplates.map((template) => ({ ...template, isBuiltIn: false }))];
+  } catch (error) {
+    console.warn('Ignoring unreadable templates:', error);
+    return BUILT_IN_TEMPLATES;
+  }
+};
+
+/**
+ * Saves the user's templates to localStorage; built-in templates are never written.
+ */
+export const saveTemplates = (templates: PromptTemplate[]): void => {
+  localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates.filter((template) => !template.isBuiltIn)));
+};
+
+/**
+ * Finds a template by ID, falling back to the built-in template (e.g. when a tab refers to a deleted template).
+ */
+export const findTemplate = (templates: PromptTemplate[], id: string): PromptTemplate =>
+  templates.find((template) => template.id === id) || DEFAULT_TEMPLATE;
+
+/**
+ * The name to show for a template; built-in template names follow the interface language.
+ */
+export const templateName = (template: PromptTemplate): string =>
+  template.isBuiltIn ? t(`template.${template.id}` as MessageKey) : template.name;
+
+/**
+ * Adds templates that are not known yet (matched by ID), e.g. templates that came with an imported workspace.
+ */
+export const mergeTemplates = (current: PromptTemplate[], incoming: PromptTemplate[]): PromptTemplate[] => {
+  const knownIds = new Set(current.map((template) => template.id));
+  const added = incoming.filter((template) => isValidTemplate(template) && !knownIds.has(template.id));
+  return [...current, ...added.map((template) => ({ ...template, isBuiltIn: false }))];
+};
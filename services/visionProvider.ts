@@ -0,0 +1,466 @@
+import { AnalysisCategory, AnalysisCategoryId, AnalysisOutputReport, AppSettings, ImageAnalysisResult, OutputLanguage } from '../types';
+import { isSubjectCategory, localizeCategory, resolveSelectedCategories } from './categoryService';
+import { AppError, AuthError, InvalidImageError, ParseError, RateLimitError, ServerError } from './appError';
+
+// Appended to a schema key for the field holding its translation in a bilingual request
+export const TRANSLATION_KEY_SUFFIX = '__translation';
+
+// In a multi-person analysis, the response holds one object per person under this key
+export const SUBJECTS_KEY = 'subjects';
+
+// Field of each person object saying which person it is, e.g. 'the woman on the left'
+export const SUBJECT_LABEL_KEY = 'label';
+
+/**
+ * One analysis category the model is asked to describe, independent of any provider's schema format.
+ */
+export interface AnalysisField {
+  schemaKey: string;
+  prompt: string;
+  description: string;
+}
+
+// How a single field is redone: from scratch, shorter, more detailed, or following a free-text instruction
+export type FieldRefineMode = 'regenerate' | 'shorter' | 'detailed' | 'instruction';
+
+export interface FieldRefinement {
+  mode: FieldRefineMode;
+  currentText: string; // The field as the user sees it now, edits included
+  instruction: string; // Only used by the 'instruction' mode
+  subjectLabel: string | null; // In a multi-person analysis, the person a per-person field describes
+}
+
+// A reply that failed validation, sent back so the model can fix it
+export interface OutputRepair {
+  output: string; // The model's reply as it was received
+  keys: string[]; // Keys that were missing, empty or not a string
+}
+
+export interface AnalysisRequest {
+  base64Image: string; // e.g. 'data:image/png;base64,...'
+  options: AnalysisCategoryId[];
+  categories: AnalysisCategory[]; // The category registry the options refer to
+  otherAnalysisText: string;
+  isDetailedRequest: boolean;
+  outputLanguage: OutputLanguage;
+  secondaryLanguage: OutputLanguage | null; // Also ask for every field in this language, for the bilingual view
+  referenceImage?: string | null; // Transfer mode: the image whose attributes base64Image should take on
+  detectSubjects?: boolean; // Describe every person separately; see SUBJECTS_KEY
+  repair?: OutputRepair; // Set when asking again after a reply that failed validation
+  fieldRefinement?: FieldRefinement; // Set when redoing one field; options then holds that field's category only
+}
+
+/**
+ * Everything a provider needs to send one analysis request.
+ */
+export interface AnalysisPrompt {
+  mimeType: string;
+  data: string; // Base64 payload without the data URL prefix
+  reference: { mimeType: string; data: string } | null; // Transfer mode: sent before the target image
+  fields: AnalysisField[];
+  // Multi-person analysis: what the SUBJECTS_KEY array holds and the fields of each of its objects; null for a single description
+  subjects: { description: string; fields: AnalysisField[] } | null;
+  systemInstruction: string;
+  userPrompt: string;
+  outputLanguage: OutputLanguage;
+}
+
+/**
+ * Optional hooks for a running analysis: cancelling it, seeing fields as the model streams them,
+ * and learning what the repair of a malformed reply achieved.
+ */
+export interface AnalysisStreamOptions {
+  signal?: AbortSignal;
+  onPartialResult?: (partial: ImageAnalysisResult) => void; // Called with every field received so far, the last one possibly unfinished
+  onOutputReport?: (report: AnalysisOutputReport) => void; // Called once, only if a repair was attempted or fields are still missing
+  onRetry?: (retry: number, delayMs: number) => void; // Called before waiting to resend a request that failed transiently
+  forceRefresh?: boolean; // Skip the response cache lookup; the new result still replaces the stored one
+  onCacheHit?: (cachedAt: number) => void; // Called instead of any other callback when the result came from the response cache
+}
+
+/**
+ * A vision-model backend that sends an image plus analysis options to a model.
+ * It resolves to the model's reply text, which analysisService parses and validates against the requested fields.
+ */
+export interface VisionProvider {
+  analyze: (request: AnalysisRequest, settings: AppSettings, stream?: AnalysisStreamOptions) => Promise<string>;
+}
+
+interface AnalysisInstructions {
+  system: string;
+  detailedSystem: string;
+  user: string;
+  detailedUser: string;
+  otherTextPrompt: (text: string) => string;
+  languageNames: Record<OutputLanguage, string>;
+  translationDescription: (schemaKey: string, languageName: string) => string;
+  fieldRefinement: Record<FieldRefineMode, (currentText: string, instruction: string) => string>;
+  fieldRefinementSubject: (label: string) => string;
+  transferSystem: string;
+  transferUser: string;
+  transferDetailedUser: string;
+  transferDescription: (description: string) => string;
+  detectSubjects: string;
+  subjectsDescription: string;
+  subjectLabelPrompt: string;
+  subjectLabelDescription: string;
+  repair: (output: string, keys: string[]) => string;
+}
+
+// The analysis instructions, written in the language the model should answer in
+const ANALYSIS_INSTRUCTIONS: Record<OutputLanguage, AnalysisInstructions> = {
+  'zh-TW': {
+    system: `你是一個圖像分析AI，專門為AI圖像編輯生成描述。你的任務是從提供的圖片中提取並描述用戶指定的方面。`,
+    detailedSystem: `你是一個圖像分析AI，專門為AI圖像編輯生成詳細且具體的描述。你的任務是從提供的圖片中提取並描述用戶指定的方面。`,
+    user: `請分析圖片中關於以下指定內容，並以JSON格式輸出。每個描述都應直接、精簡，且嚴格僅限於其對應的類別。輸出必須嚴格遵循提供的JSON結構，不含任何額外文字。`,
+    detailedUser: `請分析圖片中關於以下指定內容，並以JSON格式輸出。每個描述都應提供盡可能多的細節和上下文，具體且詳盡，且嚴格僅限於其對應的類別。輸出必須嚴格遵循提供的JSON結構，不含任何額外文字。`,
+    otherTextPrompt: (text) => `用戶指定的內容："${text}"`,
+    languageNames: { 'zh-TW': '繁體中文', en: '英文', ja: '日文' },
+    translationDescription: (schemaKey, languageName) => `與「${schemaKey}」完全相同的描述，翻譯成${languageName}。`,
+    fieldRefinement: {
+      regenerate: () => `請重新觀察圖片，以新的措辭重新撰寫這個描述。`,
+      shorter: (current) => `目前的描述是："${current}"。請改寫得更精簡，只保留最重要的細節。`,
+      detailed: (current) => `目前的描述是："${current}"。請補充更多細節，寫得更具體詳盡。`,
+      instruction: (current, instruction) => `目前的描述是："${current}"。請依照以下指示修改這個描述：${instruction}`,
+    },
+    fieldRefinementSubject: (label) => `這個描述只針對圖中的這個人物：「${label}」，不要描述其他人物或整張圖片。`,
+    transferSystem: `你是一個圖像編輯指令AI。你會收到兩張圖片：第一張是參考圖，第二張是要修改的目標圖。你的任務是針對用戶指定的方面，寫出如何修改目標圖才能與參考圖一致的指令。`,
+    transferUser: `請比較兩張圖片中以下指定內容，並以JSON格式輸出。每個欄位都應是一句直接的修改指令，說明目標圖要如何改變才能與參考圖一致（例如「把深色西裝換成紅底白花的和服」），只寫出需要改變的部分，且嚴格僅限於其對應的類別。若該方面已經一致，請輸出空字串。輸出必須嚴格遵循提供的JSON結構，不含任何額外文字。`,
+    transferDetailedUser: `請比較兩張圖片中以下指定內容，並以JSON格式輸出。每個欄位都應是一段具體詳盡的修改指令，說明目標圖要如何改變才能與參考圖一致，並盡可能描述參考圖中的細節，只寫出需要改變的部分，且嚴格僅限於其對應的類別。若該方面已經一致，請輸出空字串。輸出必須嚴格遵循提供的JSON結構，不含任何額外文字。`,
+    transferDescription: (description) => `修改目標圖以符合參考圖的指令。涵蓋範圍：${description}`,
+    detectSubjects: `請先數出並定位圖中的每一個人物，再在 "${SUBJECTS_KEY}" 陣列中為每個人物分別描述其個人的內容；其他內容則描述整張圖片，為所有人物共用。`,
+    subjectsDescription: `圖中的每一個人物，由左到右排列，每人一個物件。`,
+    subjectLabelPrompt: '這是哪一個人物',
+    subjectLabelDescription: `能在圖中辨認出這個人物的簡短說法，例如「左邊的女性」。`,
+    repair: (output, keys) =>
+      `你上一次的回覆不符合要求的JSON結構，以下鍵缺少、為空或不是字串：${keys.join('、')}。上一次的回覆是：\n${output}\n請重新輸出完整且有效的JSON，包含所有要求的鍵。`,
+  },
+  en: {
+    system: `You are an image analysis AI that writes descriptions for AI image editing. Your task is to extract and describe the aspects the user specifies from the provided image. Write every description in English.`,
+    detailedSystem: `You are an image analysis AI that writes detailed, specific descriptions for AI image editing. Your task is to extract and describe the aspects the user specifies from the provided image. Write every description in English.`,
+    user: `Analyze the following aspects of the image and output them as JSON. Each description should be direct and concise, and strictly limited to its own category. The output must strictly follow the provided JSON structure, without any additional text.`,
+    detailedUser: `Analyze the following aspects of the image and output them as JSON. Each description should give as much detail and context as possible, be specific and thorough, and stay strictly limited to its own category. The output must strictly follow the provided JSON structure, without any additional text.`,
+    otherTextPrompt: (text) => `Content specified by the user: "${text}"`,
+    languageNames: { 'zh-TW': 'Traditional Chinese', en: 'English', ja: 'Japanese' },
+    translationDescription: (schemaKey, languageName) => `Exactly the same description as "${schemaKey}", translated into ${languageName}.`,
+    fieldRefinement: {
+      regenerate: () => `Look at the image again and write this description anew, in different wording.`,
+      shorter: (current) => `The current description is: "${current}". Rewrite it more concisely, keeping only the most important details.`,
+      detailed: (current) => `The current description is: "${current}". Add more detail and make it more specific and thorough.`,
+      instruction: (current, instruction) => `The current description is: "${current}". Revise it following this instruction: ${instruction}`,
+    },
+    fieldRefinementSubject: (label) => `This description is about this person in the image only: "${label}". Do not describe anyone else or the whole image.`,
+    transferSystem: `You are an AI that writes image editing instructions. You receive two images: the first is the reference, the second is the target to be edited. Your task is to write, for each aspect the user specifies, how the target must change to match the reference. Write every instruction in English.`,
+    transferUser: `Compare the following aspects of the two images and output them as JSON. Each field should be one direct editing instruction saying how the target must change to match the reference (for example "Replace the dark suit with a red kimono with white floral patterns"), covering only what needs to change and strictly limited to its own category. If an aspect already matches, output an empty string. The output must strictly follow the provided JSON structure, without any additional text.`,
+    transferDetailedUser: `Compare the following aspects of the two images and output them as JSON. Each field should be a specific, thorough editing instruction saying how the target must change to match the reference, describing the reference's details as fully as possible, covering only what needs to change and strictly limited to its own category. If an aspect already matches, output an empty string. The output must strictly follow the provided JSON structure, without any additional text.`,
+    transferDescription: (description) => `Instruction for changing the target to match the reference. Scope: ${description}`,
+    detectSubjects: `First count and locate every person in the image, then describe each person's own aspects separately in the "${SUBJECTS_KEY}" array; describe the other aspects for the whole image, shared by everyone.`,
+    subjectsDescription: `Every person in the image, ordered from left to right, one object each.`,
+    subjectLabelPrompt: 'Which person this is',
+    subjectLabelDescription: `A short phrase that identifies this person in the image, e.g. "the woman on the left".`,
+    repair: (output, keys) =>
+      `Your previous reply did not match the required JSON structure; these keys were missing, empty or not strings: ${keys.join(', ')}. Your previous reply was:\n${output}\nOutput the complete, valid JSON again, with every required key.`,
+  },
+  ja: {
+    system: `あなたはAI画像編集用の説明文を作成する画像分析AIです。提供された画像から、ユーザーが指定した側面を抽出して説明してください。すべての説明は日本語で書いてください。`,
+    detailedSystem: `あなたはAI画像編集用の詳細で具体的な説明文を作成する画像分析AIです。提供された画像から、ユーザーが指定した側面を抽出して説明してください。すべての説明は日本語で書いてください。`,
+    user: `画像の以下の指定内容を分析し、JSON形式で出力してください。各説明は直接的かつ簡潔で、対応するカテゴリーに厳密に限定してください。出力は提供されたJSON構造に厳密に従い、余分なテキストを含めないでください。`,
+    detailedUser: `画像の以下の指定内容を分析し、JSON形式で出力してください。各説明はできるだけ多くの詳細と文脈を含め、具体的かつ詳細に、対応するカテゴリーに厳密に限定してください。出力は提供されたJSON構造に厳密に従い、余分なテキストを含めないでください。`,
+    otherTextPrompt: (text) => `ユーザーが指定した内容：「${text}」`,
+    languageNames: { 'zh-TW': '繁体字中国語', en: '英語', ja: '日本語' },
+    translationDescription: (schemaKey, languageName) => `「${schemaKey}」とまったく同じ説明を${languageName}に翻訳したもの。`,
+    fieldRefinement: {
+      regenerate: () => `画像をもう一度見て、この説明を別の言い回しで書き直してください。`,
+      shorter: (current) => `現在の説明は「${current}」です。最も重要な詳細だけを残して、より簡潔に書き直してください。`,
+      detailed: (current) => `現在の説明は「${current}」です。より多くの詳細を加え、具体的かつ詳細に書き直してください。`,
+      instruction: (current, instruction) => `現在の説明は「${current}」です。次の指示に従ってこの説明を修正してください：${instruction}`,
+    },
+    fieldRefinementSubject: (label) => `この説明は画像内のこの人物だけについてのものです：「${label}」。他の人物や画像全体については説明しないでください。`,
+    transferSystem: `あなたは画像編集の指示を作成するAIです。2枚の画像を受け取ります。1枚目は参照画像、2枚目は編集対象の画像です。ユーザーが指定した側面ごとに、対象画像を参照画像に合わせるためにどう変更すべきかを指示してください。すべての指示は日本語で書いてください。`,
+    transferUser: `2枚の画像の以下の指定内容を比較し、JSON形式で出力してください。各フィールドは、対象画像を参照画像に合わせるための直接的な編集指示を1文で書いてください（例：「ダークスーツを白い花柄の赤い着物に変更する」）。変更が必要な部分だけを書き、対応するカテゴリーに厳密に限定してください。すでに一致している場合は空文字列を出力してください。出力は提供されたJSON構造に厳密に従い、余分なテキストを含めないでください。`,
+    transferDetailedUser: `2枚の画像の以下の指定内容を比較し、JSON形式で出力してください。各フィールドは、対象画像を参照画像に合わせるための具体的で詳細な編集指示とし、参照画像の詳細をできるだけ多く記述してください。変更が必要な部分だけを書き、対応するカテゴリーに厳密に限定してください。すでに一致している場合は空文字列を出力してください。出力は提供されたJSON構造に厳密に従い、余分なテキストを含めないでください。`,
+    transferDescription: (description) => `対象画像を参照画像に合わせるための編集指示。範囲：${description}`,
+    detectSubjects: `まず画像内のすべての人物を数えて位置を特定し、各人物の個別の内容を "${SUBJECTS_KEY}" 配列で人物ごとに説明してください。その他の内容は画像全体について、全員共通で説明してください。`,
+    subjectsDescription: `画像内のすべての人物を左から右の順に、1人につき1つのオブジェクトで。`,
+    subjectLabelPrompt: 'どの人物か',
+    subjectLabelDescription: `画像内でこの人物を特定できる短い表現。例：「左側の女性」。`,
+    repair: (output, keys) =>
+      `前回の回答は必要なJSON構造に合っていませんでした。次のキーが欠けているか、空か、文字列ではありませんでした：${keys.join('、')}。前回の回答：\n${output}\nすべての必要なキーを含む、完全で有効なJSONを改めて出力してください。`,
+  },
+};
+
+/**
+ * Splits an image data URL into its MIME type and base64 payload.
+ */
+const splitDataUrl = (dataUrl: string): { mimeType: string; data: string } => {
+  const [mimeType, data] = dataUrl.split(';base64,');
+  if (!data) {
+    throw new InvalidImageError('error.invalidImageData');
+  }
+  return { mimeType: mimeType.replace('data:', ''), data };
+};
+
+/**
+ * Builds the provider-agnostic prompt for an analysis request.
+ * Instructions and field descriptions are written in the requested output language, which steers the model's answer.
+ * @param request The image and options selected by the user.
+ * @returns The split image data, the requested fields and the instructions to send.
+ */
+export const buildAnalysisPrompt = (request: AnalysisRequest): AnalysisPrompt => {
+  const {
+    base64Image,
+    options,
+    categories,
+    otherAnalysisText,
+    isDetailedRequest,
+    outputLanguage,
+    secondaryLanguage,
+    referenceImage,
+    detectSubjects,
+    fieldRefinement,
+    repair,
+  } = request;
+  const instructions = ANALYSIS_INSTRUCTIONS[outputLanguage];
+
+  const { mimeType, data } = splitDataUrl(base64Image);
+  const reference = referenceImage ? splitDataUrl(referenceImage) : null;
+  // With a reference image every field describes a change to the target instead of what the image shows
+  const describe = (description: string) => (reference ? instructions.transferDescription(description) : description);
+
+  let fields: AnalysisField[] = [];
+  const subjectKeys = new Set<string>();
+
+  resolveSelectedCategories(categories, options).forEach((selectedCategory) => {
+    if (isSubjectCategory(selectedCategory)) subjectKeys.add(selectedCategory.schemaKey);
+    const category = localizeCategory(selectedCategory, outputLanguage);
+    if (category.usesOtherText) {
+      // Only add the '其他' category if text is provided
+      if (otherAnalysisText.trim()) {
+        fields.push({
+          schemaKey: category.schemaKey,
+          prompt: instructions.otherTextPrompt(otherAnalysisText.trim()),
+          description: describe(category.description),
+        });
+      }
+    } else {
+      fields.push({ schemaKey: category.schemaKey, prompt: category.prompt, description: describe(category.description) });
+    }
+  });
+
+  if (fields.length === 0) {
+    throw new AppError('error.noValidOptions');
+  }
+
+  // Per-person fields move into the objects of the subjects array, led by the field that tells the people apart
+  let subjectFields: AnalysisField[] | null = null;
+  if (detectSubjects) {
+    subjectFields = [
+      { schemaKey: SUBJECT_LABEL_KEY, prompt: instructions.subjectLabelPrompt, description: instructions.subjectLabelDescription },
+      ...fields.filter((field) => subjectKeys.has(field.schemaKey)),
+    ];
+    fields = fields.filter((field) => !subjectKeys.has(field.schemaKey));
+  }
+
+  // For the bilingual view, every field gets a twin holding the same description in the second language
+  const withTranslations = (list: AnalysisField[]): AnalysisField[] => {
+    if (!secondaryLanguage || secondaryLanguage === outputLanguage) return list;
+    const languageName = instructions.languageNames[secondaryLanguage];
+    return [
+      ...list,
+      ...list.map((field) => ({
+        schemaKey: `${field.schemaKey}${TRANSLATION_KEY_SUFFIX}`,
+        prompt: field.prompt,
+        description: instructions.translationDescription(field.schemaKey, languageName),
+      })),
+    ];
+  };
+
+  const modeUserPrompt = reference
+    ? isDetailedRequest
+      ? instructions.transferDetailedUser
+      : instructions.transferUser
+    : isDetailedRequest
+      ? instructions.detailedUser
+      : instructions.user;
+  // Redoing one field adds what should change about it, and whose field it is in a multi-person analysis
+  const refinementPrompt = ({ mode, currentText, instruction, subjectLabel }: FieldRefinement) =>
+    [instructions.fieldRefinement[mode](currentText.trim(), instruction.trim()), subjectLabel && instructions.fieldRefinementSubject(subjectLabel)]
+      .filter(Boolean)
+      .join('\n');
+  // A repair request adds the rejected reply and what was wrong with it
+  const userPrompt = [
+    modeUserPrompt,
+    subjectFields && instructions.detectSubjects,
+    fieldRefinement && refinementPrompt(fieldRefinement),
+    repair && instructions.repair(repair.output.trim(), repair.keys),
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  return {
+    mimeType,
+    data,
+    reference,
+    fields: withTranslations(fields),
+    subjects: subjectFields && { description: instructions.subjectsDescription, fields: withTranslations(subjectFields) },
+    // Modify system instruction and user prompt for detailed requests
+    systemInstruction: reference
+      ? instructions.transferSystem
+      : isDetailedRequest
+        ? instructions.detailedSystem
+        : instructions.system,
+    userPrompt,
+    outputLanguage,
+  };
+};
+
+/**
+ * Separates the translated twin fields of a bilingual response from the fields in the output language.
+ * @param result The parsed response, possibly containing `<schemaKey>__translation` fields.
+ * @returns The result in the output language, and the translation (null if the response has none).
+ */
+export const splitTranslatedResult = (
+  result: ImageAnalysisResult,
+): { result: ImageAnalysisResult; translation: ImageAnalysisResult | null } => {
+  const primary: ImageAnalysisResult = {};
+  const translation: ImageAnalysisResult = {};
+  Object.entries(result).forEach(([key, value]) => {
+    if (key.endsWith(TRANSLATION_KEY_SUFFIX)) {
+      translation[key.slice(0, -TRANSLATION_KEY_SUFFIX.length)] = value;
+    } else {
+      primary[key] = value;
+    }
+  });
+  return { result: primary, translation: Object.keys(translation).length > 0 ? translation : null };
+};
+
+// Models without native JSON mode often wrap their answer in a Markdown code fence
+const stripCodeFence = (text: string) => text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+/**
+ * Parses the model's JSON text into an object, without checking its fields (see validateAnalysisOutput).
+ * Tolerates a surrounding Markdown code fence.
+ */
+export const parseAnalysisJson = (text: string | undefined): Record<string, unknown> => {
+  const jsonStr = text === undefined ? '' : stripCodeFence(text);
+  if (!jsonStr) {
+    throw new ParseError('error.emptyModelOutput');
+  }
+
+  let parsedResult: unknown;
+  try {
+    parsedResult = JSON.parse(jsonStr);
+  } catch (parseError) {
+    console.error('Failed to parse JSON response:', jsonStr, parseError);
+    throw new ParseError('error.invalidModelOutput');
+  }
+  if (!parsedResult || typeof parsedResult !== 'object' || Array.isArray(parsedResult)) {
+    throw new ParseError('error.invalidModelOutput');
+  }
+  return parsedResult as Record<string, unknown>;
+};
+
+/**
+ * Reads the string fields of a JSON object that may still be arriving.
+ * Unlike parseAnalysisJson it never throws: a string cut off mid-way is returned as far as it goes,
+ * and anything after the first malformed token is ignored.
+ */
+export const parsePartialAnalysisJson = (text: string): ImageAnalysisResult => {
+  const result: ImageAnalysisResult = {};
+  const json = stripCodeFence(text);
+  let index = json.indexOf('{');
+  if (index < 0) return result;
+  index++;
+
+  // Reads a JSON string starting at the opening quote; `complete` is false if the text ends inside it
+  const readString = (): { value: string; complete: boolean } => {
+    let raw = '';
+    index++; // Opening quote
+    while (index < json.length) {
+      const char = json[index];
+      if (char === '"') {
+        index++;
+        return { value: JSON.parse(`"${raw}"`), complete: true };
+      }
+      if (char === '\\') {
+        if (index + 1 >= json.length) break;
+        const escape = json[index + 1];
+        if (escape === 'u') {
+          if (index + 6 > json.length) break;
+          raw += json.slice(index, index + 6);
+          index += 6;
+          continue;
+        }
+        raw += char + escape;
+        index += 2;
+        continue;
+      }
+      raw += char;
+      index++;
+    }
+    return { value: JSON.parse(`"${raw}"`), complete: false };
+  };
+
+  const skipWhitespace = () => {
+    while (index < json.length && /\s/.test(json[index])) index++;
+  };
+
+  try {
+    while (index < json.length) {
+      skipWhitespace();
+      if (json[index] === ',') {
+        index++;
+        skipWhitespace();
+      }
+      if (json[index] !== '"') break; // End of object, or a token this reader does not handle
+      const key = readString();
+      if (!key.complete) break;
+      skipWhitespace();
+      if (json[index] !== ':') break;
+      index++;
+      skipWhitespace();
+      if (json[index] !== '"') break; // Fields are always strings; stop at anything else
+      const value = readString();
+      result[key.value] = value.value;
+      if (!value.complete) break;
+    }
+  } catch {
+    // A malformed escape sequence; keep what was read before it
+  }
+  return result;
+};
+
+/**
+ * Reads a Retry-After header, which holds either a number of seconds or an HTTP date.
+ * @returns The wait in milliseconds, or null if the header is missing or unreadable.
+ */
+export const parseRetryAfter = (value: string | null | undefined): number | null => {
+  if (!value?.trim()) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Maps an HTTP status code from any provider to a typed user-facing error, or returns null for unknown codes.
+ * @param status The HTTP status code.
+ * @param retryAfterMs The wait the provider asked for, if any; only used for 429.
+ * @param detail The provider's error text, used to tell a rejected key or image apart from other bad requests.
+ */
+export const errorForHttpStatus = (status: number, retryAfterMs: number | null = null, detail: string = ''): AppError | null => {
+  if (status === 400) {
+    // Gemini answers an invalid key with 400 "API key not valid" (reason API_KEY_INVALID) rather than 401
+    if (/API[ _]key|API_KEY_INVALID/i.test(detail)) {
+      return new AuthError('error.authentication');
+    }
+    return /image|mime/i.test(detail) ? new InvalidImageError('error.invalidImage') : new AppError('error.badRequest');
+  } else if (status === 401 || status === 403) {
+    return new AuthError('error.authentication');
+  } else if (status === 429) {
+    return new RateLimitError(retryAfterMs);
+  } else if (status >= 500) {
+    return new ServerError('error.serverError');
+  }
+  return null;
+};
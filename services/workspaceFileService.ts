@@ -0,0 +1,248 @@
+import { AnalysisCategory, PromptTemplate, Tab, TabGroup } from '../types';
+import { isValidTabRecord, normalizeTabRecord } from './tabRecord';
+import { pruneTabGroups, reconcileTabGroups } from './tabGroupService';
+import { DEFAULT_TEMPLATE_ID } from './promptBuilder';
+import { DEFAULT_OUTPUT_LANGUAGE } from './outputLanguageService';
+import { AppError } from './appError';
+
+const WORKSPACE_FILE_FORMAT = 'ai-image-refiner-workspace';
+
+/**
+ * Current schema version of exported workspace files.
+ * Bump this whenever the shape of Tab or TabContentState changes, and add a migration below.
+ */
+export const WORKSPACE_SCHEMA_VERSION = 13;
+
+interface WorkspaceFile {
+  format: typeof WORKSPACE_FILE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  tabs: Tab[];
+  templates: PromptTemplate[]; // Custom templates referenced by the exported tabs
+  categories: AnalysisCategory[]; // Custom analysis categories referenced by the exported tabs
+  groups: TabGroup[]; // Groups of the exported tabs
+}
+
+/**
+ * Migrations keyed by the version they upgrade from: `migrations[n]` turns a version n file into version n + 1.
+ * Each one receives and returns the raw parsed file, so it can rename or reshape fields freely.
+ */
+const migrations: Record<number, (file: any) => any> = {
+  // v2 added per-tab prompt templates
+  1: (file) => ({
+    ...file,
+    tabs: Array.isArray(file.tabs)
+      ? file.tabs.map((tab: any) =>
+          tab && tab.contentState ? { ...tab, contentState: { ...tab.contentState, templateId: DEFAULT_TEMPLATE_ID } } : tab,
+        )
+      : file.tabs,
+    templates: [],
+  }),
+  // v3 added user-defined analysis categories
+  2: (file) => ({ ...file, categories: [] }),
+  // v4 added the per-tab output language and bilingual view
+  3: (file) => ({
+    ...file,
+    tabs: Array.isArray(file.tabs)
+      ? file.tabs.map((tab: any) =>
+          tab && tab.contentState
+            ? {
+                ...tab,
+                contentState: {
+                  ...tab.contentState,
+                  outputLanguage: DEFAULT_OUTPUT_LANGUAGE,
+                  bilingualLanguage: null,
+                  translatedAnalysisResult: null,
+                },
+              }
+            : tab,
+        )
+      : file.tabs,
+  }),
+  // v5 added the per-tab analysis history
+  4: (file) => ({
+    ...file,
+    tabs: Array.isArray(file.tabs)
+      ? file.tabs.map((tab: any) =>
+          tab && tab.contentState ? { ...tab, contentState: { ...tab.contentState, analysisHistory: [] } } : tab,
+        )
+      : file.tabs,
+  }),
+  // v6 added per-field edits of the analysis result
+  5: (file) => ({
+    ...file,
+    tabs: Array.isArray(file.tabs)
+      ? file.tabs.map((tab: any) =>
+          tab && tab.contentState ? { ...tab, contentState: { ...tab.contentState, fieldEdits: {} } } : tab,
+        )
+      : file.tabs,
+  }),
+  // v7 added the reference-vs-target transfer mode
+  6: (file) => ({
+    ...file,
+    tabs: Array.isArray(file.tabs)
+      ? file.tabs.map((tab: any) =>
+          tab && tab.contentState
+            ? { ...tab, contentState: { ...tab.contentState, analysisMode: 'describe', referenceImage: null } }
+            : tab,
+        )
+      : file.tabs,
+  }),
+  // v8 added labeled regions of the image
+  7: (file) => ({
+    ...file,
+    tabs: Array.isArray(file.tabs)
+      ? file.tabs.map((tab: any) =>
+          tab && tab.contentState ? { ...tab, contentState: { ...tab.contentState, regions: [] } } : tab,
+        )
+      : file.tabs,
+  }),
+  // v9 added the multi-person analysis
+  8: (file) => ({
+    ...file,
+    tabs: Array.isArray(file.tabs)
+      ? file.tabs.map((tab: any) =>
+          tab && tab.contentState
+            ? { ...tab, contentState: { ...tab.contentState, detectSubjects: false, subjectAnalysis: null } }
+            : tab,
+        )
+      : file.tabs,
+  }),
+  // v10 added the preprocessing details of the target and reference images
+  9: (file) => ({
+    ...file,
+    tabs: Array.isArray(file.tabs)
+      ? file.tabs.map((tab: any) =>
+          tab && tab.contentState
+            ? { ...tab, contentState: { ...tab.contentState, uploadedImageInfo: null, referenceImageInfo: null } }
+            : tab,
+        )
+      : file.tabs,
+  }),
+  // v11 added the originals and edits of cropped, rotated or flipped images
+  10: (file) => ({
+    ...file,
+    tabs: Array.isArray(file.tabs)
+      ? file.tabs.map((tab: any) =>
+          tab && tab.contentState
+            ? { ...tab, contentState: { ...tab.contentState, uploadedImageEdit: null, referenceImageEdit: null } }
+            : tab,
+        )
+      : file.tabs,
+  }),
+  // v12 added the output size of scaled crops
+  11: (file) => {
+    const withOutputSize = (edit: any) => (edit && edit.edits ? { ...edit, edits: { ...edit.edits, outputSize: null } } : edit);
+    return {
+      ...file,
+      tabs: Array.isArray(file.tabs)
+        ? file.tabs.map((tab: any) =>
+            tab && tab.contentState
+              ? {
+                  ...tab,
+                  contentState: {
+                    ...tab.contentState,
+                    uploadedImageEdit: withOutputSize(tab.contentState.uploadedImageEdit),
+                    referenceImageEdit: withOutputSize(tab.contentState.referenceImageEdit),
+                  },
+                }
+              : tab,
+          )
+        : file.tabs,
+    };
+  },
+  // v13 added tab groups
+  12: (file) => ({
+    ...file,
+    tabs: Array.isArray(file.tabs) ? file.tabs.map((tab: any) => (tab && typeof tab === 'object' ? { ...tab, groupId: null } : tab)) : file.tabs,
+    groups: [],
+  }),
+};
+
+const migrateWorkspaceFile = (file: any): any => {
+  let migrated = file;
+  while (migrated.schemaVersion < WORKSPACE_SCHEMA_VERSION) {
+    const migrate = migrations[migrated.schemaVersion];
+    if (!migrate) {
+      throw new AppError('error.workspaceUnsupportedVersion', { version: migrated.schemaVersion });
+    }
+    migrated = { ...migrate(migrated), schemaVersion: migrated.schemaVersion + 1 };
+  }
+  return migrated;
+};
+
+/**
+ * Serializes tabs, including their images and analysis results, into a workspace file.
+ * @param tabs The tabs to export, in tab-bar order.
+ * @param templates All known templates; only the custom ones the tabs use are included.
+ * @param categories The category registry; only the custom categories the tabs select are included.
+ * @param groups All tab groups; only the ones the tabs belong to are included.
+ * @returns The JSON text of the workspace file.
+ */
+export const serializeWorkspace = (
+  tabs: Tab[],
+  templates: PromptTemplate[],
+  categories: AnalysisCategory[],
+  groups: TabGroup[],
+): string => {
+  const usedTemplateIds = new Set(tabs.map((tab) => tab.contentState.templateId));
+  const usedCategoryIds = new Set(tabs.flatMap((tab) => tab.contentState.selectedOptions));
+  const file: WorkspaceFile = {
+    format: WORKSPACE_FILE_FORMAT,
+    schemaVersion: WORKSPACE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    // Transient UI state (loading spinner, error banner) is not worth sharing
+    tabs: tabs.map((tab) => ({ ...tab, contentState: { ...tab.contentState, isLoading: false, error: null, errorKind: null, cachedAt: null } })),
+    templates: templates.filter((template) => !template.isBuiltIn && usedTemplateIds.has(template.id)),
+    categories: categories.filter((category) => !category.isBuiltIn && usedCategoryIds.has(category.id)),
+    groups: pruneTabGroups(groups, tabs),
+  };
+  return JSON.stringify(file);
+};
+
+/**
+ * Parses a workspace file, upgrading it to the current schema version.
+ * Individual tabs that are corrupted are skipped; the whole file is rejected only if it is unreadable.
+ * @param text The JSON text of the workspace file.
+ * @returns The tabs, custom templates, custom categories and tab groups in the file, and how many tabs were skipped.
+ */
+export const parseWorkspaceFile = (
+  text: string,
+): { tabs: Tab[]; templates: PromptTemplate[]; categories: AnalysisCategory[]; groups: TabGroup[]; skippedCount: number } => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new AppError('error.workspaceInvalidJson');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || parsed.format !== WORKSPACE_FILE_FORMAT) {
+    throw new AppError('error.workspaceWrongFormat');
+  }
+  if (typeof parsed.schemaVersion !== 'number' || !Number.isInteger(parsed.schemaVersion) || parsed.schemaVersion < 1) {
+    throw new AppError('error.workspaceMissingVersion');
+  }
+  if (parsed.schemaVersion > WORKSPACE_SCHEMA_VERSION) {
+    throw new AppError('error.workspaceTooNew');
+  }
+
+  const migrated = migrateWorkspaceFile(parsed);
+  if (!Array.isArray(migrated.tabs)) {
+    throw new AppError('error.workspaceMissingTabs');
+  }
+
+  const validTabs: Tab[] = [];
+  migrated.tabs.forEach((record: any) => {
+    if (isValidTabRecord(record)) {
+      validTabs.push(normalizeTabRecord(record));
+    } else {
+      console.warn('Skipping corrupted tab in workspace file:', record);
+    }
+  });
+
+  const templates: PromptTemplate[] = Array.isArray(migrated.templates) ? migrated.templates : [];
+  const categories: AnalysisCategory[] = Array.isArray(migrated.categories) ? migrated.categories : [];
+  const { tabs, groups } = reconcileTabGroups(validTabs, migrated.groups);
+
+  return { tabs, templates, categories, groups, skippedCount: migrated.tabs.length - tabs.length };
+};
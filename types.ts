@@ -1,3 +1,4 @@
+// IDs of the built-in analysis categories; user-defined categories use generated IDs
 export enum AnalysisOption {
   CHARACTER_ATTIRE = '角色裝束',
   CHARACTER_POSE = '角色姿勢/動態',
@@ -7,6 +8,29 @@ export enum AnalysisOption {
   OTHER = '其他', // 新增 '其他' 選項
 }
 
+export type AnalysisCategoryId = string;
+
+// Language the analysis descriptions and refine prompts are written in
+export type OutputLanguage = 'zh-TW' | 'en' | 'ja';
+
+// 'describe' analyzes one image; 'transfer' compares a reference image with a target and describes how the target must change
+export type AnalysisMode = 'describe' | 'transfer';
+
+// The parts of a category that are sent to the model or end up in the refine prompt
+export type AnalysisCategoryText = Pick<AnalysisCategory, 'prompt' | 'description' | 'refinePrefix'>;
+
+export interface AnalysisCategory {
+  id: AnalysisCategoryId;
+  label: string; // Shown in the option list
+  prompt: string; // Fragment describing what to analyze, sent in the analysis prompt
+  description: string; // Description of the JSON field in the response schema
+  refinePrefix: string; // Refine-prompt prefix used when this is the only analyzed category
+  schemaKey: string; // Key of this category in ImageAnalysisResult
+  usesOtherText?: boolean; // The prompt is the tab's otherAnalysisText (the '其他' category)
+  isBuiltIn?: boolean; // Built-in categories cannot be edited or deleted
+  translations?: Partial<Record<OutputLanguage, AnalysisCategoryText>>; // Text used instead of the fields above for other output languages
+}
+
 export interface ImageAnalysisResult {
   characterAttire?: string;
   characterPose?: string;
@@ -14,23 +38,224 @@ export interface ImageAnalysisResult {
   photoBackground?: string;
   cameraAngle?: string; // For the '鏡頭角度' option
   otherAnalysis?: string; // For the '其他' option
+  [schemaKey: string]: string | undefined; // User-defined categories add their own keys
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  body: string; // Text with {field}, {#field}...{/field} and {^field}...{/field} placeholders
+  separator: string; // Joins the fields in {all}
+  isBuiltIn?: boolean; // Built-in templates can be duplicated but not edited or deleted
+}
+
+// One analysis run of a tab, kept so earlier results can be compared and restored
+export interface AnalysisHistoryEntry {
+  id: string;
+  timestamp: number; // When the run finished, in milliseconds since the epoch
+  selectedOptions: AnalysisCategoryId[];
+  otherAnalysisText: string;
+  isDetailed: boolean; // Run through '要求更細緻的描述'
+  model: string; // Model name from the settings at the time of the run
+  outputLanguage: OutputLanguage;
+  bilingualLanguage: OutputLanguage | null;
+  result: ImageAnalysisResult;
+  translatedResult: ImageAnalysisResult | null;
+  pinned: boolean; // Pinned entries are never dropped when the history is trimmed
+  refinedField?: string; // Schema key of the single field this run redid, if it was a per-field refinement
+  analysisMode?: AnalysisMode; // Missing in entries recorded before transfer mode existed, which were all 'describe'
+}
+
+// A labeled box on the uploaded image, analyzed on its own so each subject of a group photo gets its own fields
+export interface AnalysisRegion {
+  id: string;
+  label: string; // e.g. '人物 A'; heads the region's section of the refine prompt
+  // Position and size as fractions of the image, so the box survives any preview size
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  result: ImageAnalysisResult | null; // Analysis of the region alone, or null before it has been analyzed
+}
+
+// One person found by a multi-person analysis
+export interface AnalysisSubject {
+  label: string; // How the model tells this person apart, e.g. '左邊的女性'
+  translatedLabel: string | null; // label in the bilingual language, if any
+  result: ImageAnalysisResult; // This person's own fields (attire, pose, expression)
+  translatedResult: ImageAnalysisResult | null;
+}
+
+// A multi-person analysis: the picked subject's fields plus the shared ones make up rawAnalysisResult
+export interface SubjectAnalysis {
+  subjects: AnalysisSubject[];
+  shared: ImageAnalysisResult; // Fields describing the whole image, such as background and camera angle
+  translatedShared: ImageAnalysisResult | null;
+  selectedIndex: number;
+}
+
+// What the automatic repair of a malformed model reply achieved; keys as in validateAnalysisOutput
+export interface AnalysisOutputReport {
+  attempts: number; // Repair requests sent after the first reply
+  recovered: string[]; // Keys the first reply got wrong and a repair fixed
+  missing: string[]; // Keys still wrong after the last attempt
 }
 
+// Classes of failure the interface gives specific guidance for (see errorKind in appError)
+export type ErrorKind = 'auth' | 'rateLimit' | 'server' | 'safetyBlocked' | 'invalidImage' | 'network' | 'parse';
+
 export interface TabContentState {
-  uploadedImage: string | null; // Base64 image data
-  selectedOptions: AnalysisOption[];
+  uploadedImage: string | null; // Base64 image data; the target image in transfer mode
+  uploadedImageInfo: ImageProcessingInfo | null; // How uploadedImage, or its original if edited, was preprocessed; null for older tabs
+  uploadedImageEdit: ImageEditState | null; // Set when uploadedImage was cropped, rotated or flipped
+  selectedOptions: AnalysisCategoryId[];
   rawAnalysisResult: ImageAnalysisResult | null; // New structured analysis result
   isLoading: boolean;
   error: string | null;
   otherAnalysisText: string; // 新增自定義分析文本
+  templateId: string; // PromptTemplate used to assemble the refine prompt
+  outputLanguage: OutputLanguage; // Language the analysis and refine prompt are written in
+  bilingualLanguage: OutputLanguage | null; // Second language shown side by side, or null for a single-language view
+  translatedAnalysisResult: ImageAnalysisResult | null; // rawAnalysisResult written in bilingualLanguage
+  analysisHistory: AnalysisHistoryEntry[]; // Earlier runs, newest first
+  fieldEdits: Record<string, string>; // User edits of rawAnalysisResult fields, keyed by schema key
+  analysisMode: AnalysisMode;
+  referenceImage: string | null; // Base64 image whose attributes are transferred onto uploadedImage in transfer mode
+  referenceImageInfo: ImageProcessingInfo | null; // How referenceImage was preprocessed
+  referenceImageEdit: ImageEditState | null; // Set when referenceImage was cropped, rotated or flipped
+  regions: AnalysisRegion[]; // Boxes drawn on uploadedImage; the image itself is left untouched
+  detectSubjects: boolean; // Describe every person separately instead of blending them into one description
+  subjectAnalysis: SubjectAnalysis | null; // The people found by the last multi-person analysis
+  outputReport: AnalysisOutputReport | null; // Set when the last analysis needed repairs or came back incomplete; not persisted
+  errorKind: ErrorKind | null; // Set along with error when an analysis failed in a known way; not persisted
+  cachedAt: number | null; // When the shown result was stored, if it came from the response cache; not persisted
+}
+
+// A change to a tab's state: the fields to replace, or a function computing them from the tab's latest state
+export type TabContentStateUpdate = Partial<TabContentState> | ((state: TabContentState) => Partial<TabContentState>);
+
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'error';
+
+export interface BatchItem {
+  id: string;
+  fileName: string;
+  image: string; // Base64 image data
+  status: BatchItemStatus;
+  attempts: number; // Number of analyzeImage calls made so far, including retries
+  result: ImageAnalysisResult | null;
+  prompt: string; // Refine prompt assembled from result
+  error: string | null;
+}
+
+// Language of the app's own interface, independent of the tabs' output language
+export type UiLocale = 'zh-TW' | 'en';
+
+export type VisionProviderType = 'gemini' | 'openai-compatible';
+
+export interface GenerationSettings {
+  temperature?: number; // Undefined uses the model's default
+  topP?: number;
+  maxOutputTokens?: number;
+}
+
+// 'original' keeps JPEG, PNG and WebP as they are and turns any other format into PNG
+export type ImageOutputFormat = 'original' | 'image/jpeg' | 'image/png' | 'image/webp';
+
+export interface ImageProcessingSettings {
+  enabled: boolean; // Off sends every image exactly as it was read
+  maxDimension: number; // Longest side in pixels; larger images are scaled down
+  format: ImageOutputFormat;
+  quality: number; // 0.1 to 1, used for JPEG and WebP
+}
+
+// Format, file size and pixel size of one version of an image
+export interface ImageFacts {
+  mimeType: string;
+  bytes: number;
+  width: number;
+  height: number;
+}
+
+// What preprocessing did to an uploaded image, shown next to its preview
+export interface ImageProcessingInfo {
+  original: ImageFacts; // As read from the file, with width and height as displayed (after EXIF orientation)
+  processed: ImageFacts; // As sent to the model
+  orientation: number; // The EXIF orientation that was applied; 1 means upright already
+}
+
+// Crop, rotation and flips applied to an image; the image they were applied to is kept alongside
+export interface ImageEdits {
+  // Area to keep, in pixels of the original's unrotated frame; rotation and flips turn the picture around its center inside it
+  crop: { x: number; y: number; width: number; height: number };
+  rotation: number; // Degrees clockwise
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  aspect: number | null; // Aspect ratio the crop was locked to, or null for the default
+  outputSize: { width: number; height: number } | null; // Exact pixel size the crop is scaled to, or null to keep its own size
+}
+
+// An aspect ratio for the cropper, optionally with an exact pixel size to scale the crop to
+export interface CropPreset {
+  id: string;
+  name: string;
+  width: number; // Ratio width, or the pixel width when exactSize is set
+  height: number;
+  exactSize: boolean;
+  isBuiltIn?: boolean; // Built-in presets cannot be deleted
+}
+
+// Output sizes an image-generation model is trained on, to crop reference images to
+export interface ModelTargetSize {
+  id: string;
+  label: string; // Model name, shown as is in every language
+  sizes: { width: number; height: number }[];
+}
+
+// An edited image's original and the edits that turned it into the one shown, so they can be adjusted or undone
+export interface ImageEditState {
+  original: string; // Base64 image data as uploaded, before any edit
+  edits: ImageEdits;
+}
+
+export interface CacheSettings {
+  enabled: boolean; // Reuse stored results for an identical image, options and model instead of calling the API
+  maxSizeMb: number; // Oldest results are evicted once the stored results exceed this size
+  maxAgeDays: number; // Results older than this are discarded
+}
+
+export interface AppSettings {
+  provider: VisionProviderType; // Which backend analyzeImage sends requests to
+  gemini: {
+    apiKey: string;
+    model: string;
+  };
+  openAiCompatible: {
+    baseUrl: string; // e.g. 'http://localhost:11434/v1' for Ollama
+    apiKey: string; // Optional for most local servers
+    model: string;
+  };
+  generation: GenerationSettings;
+  cache: CacheSettings;
+  imageProcessing: ImageProcessingSettings;
 }
 
 export interface Tab {
   id: string;
   name: string;
+  groupId: string | null; // The TabGroup the tab belongs to, or null for an ungrouped tab
   contentState: TabContentState;
 }
 
+export type TabGroupColor = 'blue' | 'green' | 'yellow' | 'red' | 'purple' | 'gray';
+
+// A named, color-coded set of tabs that can be collapsed in the tab bar
+export interface TabGroup {
+  id: string;
+  name: string;
+  color: TabGroupColor;
+  collapsed: boolean; // Hides the group's tabs, except the active one
+}
+
 // Function to decode base64 string to Uint8Array
 export function decode(base64: string): Uint8Array {
   const binaryString = atob(base64);